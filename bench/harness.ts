@@ -0,0 +1,33 @@
+/**
+ * A minimal benchmark harness. Each case is run once to warm up and then repeatedly for at least the minimum time.
+ */
+export interface BenchResult {
+    name: string;
+    iterations: number;
+    /**
+     * The mean time per iteration in milliseconds.
+     */
+    mean: number;
+}
+
+export function bench(name: string, f: () => void, minTime = 200): BenchResult {
+    f();
+    let iterations = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    do {
+        f();
+        iterations++;
+        elapsed = performance.now() - start;
+    } while (elapsed < minTime);
+    return { name, iterations, mean: elapsed / iterations };
+}
+
+/* eslint-disable no-console */
+export function report(title: string, results: BenchResult[]): void {
+    console.log(title);
+    const width = Math.max(...results.map(result => result.name.length));
+    for (const result of results) {
+        console.log(`  ${result.name.padEnd(width)}  ${result.mean.toFixed(3).padStart(10)} ms  (${result.iterations} iterations)`);
+    }
+}
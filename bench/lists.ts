@@ -0,0 +1,37 @@
+import { create_sym } from "../src/atoms";
+import { Cons, cons, nil } from "../src/tree";
+import { bench, BenchResult, report } from "./harness";
+
+/**
+ * Shows that the list operations scale linearly with the length of the list and are not limited by the stack depth.
+ * Before these operations were made iterative, lists of around 10,000 items exhausted the stack.
+ */
+function long_list(n: number): Cons {
+    const x = create_sym("x");
+    let X: Cons = nil;
+    for (let i = 0; i < n; i++) {
+        const next = cons(x, X);
+        X.release();
+        X = next;
+    }
+    x.release();
+    return X;
+}
+
+for (const n of [1000, 10000, 100000, 1000000]) {
+    const X = long_list(n);
+    const needle = create_sym("y");
+    const results: BenchResult[] = [
+        bench("length", () => void X.length),
+        bench("item(n - 1)", () => X.item(n - 1).release()),
+        bench("contains (absent)", () => void X.contains(needle)),
+        bench("map (identity)", () => X.map(function (item) {
+            item.addRef();
+            return item;
+        }).release()),
+        bench("toString", () => void X.toString()),
+        bench("build and release", () => long_list(n).release())
+    ];
+    report(`${n} items`, results);
+    X.release();
+}
@@ -0,0 +1,67 @@
+import { create_sym } from "../src/atoms";
+import { is_cons, items_to_cons, set_cons_pool_capacity, U, with_cons_arena } from "../src/tree";
+import { bench, BenchResult, report } from "./harness";
+
+/**
+ * Compares the default allocation of Cons cells with pooled allocation and arena scopes.
+ * The workload builds and releases many small, short-lived lists, as a simplifier does when rewriting terms.
+ */
+const x = create_sym("x");
+const y = create_sym("y");
+const plus = create_sym("+");
+const times = create_sym("*");
+
+/**
+ * Builds a balanced tree of the specified depth, releasing each intermediate list.
+ */
+function tree(depth: number): U {
+    if (depth === 0) {
+        x.addRef();
+        return x;
+    }
+    const lhs = tree(depth - 1);
+    const rhs = tree(depth - 1);
+    try {
+        return items_to_cons(depth % 2 === 0 ? plus : times, lhs, rhs, y);
+    }
+    finally {
+        lhs.release();
+        rhs.release();
+    }
+}
+
+/**
+ * Builds the same tree without releasing the intermediate lists, which is only correct inside an arena scope.
+ */
+function unreleased_tree(depth: number): U {
+    if (depth === 0) {
+        return x;
+    }
+    return items_to_cons(depth % 2 === 0 ? plus : times, unreleased_tree(depth - 1), unreleased_tree(depth - 1), y);
+}
+
+/**
+ * Rebuilds every list of the tree, as a rewrite that changes each node would.
+ */
+function rebuild(expr: U): U {
+    if (is_cons(expr)) {
+        return expr.map(rebuild);
+    }
+    expr.addRef();
+    return expr;
+}
+
+for (const depth of [8, 12, 16]) {
+    const results: BenchResult[] = [];
+    results.push(bench("build and release (default)", () => tree(depth).release()));
+    const X = tree(depth);
+    results.push(bench("rebuild and release (default)", () => rebuild(X).release()));
+    set_cons_pool_capacity(1 << 20);
+    results.push(bench("build and release (pooled)", () => tree(depth).release()));
+    results.push(bench("rebuild and release (pooled)", () => rebuild(X).release()));
+    results.push(bench("build in arena (pooled)", () => with_cons_arena(() => unreleased_tree(depth)).release()));
+    set_cons_pool_capacity(0);
+    results.push(bench("build in arena (default)", () => with_cons_arena(() => unreleased_tree(depth)).release()));
+    report(`depth ${depth} (${4 * (2 ** depth - 1)} cells)`, results);
+    X.release();
+}
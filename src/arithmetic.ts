@@ -0,0 +1,213 @@
+import { create_rat, create_sym, is_rat } from "./atoms";
+import { operator_key } from "./printer";
+import { Cons, is_cons, pos_end_items_to_cons, U } from "./tree";
+
+/**
+ * Returns the list (key ...args), whose head is the symbol with the specified key.
+ * The returned item is reference counted.
+ */
+export function make_application(key: string, args: U[], pos?: number, end?: number): Cons {
+    const head = create_sym(key);
+    try {
+        return pos_end_items_to_cons(pos, end, head, ...args);
+    }
+    finally {
+        head.release();
+    }
+}
+
+/**
+ * Determines whether the expression is the rational number zero.
+ */
+export function is_zero(expr: U): boolean {
+    return is_rat(expr) && expr.isZero();
+}
+
+/**
+ * Determines whether the expression is the rational number one.
+ */
+export function is_one(expr: U): boolean {
+    return is_rat(expr) && expr.isOne();
+}
+
+function release_all(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+/**
+ * Determines whether the expression is a list whose head has the specified operator key (see operator_key).
+ */
+export function is_application(expr: U, key: string): expr is Cons {
+    if (is_cons(expr)) {
+        const head = expr.head;
+        try {
+            return operator_key(head) === key;
+        }
+        finally {
+            head.release();
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns the sum of the terms, flattening nested sums, combining rational constants and dropping zero.
+ * The returned item is reference counted.
+ */
+export function make_sum(terms: U[], pos?: number, end?: number): U {
+    const owned: U[] = [];
+    try {
+        let constant = create_rat(0);
+        const others: U[] = [];
+        for (const term of terms) {
+            const nested = is_application(term, '+');
+            const items = nested ? term.tail() : [term];
+            if (nested) {
+                owned.push(...items);
+            }
+            for (const item of items) {
+                if (is_rat(item)) {
+                    const next = constant.add(item);
+                    constant.release();
+                    constant = next;
+                }
+                else {
+                    others.push(item);
+                }
+            }
+        }
+        owned.push(constant);
+        const args = constant.isZero() ? others : [...others, constant];
+        if (args.length === 0) {
+            return create_rat(0);
+        }
+        else if (args.length === 1) {
+            args[0].addRef();
+            return args[0];
+        }
+        else {
+            return make_application('+', args, pos, end);
+        }
+    }
+    finally {
+        release_all(owned);
+    }
+}
+
+/**
+ * Returns the product of the factors, flattening nested products, combining rational constants, and simplifying
+ * multiplication by zero or one.
+ * The returned item is reference counted.
+ */
+export function make_product(factors: U[], pos?: number, end?: number): U {
+    const owned: U[] = [];
+    try {
+        let constant = create_rat(1);
+        const others: U[] = [];
+        for (const factor of factors) {
+            const nested = is_application(factor, '*');
+            const items = nested ? factor.tail() : [factor];
+            if (nested) {
+                owned.push(...items);
+            }
+            for (const item of items) {
+                if (is_rat(item)) {
+                    const next = constant.mul(item);
+                    constant.release();
+                    constant = next;
+                }
+                else {
+                    others.push(item);
+                }
+            }
+        }
+        owned.push(constant);
+        if (constant.isZero()) {
+            return create_rat(0);
+        }
+        const args = constant.isOne() ? others : [constant, ...others];
+        if (args.length === 0) {
+            return create_rat(1);
+        }
+        else if (args.length === 1) {
+            args[0].addRef();
+            return args[0];
+        }
+        else {
+            return make_application('*', args, pos, end);
+        }
+    }
+    finally {
+        release_all(owned);
+    }
+}
+
+/**
+ * Returns the product of -1 and the expression.
+ * The returned item is reference counted.
+ */
+export function make_negation(u: U, pos?: number, end?: number): U {
+    const minusOne = create_rat(-1);
+    try {
+        return make_product([minusOne, u], pos, end);
+    }
+    finally {
+        minusOne.release();
+    }
+}
+
+/**
+ * Returns (- u v), simplifying subtraction of zero and from zero, and the difference of rational constants.
+ * The returned item is reference counted.
+ */
+export function make_difference(u: U, v: U, pos?: number, end?: number): U {
+    if (is_zero(v)) {
+        u.addRef();
+        return u;
+    }
+    else if (is_zero(u)) {
+        return make_negation(v, pos, end);
+    }
+    else if (is_rat(u) && is_rat(v)) {
+        return u.sub(v);
+    }
+    else {
+        return make_application('-', [u, v], pos, end);
+    }
+}
+
+/**
+ * Returns (/ u v), simplifying a zero numerator, division by one, and the quotient of rational constants.
+ * The returned item is reference counted.
+ */
+export function make_quotient(u: U, v: U, pos?: number, end?: number): U {
+    if (is_zero(u) || is_one(v)) {
+        u.addRef();
+        return u;
+    }
+    else if (is_rat(u) && is_rat(v) && !v.isZero()) {
+        return u.div(v);
+    }
+    else {
+        return make_application('/', [u, v], pos, end);
+    }
+}
+
+/**
+ * Returns (power base expo), simplifying the exponents zero and one.
+ * The returned item is reference counted.
+ */
+export function make_power(base: U, expo: U, pos?: number, end?: number): U {
+    if (is_zero(expo)) {
+        return create_rat(1);
+    }
+    else if (is_one(expo)) {
+        base.addRef();
+        return base;
+    }
+    else {
+        return make_application('power', [base, expo], pos, end);
+    }
+}
@@ -0,0 +1,347 @@
+import { AtomFactory } from "./reader";
+import { Atom, hash_string, U } from "./tree";
+
+/**
+ * The reference counting and containment behavior shared by the standard atoms.
+ * Extend this class to implement Atom with the same conventions.
+ * The hash is computed from the type and toString(), so override it if equal atoms can have different string representations.
+ */
+export abstract class AbstractAtom implements Atom {
+    abstract readonly name: string;
+    abstract readonly type: string;
+    #refCount = 1;
+    #hash: number | undefined;
+    constructor(public readonly pos?: number, public readonly end?: number) {
+    }
+    #destructor(): void {
+
+    }
+    addRef(): void {
+        this.#refCount++;
+    }
+    release(): void {
+        this.#refCount--;
+        if (this.#refCount === 0) {
+            this.#destructor();
+        }
+    }
+    contains(needle: U): boolean {
+        return this.equals(needle);
+    }
+    abstract equals(other: U): boolean;
+    get hash(): number {
+        if (typeof this.#hash !== 'number') {
+            this.#hash = hash_string(`${this.type}:${this}`);
+        }
+        return this.#hash;
+    }
+    get iscons(): boolean {
+        return false;
+    }
+    get isnil(): boolean {
+        return false;
+    }
+}
+
+/**
+ * A symbol, identified by its key.
+ */
+export class Sym extends AbstractAtom {
+    readonly name = 'Sym';
+    readonly type = 'sym';
+    constructor(public readonly key: string, pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Sym) {
+            return this.key === other.key;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        return this.key;
+    }
+}
+
+/**
+ * An exact rational number, numer/denom, stored in lowest terms with a positive denominator.
+ */
+export class Rat extends AbstractAtom {
+    readonly name = 'Rat';
+    readonly type = 'rat';
+    public readonly numer: bigint;
+    public readonly denom: bigint;
+    constructor(numer: bigint, denom: bigint, pos?: number, end?: number) {
+        super(pos, end);
+        if (denom === BigInt(0)) {
+            throw new Error("denominator must not be zero.");
+        }
+        if (denom < BigInt(0)) {
+            numer = -numer;
+            denom = -denom;
+        }
+        const g = gcd(numer, denom);
+        this.numer = numer / g;
+        this.denom = denom / g;
+    }
+    add(other: Rat): Rat {
+        return new Rat(this.numer * other.denom + other.numer * this.denom, this.denom * other.denom);
+    }
+    sub(other: Rat): Rat {
+        return new Rat(this.numer * other.denom - other.numer * this.denom, this.denom * other.denom);
+    }
+    mul(other: Rat): Rat {
+        return new Rat(this.numer * other.numer, this.denom * other.denom);
+    }
+    div(other: Rat): Rat {
+        return new Rat(this.numer * other.denom, this.denom * other.numer);
+    }
+    neg(): Rat {
+        return new Rat(-this.numer, this.denom);
+    }
+    /**
+     * Returns -1, 0, or +1 according to whether this is less than, equal to, or greater than other.
+     */
+    compare(other: Rat): -1 | 0 | 1 {
+        const lhs = this.numer * other.denom;
+        const rhs = other.numer * this.denom;
+        return lhs < rhs ? -1 : lhs > rhs ? 1 : 0;
+    }
+    isInteger(): boolean {
+        return this.denom === BigInt(1);
+    }
+    isZero(): boolean {
+        return this.numer === BigInt(0);
+    }
+    isOne(): boolean {
+        return this.numer === BigInt(1) && this.denom === BigInt(1);
+    }
+    toNumber(): number {
+        return Number(this.numer) / Number(this.denom);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Rat) {
+            return this.numer === other.numer && this.denom === other.denom;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        if (this.isInteger()) {
+            return `${this.numer}`;
+        }
+        else {
+            return `${this.numer}/${this.denom}`;
+        }
+    }
+}
+
+/**
+ * A floating point number.
+ */
+export class Flt extends AbstractAtom {
+    readonly name = 'Flt';
+    readonly type = 'flt';
+    constructor(public readonly value: number, pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Flt) {
+            return Object.is(this.value, other.value) || this.value === other.value;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        // Ensure that integral values are distinguishable from Rat.
+        if (Number.isInteger(this.value)) {
+            return this.value.toFixed(1);
+        }
+        else {
+            return `${this.value}`;
+        }
+    }
+}
+
+/**
+ * A string.
+ */
+export class Str extends AbstractAtom {
+    readonly name = 'Str';
+    readonly type = 'str';
+    constructor(public readonly value: string, pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Str) {
+            return this.value === other.value;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        return JSON.stringify(this.value);
+    }
+}
+
+/**
+ * A boolean.
+ */
+export class Boo extends AbstractAtom {
+    readonly name = 'Boo';
+    readonly type = 'boo';
+    constructor(public readonly value: boolean, pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Boo) {
+            return this.value === other.value;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        return this.value ? 'true' : 'false';
+    }
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+    a = a < BigInt(0) ? -a : a;
+    b = b < BigInt(0) ? -b : b;
+    while (b !== BigInt(0)) {
+        const t = a % b;
+        a = b;
+        b = t;
+    }
+    // The denominator is never zero so a is only zero when both are.
+    return a === BigInt(0) ? BigInt(1) : a;
+}
+
+/**
+ * The interned symbols, keyed by the symbol key.
+ * The table holds a reference to each symbol so that they are never destroyed.
+ */
+const symbols = new Map<string, Sym>();
+
+/**
+ * Returns the symbol with the specified key.
+ * The returned item is reference counted.
+ *
+ * Symbols without source positions are interned so that the same instance is returned for the same key.
+ * A symbol with source positions is always a new instance (equal to the interned symbol).
+ */
+export function create_sym(key: string, pos?: number, end?: number): Sym {
+    if (typeof pos === 'number' || typeof end === 'number') {
+        return new Sym(key, pos, end);
+    }
+    const existing = symbols.get(key);
+    if (existing) {
+        existing.addRef();
+        return existing;
+    }
+    else {
+        const sym = new Sym(key);
+        symbols.set(key, sym);
+        sym.addRef();
+        return sym;
+    }
+}
+
+/**
+ * Returns the rational number numer/denom.
+ * The returned item is reference counted.
+ */
+export function create_rat(numer: number | bigint, denom: number | bigint = 1, pos?: number, end?: number): Rat {
+    return new Rat(BigInt(numer), BigInt(denom), pos, end);
+}
+
+/**
+ * The returned item is reference counted.
+ */
+export function create_flt(value: number, pos?: number, end?: number): Flt {
+    return new Flt(value, pos, end);
+}
+
+/**
+ * The returned item is reference counted.
+ */
+export function create_str(value: string, pos?: number, end?: number): Str {
+    return new Str(value, pos, end);
+}
+
+/**
+ * The returned item is reference counted.
+ */
+export function create_boo(value: boolean, pos?: number, end?: number): Boo {
+    return new Boo(value, pos, end);
+}
+
+export function is_sym(expr: U): expr is Sym {
+    return expr instanceof Sym;
+}
+
+export function is_rat(expr: U): expr is Rat {
+    return expr instanceof Rat;
+}
+
+export function is_flt(expr: U): expr is Flt {
+    return expr instanceof Flt;
+}
+
+export function is_str(expr: U): expr is Str {
+    return expr instanceof Str;
+}
+
+export function is_boo(expr: U): expr is Boo {
+    return expr instanceof Boo;
+}
+
+const INTEGER = /^[+-]?\d+$/;
+
+/**
+ * An AtomFactory for the reader that creates the standard atoms.
+ * Integer literals become Rat, other numeric literals become Flt.
+ * The symbols true and false become Boo.
+ */
+export const standard_atom_factory: AtomFactory = {
+    sym(name: string, pos: number, end: number): U {
+        if (name === 'true' || name === 'false') {
+            return create_boo(name === 'true', pos, end);
+        }
+        else {
+            return create_sym(name, pos, end);
+        }
+    },
+    num(text: string, pos: number, end: number): U {
+        if (INTEGER.test(text)) {
+            return create_rat(BigInt(text), 1, pos, end);
+        }
+        else {
+            return create_flt(parseFloat(text), pos, end);
+        }
+    },
+    str(value: string, pos: number, end: number): U {
+        return create_str(value, pos, end);
+    }
+};
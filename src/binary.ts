@@ -0,0 +1,502 @@
+import { create_boo, create_flt, create_rat, create_str, create_sym, is_boo, is_flt, is_rat, is_str, is_sym } from "./atoms";
+import { Atom, Cons, is_atom, is_cons, nil, U } from "./tree";
+
+/**
+ * The version of the encoding produced by encode_binary. Increment when the encoding changes incompatibly.
+ */
+export const BINARY_FORMAT_VERSION = 1;
+
+/**
+ * The leading bytes of every encoding, 'MET'.
+ */
+const MAGIC = [0x4D, 0x45, 0x54];
+
+const TAG_NIL = 1;
+const TAG_CONS = 2;
+const TAG_ATOM = 3;
+/**
+ * The bits of a tag byte that hold the tag. Of the other bits, only the HAS_POS and HAS_END flags are defined.
+ */
+const TAG_MASK = 0x0F;
+/**
+ * Flags combined with the tag to indicate that the pos and end properties follow.
+ */
+const HAS_POS = 0x10;
+const HAS_END = 0x20;
+
+/**
+ * The reference to the empty list, nil. Nodes are numbered from 1 in the order they are written.
+ */
+const NIL_REF = 0;
+
+const ZERO = BigInt(0);
+const SEVEN = BigInt(7);
+const BYTE = BigInt(0x7F);
+
+/**
+ * Thrown when decoding bytes that are not a valid encoding.
+ * The offset is the position in the input at which the problem was detected.
+ */
+export class BinaryDecodeError extends Error {
+    constructor(message: string, readonly offset: number) {
+        super(`${message} at offset ${offset}`);
+        this.name = 'BinaryDecodeError';
+    }
+}
+
+/**
+ * Accumulates bytes in a growable buffer. Integers are written as LEB128 varints.
+ */
+export class ByteWriter {
+    #buffer = new Uint8Array(256);
+    #length = 0;
+    readonly #scratch = new DataView(new ArrayBuffer(8));
+    get length(): number {
+        return this.#length;
+    }
+    #reserve(count: number): void {
+        if (this.#length + count > this.#buffer.length) {
+            let size = this.#buffer.length * 2;
+            while (size < this.#length + count) {
+                size *= 2;
+            }
+            const buffer = new Uint8Array(size);
+            buffer.set(this.#buffer.subarray(0, this.#length));
+            this.#buffer = buffer;
+        }
+    }
+    byte(value: number): this {
+        this.#reserve(1);
+        this.#buffer[this.#length++] = value & 0xFF;
+        return this;
+    }
+    bytes(values: ArrayLike<number>): this {
+        this.#reserve(values.length);
+        this.#buffer.set(values, this.#length);
+        this.#length += values.length;
+        return this;
+    }
+    /**
+     * Writes a non-negative safe integer.
+     */
+    uint(value: number): this {
+        if (!Number.isSafeInteger(value) || value < 0) {
+            throw new RangeError(`${value} is not a non-negative safe integer.`);
+        }
+        while (value >= 0x80) {
+            this.byte((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        return this.byte(value);
+    }
+    /**
+     * Writes an integer using zigzag encoding so that small negative values are short.
+     * The magnitude must not exceed half of Number.MAX_SAFE_INTEGER; use bigint for larger values.
+     */
+    int(value: number): this {
+        const zigzag = value < 0 ? -2 * value - 1 : 2 * value;
+        if (!Number.isSafeInteger(zigzag)) {
+            throw new RangeError(`${value} is out of range for int.`);
+        }
+        return this.uint(zigzag);
+    }
+    /**
+     * Writes an integer of any size using zigzag encoding.
+     */
+    bigint(value: bigint): this {
+        let n = value < ZERO ? -BigInt(2) * value - BigInt(1) : BigInt(2) * value;
+        while (n > BYTE) {
+            this.byte(Number(n & BYTE) | 0x80);
+            n >>= SEVEN;
+        }
+        return this.byte(Number(n));
+    }
+    float64(value: number): this {
+        this.#scratch.setFloat64(0, value, true);
+        return this.bytes(new Uint8Array(this.#scratch.buffer));
+    }
+    /**
+     * Writes the length of the UTF-8 encoding followed by the encoding.
+     */
+    string(value: string): this {
+        const utf8 = new TextEncoder().encode(value);
+        return this.uint(utf8.length).bytes(utf8);
+    }
+    /**
+     * Returns a copy of the bytes that have been written.
+     */
+    toUint8Array(): Uint8Array {
+        return this.#buffer.slice(0, this.#length);
+    }
+}
+
+/**
+ * Reads the values written by a ByteWriter. A BinaryDecodeError is thrown when reading past the end.
+ */
+export class ByteReader {
+    #offset = 0;
+    constructor(private readonly data: Uint8Array) {
+    }
+    get offset(): number {
+        return this.#offset;
+    }
+    get done(): boolean {
+        return this.#offset >= this.data.length;
+    }
+    byte(): number {
+        if (this.#offset >= this.data.length) {
+            throw new BinaryDecodeError("Unexpected end of input", this.#offset);
+        }
+        return this.data[this.#offset++];
+    }
+    bytes(count: number): Uint8Array {
+        if (this.#offset + count > this.data.length) {
+            throw new BinaryDecodeError("Unexpected end of input", this.data.length);
+        }
+        const bytes = this.data.subarray(this.#offset, this.#offset + count);
+        this.#offset += count;
+        return bytes;
+    }
+    uint(): number {
+        const start = this.#offset;
+        let value = 0;
+        let scale = 1;
+        for (;;) {
+            const b = this.byte();
+            value += (b & 0x7F) * scale;
+            if (!Number.isSafeInteger(value)) {
+                throw new BinaryDecodeError("Integer is too large", start);
+            }
+            if ((b & 0x80) === 0) {
+                return value;
+            }
+            scale *= 0x80;
+        }
+    }
+    int(): number {
+        const n = this.uint();
+        return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+    }
+    bigint(): bigint {
+        let n = ZERO;
+        let shift = ZERO;
+        for (;;) {
+            const b = this.byte();
+            n |= BigInt(b & 0x7F) << shift;
+            if ((b & 0x80) === 0) {
+                break;
+            }
+            shift += SEVEN;
+        }
+        return (n & BigInt(1)) === ZERO ? n >> BigInt(1) : -((n + BigInt(1)) >> BigInt(1));
+    }
+    float64(): number {
+        const bytes = this.bytes(8);
+        return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0, true);
+    }
+    string(): string {
+        const length = this.uint();
+        const start = this.#offset;
+        try {
+            return new TextDecoder('utf-8', { fatal: true }).decode(this.bytes(length));
+        }
+        catch (e) {
+            if (e instanceof BinaryDecodeError) {
+                throw e;
+            }
+            throw new BinaryDecodeError("Invalid UTF-8", start);
+        }
+    }
+}
+
+/**
+ * Converts atoms of one type to and from bytes.
+ */
+export interface BinaryAtomCodec {
+    /**
+     * The Atom.type that is handled by this codec.
+     */
+    readonly type: string;
+    encode(atom: Atom, writer: ByteWriter): void;
+    /**
+     * Throws if the bytes are not a valid encoding.
+     * The returned item is reference counted.
+     */
+    decode(reader: ByteReader, pos: number | undefined, end: number | undefined): U;
+}
+
+/**
+ * The atom codecs that are known to the binary encoder and decoder, keyed by atom type.
+ */
+export class BinaryAtomCodecRegistry {
+    readonly #codecs = new Map<string, BinaryAtomCodec>();
+    add(codec: BinaryAtomCodec): this {
+        this.#codecs.set(codec.type, codec);
+        return this;
+    }
+    find(type: string): BinaryAtomCodec | undefined {
+        return this.#codecs.get(type);
+    }
+    /**
+     * Returns a new registry containing the same codecs.
+     */
+    clone(): BinaryAtomCodecRegistry {
+        const registry = new BinaryAtomCodecRegistry();
+        for (const codec of this.#codecs.values()) {
+            registry.add(codec);
+        }
+        return registry;
+    }
+}
+
+/**
+ * Returns a new registry containing codecs for Sym, Rat, Flt, Str and Boo.
+ */
+export function standard_binary_codecs(): BinaryAtomCodecRegistry {
+    const registry = new BinaryAtomCodecRegistry();
+    registry.add({
+        type: 'sym',
+        encode: (atom, writer) => writer.string(is_sym(atom) ? atom.key : `${atom}`),
+        decode: (reader, pos, end) => create_sym(reader.string(), pos, end)
+    });
+    registry.add({
+        type: 'rat',
+        encode: function (atom, writer) {
+            if (is_rat(atom)) {
+                writer.bigint(atom.numer).bigint(atom.denom);
+            }
+            else {
+                throw new Error(`${atom} is not a Rat.`);
+            }
+        },
+        decode: function (reader, pos, end) {
+            const offset = reader.offset;
+            const numer = reader.bigint();
+            const denom = reader.bigint();
+            if (denom <= ZERO) {
+                throw new BinaryDecodeError("Expecting a positive denominator", offset);
+            }
+            return create_rat(numer, denom, pos, end);
+        }
+    });
+    registry.add({
+        type: 'flt',
+        encode: (atom, writer) => writer.float64(is_flt(atom) ? atom.value : Number(`${atom}`)),
+        decode: (reader, pos, end) => create_flt(reader.float64(), pos, end)
+    });
+    registry.add({
+        type: 'str',
+        encode: (atom, writer) => writer.string(is_str(atom) ? atom.value : `${atom}`),
+        decode: (reader, pos, end) => create_str(reader.string(), pos, end)
+    });
+    registry.add({
+        type: 'boo',
+        encode: (atom, writer) => writer.byte(is_boo(atom) && atom.value ? 1 : 0),
+        decode: function (reader, pos, end) {
+            const offset = reader.offset;
+            const b = reader.byte();
+            if (b > 1) {
+                throw new BinaryDecodeError("Expecting 0 or 1", offset);
+            }
+            return create_boo(b === 1, pos, end);
+        }
+    });
+    return registry;
+}
+
+function write_tag(writer: ByteWriter, tag: number, expr: U): void {
+    const pos = expr.pos;
+    const end = expr.end;
+    writer.byte(tag | (typeof pos === 'number' ? HAS_POS : 0) | (typeof end === 'number' ? HAS_END : 0));
+    if (typeof pos === 'number') {
+        writer.uint(pos);
+    }
+    if (typeof end === 'number') {
+        writer.uint(end);
+    }
+}
+
+/**
+ * Returns a compact binary encoding of the expression.
+ *
+ * Each distinct node (by identity) is written once, after the nodes that it refers to, and is subsequently referred to by number.
+ * Consequently a tree with shared subterms is encoded in space proportional to the number of distinct nodes, and decode_binary
+ * restores the same sharing. The pos and end properties are preserved. Atoms are encoded using the codec registered for their type.
+ *
+ * The traversal uses an explicit stack so that long and deeply nested lists are supported.
+ */
+export function encode_binary(expr: U, codecs: BinaryAtomCodecRegistry = standard_binary_codecs()): Uint8Array {
+    const writer = new ByteWriter().bytes(MAGIC).byte(BINARY_FORMAT_VERSION);
+    const body = new ByteWriter();
+    const ids = new Map<U, number>([[nil, NIL_REF]]);
+    const types = new Map<string, number>();
+    /**
+     * The children obtained during the traversal, which are released at the end.
+     */
+    const owned: U[] = [];
+    const stack: [node: U, expanded: boolean][] = [[expr, false]];
+    try {
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const node = top[0];
+            if (ids.has(node)) {
+                stack.pop();
+            }
+            else if (is_cons(node) && !top[1]) {
+                top[1] = true;
+                const car = node.car;
+                owned.push(car);
+                const cdr = node.cdr;
+                owned.push(cdr);
+                // The cdr is pushed first so that the car is written first.
+                stack.push([cdr, false], [car, false]);
+            }
+            else {
+                stack.pop();
+                if (is_cons(node)) {
+                    const car = node.car;
+                    const cdr = node.cdr;
+                    try {
+                        write_tag(body, TAG_CONS, node);
+                        body.uint(ids.get(car) as number).uint(ids.get(cdr) as number);
+                    }
+                    finally {
+                        car.release();
+                        cdr.release();
+                    }
+                }
+                else if (is_atom(node)) {
+                    const codec = codecs.find(node.type);
+                    if (!codec) {
+                        throw new Error(`No codec is registered for atom type ${JSON.stringify(node.type)}.`);
+                    }
+                    write_tag(body, TAG_ATOM, node);
+                    // Atom types are numbered in order of first use; a new number is followed by the type.
+                    const typeId = types.get(node.type);
+                    if (typeof typeId === 'number') {
+                        body.uint(typeId);
+                    }
+                    else {
+                        types.set(node.type, types.size);
+                        body.uint(types.size - 1).string(node.type);
+                    }
+                    codec.encode(node, body);
+                }
+                else {
+                    // An empty list with a source span; nil itself is never written.
+                    write_tag(body, TAG_NIL, node);
+                }
+                ids.set(node, ids.size);
+            }
+        }
+        writer.uint(ids.size - 1);
+        writer.bytes(body.toUint8Array());
+        writer.uint(ids.get(expr) as number);
+        return writer.toUint8Array();
+    }
+    finally {
+        for (const child of owned) {
+            child.release();
+        }
+    }
+}
+
+/**
+ * Rebuilds an expression from the result of encode_binary, restoring the sharing of subterms.
+ * The input is validated and a BinaryDecodeError is thrown if it is not a valid encoding of the supported version.
+ * The returned item is reference counted.
+ */
+export function decode_binary(bytes: Uint8Array, codecs: BinaryAtomCodecRegistry = standard_binary_codecs()): U {
+    const reader = new ByteReader(bytes);
+    for (const b of MAGIC) {
+        if (reader.byte() !== b) {
+            throw new BinaryDecodeError("Not an expression encoding", reader.offset - 1);
+        }
+    }
+    const version = reader.byte();
+    if (version !== BINARY_FORMAT_VERSION) {
+        throw new BinaryDecodeError(`Unsupported version ${version}, expecting ${BINARY_FORMAT_VERSION}`, reader.offset - 1);
+    }
+    const count = reader.uint();
+    /**
+     * The decoded nodes, indexed by reference. Each holds a reference that is released at the end.
+     */
+    const nodes: U[] = [nil];
+    const types: string[] = [];
+    try {
+        const ref = function (): U {
+            const offset = reader.offset;
+            const id = reader.uint();
+            if (id >= nodes.length) {
+                throw new BinaryDecodeError(`Reference ${id} to a node that has not been defined`, offset);
+            }
+            return nodes[id];
+        };
+        for (let i = 0; i < count; i++) {
+            const offset = reader.offset;
+            const flags = reader.byte();
+            if ((flags & ~(TAG_MASK | HAS_POS | HAS_END)) !== 0) {
+                throw new BinaryDecodeError(`Unknown flags in tag ${flags}`, offset);
+            }
+            const pos = flags & HAS_POS ? reader.uint() : void 0;
+            const end = flags & HAS_END ? reader.uint() : void 0;
+            switch (flags & TAG_MASK) {
+                case TAG_NIL: {
+                    nodes.push(new Cons(void 0, void 0, pos, end));
+                    break;
+                }
+                case TAG_CONS: {
+                    const car = ref();
+                    const cdrOffset = reader.offset;
+                    const cdr = ref();
+                    if (!cdr.iscons && !cdr.isnil) {
+                        throw new BinaryDecodeError("Expecting a reference to a list", cdrOffset);
+                    }
+                    nodes.push(new Cons(car, cdr as Cons, pos, end));
+                    break;
+                }
+                case TAG_ATOM: {
+                    const typeOffset = reader.offset;
+                    const typeId = reader.uint();
+                    if (typeId === types.length) {
+                        types.push(reader.string());
+                    }
+                    else if (typeId > types.length) {
+                        throw new BinaryDecodeError(`Reference ${typeId} to an atom type that has not been defined`, typeOffset);
+                    }
+                    const type = types[typeId];
+                    const codec = codecs.find(type);
+                    if (!codec) {
+                        throw new BinaryDecodeError(`No codec is registered for atom type ${JSON.stringify(type)}`, typeOffset);
+                    }
+                    const atomOffset = reader.offset;
+                    try {
+                        nodes.push(codec.decode(reader, pos, end));
+                    }
+                    catch (e) {
+                        if (e instanceof BinaryDecodeError) {
+                            throw e;
+                        }
+                        throw new BinaryDecodeError(e instanceof Error ? e.message : `${e}`, atomOffset);
+                    }
+                    break;
+                }
+                default: {
+                    throw new BinaryDecodeError(`Unknown tag ${flags}`, offset);
+                }
+            }
+        }
+        const root = ref();
+        if (!reader.done) {
+            throw new BinaryDecodeError("Unexpected bytes after the expression", reader.offset);
+        }
+        root.addRef();
+        return root;
+    }
+    finally {
+        // The first entry is nil, which is not reference counted.
+        for (let i = 1; i < nodes.length; i++) {
+            nodes[i].release();
+        }
+    }
+}
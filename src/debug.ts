@@ -0,0 +1,152 @@
+import { Cons, ConsTracker, set_cons_tracker } from "./tree";
+
+/**
+ * A Cons that was still alive when a leak report was requested.
+ */
+export interface LiveCons {
+    readonly node: Cons;
+    readonly refCount: number;
+    /**
+     * The allocation sequence number, which increases with each allocation.
+     */
+    readonly seq: number;
+    /**
+     * The stack trace at the time of allocation, if stack capture is enabled.
+     */
+    readonly stack: string | undefined;
+}
+
+export interface LeakDetectorOptions {
+    /**
+     * Determines whether the stack trace is captured at each allocation. The default is true.
+     * Capturing stack traces is expensive, but it identifies the allocation site of a leak.
+     */
+    captureStacks?: boolean;
+}
+
+interface Allocation {
+    seq: number;
+    stack: string | undefined;
+}
+
+/**
+ * Tracks live Cons instances in order to find reference counting errors.
+ *
+ * While the detector is enabled, releasing (or using) a destroyed Cons throws an Error.
+ * A checkpoint marks a point in time, and leaks(checkpoint) reports the nodes allocated after that point that are still alive.
+ *
+ * const detector = new LeakDetector().enable();
+ * const checkpoint = detector.checkpoint();
+ * ...
+ * detector.assertNoLeaks(checkpoint);
+ * detector.disable();
+ */
+export class LeakDetector implements ConsTracker {
+    readonly #live = new Map<Cons, Allocation>();
+    readonly #captureStacks: boolean;
+    #seq = 0;
+    #previous: ConsTracker | undefined;
+    #enabled = false;
+    constructor(options: LeakDetectorOptions = {}) {
+        this.#captureStacks = typeof options.captureStacks === 'boolean' ? options.captureStacks : true;
+    }
+    /**
+     * Installs this detector as the Cons tracker.
+     */
+    enable(): this {
+        if (!this.#enabled) {
+            this.#previous = set_cons_tracker(this);
+            this.#enabled = true;
+        }
+        return this;
+    }
+    /**
+     * Restores the tracker that was installed when this detector was enabled.
+     */
+    disable(): this {
+        if (this.#enabled) {
+            set_cons_tracker(this.#previous);
+            this.#previous = void 0;
+            this.#enabled = false;
+        }
+        return this;
+    }
+    allocated(node: Cons): void {
+        const stack = this.#captureStacks ? allocation_stack() : void 0;
+        this.#live.set(node, { seq: this.#seq++, stack });
+    }
+    destroyed(node: Cons): void {
+        this.#live.delete(node);
+    }
+    /**
+     * The number of tracked Cons instances that are alive.
+     */
+    get liveCount(): number {
+        return this.#live.size;
+    }
+    /**
+     * Returns a marker for use with leaks and assertNoLeaks.
+     */
+    checkpoint(): number {
+        return this.#seq;
+    }
+    /**
+     * Returns the nodes, allocated since the checkpoint, that are still alive.
+     * If the checkpoint is omitted, all live nodes are reported.
+     */
+    leaks(checkpoint = 0): LiveCons[] {
+        const leaks: LiveCons[] = [];
+        for (const [node, allocation] of this.#live) {
+            if (allocation.seq >= checkpoint) {
+                leaks.push({ node, refCount: node.refCount, seq: allocation.seq, stack: allocation.stack });
+            }
+        }
+        return leaks.sort((a, b) => a.seq - b.seq);
+    }
+    /**
+     * Throws an Error, describing each leak and its allocation site, if any nodes allocated since the checkpoint are still alive.
+     */
+    assertNoLeaks(checkpoint = 0): void {
+        const leaks = this.leaks(checkpoint);
+        if (leaks.length > 0) {
+            const lines = leaks.map(function (leak) {
+                const where = leak.stack ? `\n${leak.stack}` : '';
+                return `#${leak.seq} refCount=${leak.refCount} ${leak.node}${where}`;
+            });
+            throw new Error(`${leaks.length} Cons leak(s) detected:\n${lines.join('\n')}`);
+        }
+    }
+}
+
+/**
+ * The number of frames of the allocation that are always present: this function, LeakDetector.allocated and the Cons
+ * method that notifies the tracker.
+ */
+const ALLOCATION_FRAMES = 3;
+
+/**
+ * Returns the location of the code of a stack frame, without the line and column, or undefined if it cannot be parsed.
+ */
+function frame_file(frame: string): string | undefined {
+    const match = /\(?([^\s()]+?):\d+:\d+\)?\s*$/.exec(frame);
+    return match ? match[1] : void 0;
+}
+
+/**
+ * Returns the stack trace from the first caller outside of this module and the tree module, i.e. the allocation site.
+ * The modules are identified by the locations of the frames of the allocation rather than by their file names,
+ * so that this also works when they are bundled into a single file.
+ */
+function allocation_stack(): string | undefined {
+    const stack = new Error().stack;
+    if (stack) {
+        // Drop the message, then the frames of the allocation itself, which may include other functions of the tree module.
+        const frames = stack.split('\n').slice(1);
+        const internal = new Set(frames.slice(0, ALLOCATION_FRAMES).map(frame_file).filter(file => typeof file === 'string'));
+        const start = frames.findIndex((frame, i) => i >= ALLOCATION_FRAMES && !internal.has(frame_file(frame)));
+        return frames.slice(start < 0 ? Math.min(ALLOCATION_FRAMES, frames.length) : start).join('\n');
+    }
+    else {
+        return void 0;
+    }
+}
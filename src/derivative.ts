@@ -0,0 +1,226 @@
+import { is_zero, make_application, make_difference, make_negation, make_power, make_product, make_quotient, make_sum } from "./arithmetic";
+import { create_rat } from "./atoms";
+import { operator_key } from "./printer";
+import { Cons, is_cons, U } from "./tree";
+
+/**
+ * Returns the derivative of a function of one argument with respect to that argument, evaluated at the argument,
+ * e.g. for (sin u) the rule returns (cos u). The chain rule is applied by derivative.
+ * The argument and the application are borrowed; the application is provided for its pos and end properties.
+ * The returned item is reference counted.
+ */
+export type DerivativeRule = (arg: U, expr: Cons) => U;
+
+/**
+ * The derivatives of functions of one argument, keyed by the operator key of the function.
+ */
+export class DerivativeRegistry {
+    readonly #rules = new Map<string, DerivativeRule>();
+    add(key: string, rule: DerivativeRule): this {
+        this.#rules.set(key, rule);
+        return this;
+    }
+    find(key: string): DerivativeRule | undefined {
+        return this.#rules.get(key);
+    }
+    /**
+     * Returns a new registry containing the same rules.
+     */
+    clone(): DerivativeRegistry {
+        const registry = new DerivativeRegistry();
+        for (const [key, rule] of this.#rules) {
+            registry.add(key, rule);
+        }
+        return registry;
+    }
+}
+
+/**
+ * Returns a new registry containing the rules for sin, cos, tan, exp, log and sqrt.
+ */
+export function default_derivatives(): DerivativeRegistry {
+    return new DerivativeRegistry()
+        .add('sin', (u, expr) => make_application('cos', [u], expr.pos, expr.end))
+        .add('cos', function (u, expr) {
+            const sin = make_application('sin', [u], expr.pos, expr.end);
+            try {
+                return make_negation(sin, expr.pos, expr.end);
+            }
+            finally {
+                sin.release();
+            }
+        })
+        .add('tan', function (u, expr) {
+            const cos = make_application('cos', [u], expr.pos, expr.end);
+            const two = create_rat(-2);
+            try {
+                return make_power(cos, two, expr.pos, expr.end);
+            }
+            finally {
+                cos.release();
+                two.release();
+            }
+        })
+        .add('exp', function (u, expr) {
+            expr.addRef();
+            return expr;
+        })
+        .add('log', function (u, expr) {
+            const one = create_rat(1);
+            try {
+                return make_quotient(one, u, expr.pos, expr.end);
+            }
+            finally {
+                one.release();
+            }
+        })
+        .add('sqrt', function (u, expr) {
+            const half = create_rat(1, 2);
+            try {
+                return make_quotient(half, expr, expr.pos, expr.end);
+            }
+            finally {
+                half.release();
+            }
+        });
+}
+
+export interface DerivativeOptions {
+    /**
+     * The default is default_derivatives().
+     */
+    functions?: DerivativeRegistry;
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+}
+
+function release_all(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+class Differentiator {
+    readonly #functions: DerivativeRegistry;
+    readonly #keyOf: (head: U) => string | undefined;
+    constructor(readonly variable: U, options: DerivativeOptions) {
+        this.#functions = options.functions ? options.functions : default_derivatives();
+        this.#keyOf = options.keyOf ? options.keyOf : operator_key;
+    }
+    /**
+     * The returned item is reference counted.
+     */
+    d(expr: U): U {
+        if (expr === this.variable || expr.equals(this.variable)) {
+            return create_rat(1);
+        }
+        else if (is_cons(expr) && expr.contains(this.variable)) {
+            const [head, ...args] = [...expr];
+            try {
+                return this.#application(expr, this.#keyOf(head), args);
+            }
+            finally {
+                head.release();
+                release_all(args);
+            }
+        }
+        else {
+            return create_rat(0);
+        }
+    }
+    /**
+     * The returned item is reference counted.
+     */
+    #application(expr: Cons, key: string | undefined, args: U[]): U {
+        const pos = expr.pos;
+        const end = expr.end;
+        const owned: U[] = [];
+        const own = (x: U) => {
+            owned.push(x);
+            return x;
+        };
+        try {
+            if (key === '+') {
+                return make_sum(args.map(arg => own(this.d(arg))), pos, end);
+            }
+            else if (key === '-' && args.length === 1) {
+                return make_negation(own(this.d(args[0])), pos, end);
+            }
+            else if (key === '-' && args.length === 2) {
+                return make_difference(own(this.d(args[0])), own(this.d(args[1])), pos, end);
+            }
+            else if (key === '*') {
+                const terms = args.map((arg, i) => {
+                    const factors = args.slice();
+                    factors[i] = own(this.d(arg));
+                    return own(make_product(factors, pos, end));
+                });
+                return make_sum(terms, pos, end);
+            }
+            else if (key === '/' && args.length === 2) {
+                const [u, v] = args;
+                const du = own(this.d(u));
+                const dv = own(this.d(v));
+                if (is_zero(dv)) {
+                    return make_quotient(du, v, pos, end);
+                }
+                const two = own(create_rat(2));
+                const numer = own(make_difference(own(make_product([du, v])), own(make_product([u, dv]))));
+                return make_quotient(numer, own(make_power(v, two)), pos, end);
+            }
+            else if (key === 'power' && args.length === 2) {
+                return this.#power(expr, args[0], args[1], own);
+            }
+            else if (typeof key === 'string' && args.length === 1 && this.#functions.find(key)) {
+                const rule = this.#functions.find(key) as DerivativeRule;
+                return make_product([own(rule(args[0], expr)), own(this.d(args[0]))], pos, end);
+            }
+            else {
+                return make_application('derivative', [expr, this.variable], pos, end);
+            }
+        }
+        finally {
+            release_all(owned);
+        }
+    }
+    /**
+     * The returned item is reference counted.
+     */
+    #power(expr: Cons, base: U, expo: U, own: (x: U) => U): U {
+        const pos = expr.pos;
+        const end = expr.end;
+        const db = own(this.d(base));
+        const de = own(this.d(expo));
+        if (is_zero(de)) {
+            // d(b^e) = e * b^(e-1) * db
+            const minusOne = own(create_rat(-1));
+            const reduced = own(make_power(base, own(make_sum([expo, minusOne])), pos, end));
+            return make_product([expo, reduced, db], pos, end);
+        }
+        const log = own(make_application('log', [base]));
+        if (is_zero(db)) {
+            // d(b^e) = b^e * log(b) * de
+            return make_product([expr, log, de], pos, end);
+        }
+        // d(b^e) = b^e * (de * log(b) + e * db / b)
+        const inner = own(make_sum([own(make_product([de, log])), own(make_quotient(own(make_product([expo, db])), base))]));
+        return make_product([expr, inner], pos, end);
+    }
+}
+
+/**
+ * Returns the derivative of the expression with respect to the variable, which is usually a symbol.
+ * Sums, differences, negations, products, quotients and powers, (power base expo), are differentiated using the usual rules,
+ * and functions of one argument with a rule in the registry using the chain rule. Any other expression that contains
+ * the variable is returned unevaluated as (derivative expr variable).
+ *
+ * The result is simplified where this is trivial, e.g. multiplication by 0 or 1 and rational constants are combined.
+ * Lists that are constructed for an expression in the source keep its pos and end properties,
+ * and subexpressions of the source are shared.
+ * The returned item is reference counted.
+ */
+export function derivative(expr: U, variable: U, options: DerivativeOptions = {}): U {
+    return new Differentiator(variable, options).d(expr);
+}
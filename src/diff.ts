@@ -0,0 +1,374 @@
+import { Cons, is_cons, U } from "./tree";
+import { Path } from "./visit";
+
+/**
+ * An edit operation on an expression. The path is the index of the item at each level from the root (see Path),
+ * where index 0 is the head of a list.
+ * Edits are applied in order, and each path refers to the expression that results from the preceding edits.
+ *
+ * insert: inserts the value into the parent list so that it has the last index of the path.
+ * delete: removes the item at the path.
+ * replace: replaces the item at the path (or the whole expression, for the empty path) by the value.
+ * move: removes the item at from and then inserts it so that it has the last index of the path. Both paths have the same parent list.
+ */
+export type Edit =
+    | { op: 'insert'; path: Path; value: U }
+    | { op: 'delete'; path: Path }
+    | { op: 'replace'; path: Path; value: U }
+    | { op: 'move'; from: Path; path: Path };
+
+/**
+ * Thrown when an edit cannot be applied.
+ */
+export class PatchError extends Error {
+    constructor(message: string, readonly path: Path) {
+        super(`${message} at [${path.join(', ')}]`);
+        this.name = 'PatchError';
+    }
+}
+
+/**
+ * Releases the references held by the values of the edits.
+ */
+export function release_edits(edits: Edit[]): void {
+    for (const edit of edits) {
+        if (edit.op === 'insert' || edit.op === 'replace') {
+            edit.value.release();
+        }
+    }
+}
+
+function same(a: U, b: U): boolean {
+    return a === b || a.equals(b);
+}
+
+function release_all(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+/**
+ * The largest table that is used to compute a longest common subsequence. The items of longer lists are paired by position.
+ */
+const MAX_LCS_CELLS = 1 << 20;
+
+/**
+ * Returns the index in bs that each item of as is matched to by a longest common subsequence, or -1.
+ */
+function lcs(as: U[], bs: U[]): number[] {
+    const n = as.length;
+    const m = bs.length;
+    const matches: number[] = as.map(() => -1);
+    if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+        return matches;
+    }
+    // lengths[i * (m + 1) + j] is the length of the LCS of as[i..] and bs[j..].
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] = same(as[i], bs[j]) ? lengths[(i + 1) * (m + 1) + j + 1] + 1 : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (same(as[i], bs[j])) {
+            matches[i] = j;
+            i++;
+            j++;
+        }
+        else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+            i++;
+        }
+        else {
+            j++;
+        }
+    }
+    return matches;
+}
+
+/**
+ * Appends the edits that transform the expression a into the expression b.
+ */
+function diff_items(a: U, b: U, path: number[], edits: Edit[]): void {
+    if (same(a, b)) {
+        return;
+    }
+    if (is_cons(a) && is_cons(b)) {
+        const as = [...a];
+        const bs = [...b];
+        try {
+            if (same(as[0], bs[0])) {
+                diff_lists(as, bs, path, edits);
+                return;
+            }
+        }
+        finally {
+            release_all(as);
+            release_all(bs);
+        }
+    }
+    b.addRef();
+    edits.push({ op: 'replace', path: path.slice(), value: b });
+}
+
+/**
+ * Appends the edits that transform the items of a list, as, into the items bs.
+ * Items are matched by a longest common subsequence. An unmatched item that is equal to an unmatched item of the other list is moved.
+ * The remaining unmatched items between the same matched items are paired in order and diffed, and any others are deleted or inserted.
+ */
+function diff_lists(a: U[], b: U[], path: number[], edits: Edit[]): void {
+    let start = 0;
+    while (start < a.length && start < b.length && same(a[start], b[start])) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && same(a[endA - 1], b[endB - 1])) {
+        endA--;
+        endB--;
+    }
+    const as = a.slice(start, endA);
+    const bs = b.slice(start, endB);
+    const matches = lcs(as, bs);
+    /**
+     * The index in as of the item that becomes each item of bs, or -1 for an insertion.
+     */
+    const sources: number[] = bs.map(() => -1);
+    /**
+     * Whether the item of bs is the result of diffing (rather than matching or moving) the source item.
+     */
+    const changed: boolean[] = bs.map(() => false);
+    matches.forEach(function (j, i) {
+        if (j >= 0) {
+            sources[j] = i;
+        }
+    });
+    const used = matches.map(j => j >= 0);
+    bs.forEach(function (item, j) {
+        if (sources[j] < 0) {
+            const i = as.findIndex((candidate, k) => !used[k] && same(candidate, item));
+            if (i >= 0) {
+                sources[j] = i;
+                used[i] = true;
+            }
+        }
+    });
+    // Pair the remaining items between consecutive matched items.
+    let i = 0;
+    let j = 0;
+    while (i < as.length || j < bs.length) {
+        const nextI = matches.findIndex((m, k) => k >= i && m >= 0);
+        const gapI = nextI < 0 ? as.length : nextI;
+        const gapJ = nextI < 0 ? bs.length : matches[nextI];
+        const freeI: number[] = [];
+        for (let k = i; k < gapI; k++) {
+            if (!used[k]) {
+                freeI.push(k);
+            }
+        }
+        const freeJ: number[] = [];
+        for (let k = j; k < gapJ; k++) {
+            if (sources[k] < 0) {
+                freeJ.push(k);
+            }
+        }
+        for (let k = 0; k < freeI.length && k < freeJ.length; k++) {
+            sources[freeJ[k]] = freeI[k];
+            changed[freeJ[k]] = true;
+            used[freeI[k]] = true;
+        }
+        i = gapI + 1;
+        j = gapJ + 1;
+    }
+    /**
+     * The indices in as of the items of the list as the edits are applied.
+     */
+    const working: number[] = as.map((item, k) => k);
+    for (let k = as.length - 1; k >= 0; k--) {
+        if (!used[k]) {
+            edits.push({ op: 'delete', path: [...path, start + k] });
+            working.splice(k, 1);
+        }
+    }
+    bs.forEach(function (item, k) {
+        const source = sources[k];
+        if (source < 0) {
+            item.addRef();
+            edits.push({ op: 'insert', path: [...path, start + k], value: item });
+            working.splice(k, 0, -1);
+            return;
+        }
+        const current = working.indexOf(source);
+        if (current !== k) {
+            edits.push({ op: 'move', from: [...path, start + current], path: [...path, start + k] });
+            working.splice(current, 1);
+            working.splice(k, 0, source);
+        }
+        if (changed[k]) {
+            path.push(start + k);
+            try {
+                diff_items(as[source], item, path, edits);
+            }
+            finally {
+                path.pop();
+            }
+        }
+    });
+}
+
+/**
+ * Returns the edits that transform the expression a into the expression b, such that patch(a, edits) is equal to b.
+ * Subexpressions are compared using equals, so the pos and end properties are ignored.
+ * Lists with equal heads are diffed item by item; any other change is a replacement.
+ * The values of the edits are reference counted (see release_edits).
+ */
+export function diff(a: U, b: U): Edit[] {
+    const edits: Edit[] = [];
+    diff_items(a, b, [], edits);
+    return edits;
+}
+
+/**
+ * Like Cons.splice, but the first cell of the result keeps the pos and end of the list.
+ * The returned item is reference counted.
+ */
+function splice_list(list: Cons, start: number, deleteCount: number, ...items: U[]): Cons {
+    const result = list.splice(start, deleteCount, ...items);
+    if (start === 0 && is_cons(result) && (result.pos !== list.pos || result.end !== list.end)) {
+        const car = result.car;
+        const cdr = result.cdr;
+        try {
+            return new Cons(car, cdr, list.pos, list.end);
+        }
+        finally {
+            car.release();
+            cdr.release();
+            result.release();
+        }
+    }
+    return result;
+}
+
+/**
+ * Returns the expression with the list at the path replaced by the result of the update function.
+ * Lists that are not on the path are shared.
+ * The returned item is reference counted.
+ */
+function update_at(expr: U, path: Path, depth: number, update: (list: Cons) => Cons): U {
+    if (!is_cons(expr)) {
+        throw new PatchError("Expecting a non-empty list", path.slice(0, depth));
+    }
+    if (depth === path.length) {
+        return update(expr);
+    }
+    const index = path[depth];
+    if (!Number.isInteger(index) || index < 0 || index >= expr.length) {
+        throw new PatchError(`Index ${index} is out of range`, path.slice(0, depth + 1));
+    }
+    const child = expr.item(index);
+    try {
+        const updated = update_at(child, path, depth + 1, update);
+        try {
+            if (updated === child) {
+                expr.addRef();
+                return expr;
+            }
+            return splice_list(expr, index, 1, updated);
+        }
+        finally {
+            updated.release();
+        }
+    }
+    finally {
+        child.release();
+    }
+}
+
+function check_index(list: Cons, index: number, max: number, path: Path): void {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+        throw new PatchError(`Index ${index} is out of range for a list of length ${list.length}`, path);
+    }
+}
+
+/**
+ * The returned item is reference counted.
+ */
+function apply_edit(expr: U, edit: Edit): U {
+    const path = edit.path;
+    if (path.length === 0) {
+        if (edit.op === 'replace') {
+            edit.value.addRef();
+            return edit.value;
+        }
+        throw new PatchError(`Unable to ${edit.op} the root`, path);
+    }
+    const parent = path.slice(0, path.length - 1);
+    const index = path[path.length - 1];
+    switch (edit.op) {
+        case 'insert': {
+            return update_at(expr, parent, 0, function (list) {
+                check_index(list, index, list.length, path);
+                return splice_list(list, index, 0, edit.value);
+            });
+        }
+        case 'delete': {
+            return update_at(expr, parent, 0, function (list) {
+                check_index(list, index, list.length - 1, path);
+                return splice_list(list, index, 1);
+            });
+        }
+        case 'replace': {
+            return update_at(expr, parent, 0, function (list) {
+                check_index(list, index, list.length - 1, path);
+                return splice_list(list, index, 1, edit.value);
+            });
+        }
+        case 'move': {
+            const from = edit.from;
+            if (from.length !== path.length || !parent.every((k, i) => from[i] === k)) {
+                throw new PatchError("A move must be within the same list", from);
+            }
+            const fromIndex = from[from.length - 1];
+            return update_at(expr, parent, 0, function (list) {
+                check_index(list, fromIndex, list.length - 1, from);
+                check_index(list, index, list.length - 1, path);
+                const item = list.item(fromIndex);
+                const removed = splice_list(list, fromIndex, 1);
+                try {
+                    return splice_list(removed, index, 0, item);
+                }
+                finally {
+                    removed.release();
+                    item.release();
+                }
+            });
+        }
+    }
+}
+
+/**
+ * Applies the edits to the expression in order.
+ * Subexpressions that are not changed by the edits are shared with the original expression, so computations
+ * that are cached by subexpression only need to be repeated for the lists on the paths of the edits.
+ * Unchanged subexpressions keep their pos and end properties, and a rebuilt list keeps the pos and end of the list it replaces.
+ * Throws a PatchError if an edit does not apply.
+ * The returned item is reference counted.
+ */
+export function patch(expr: U, edits: Edit[]): U {
+    let result = expr;
+    result.addRef();
+    try {
+        for (const edit of edits) {
+            const next = apply_edit(result, edit);
+            result.release();
+            result = next;
+        }
+        result.addRef();
+        return result;
+    }
+    finally {
+        result.release();
+    }
+}
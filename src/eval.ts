@@ -0,0 +1,239 @@
+import { is_flt, is_rat, is_sym } from "./atoms";
+import { operator_key } from "./printer";
+import { Atom, Cons, is_atom, is_cons, U } from "./tree";
+
+/**
+ * Thrown when an expression cannot be evaluated.
+ * The pos and end properties are those of the offending expression, if known.
+ */
+export class EvaluationError extends Error {
+    constructor(message: string, readonly pos: number | undefined, readonly end: number | undefined) {
+        super(typeof pos === 'number' ? `${message} at ${pos}` : message);
+        this.name = 'EvaluationError';
+    }
+}
+
+/**
+ * Thrown when a symbol has no value in the environment.
+ */
+export class UnboundSymbolError extends EvaluationError {
+    constructor(readonly key: string, pos: number | undefined, end: number | undefined) {
+        super(`Unbound symbol ${JSON.stringify(key)}`, pos, end);
+        this.name = 'UnboundSymbolError';
+    }
+}
+
+/**
+ * Thrown when an operation is applied to an unacceptable number of arguments.
+ */
+export class ArityError extends EvaluationError {
+    constructor(readonly key: string, readonly minArgs: number, readonly maxArgs: number, readonly actual: number, pos: number | undefined, end: number | undefined) {
+        super(`${JSON.stringify(key)} expects ${describe_arity(minArgs, maxArgs)} but was given ${actual}`, pos, end);
+        this.name = 'ArityError';
+    }
+}
+
+function describe_arity(minArgs: number, maxArgs: number): string {
+    const plural = (n: number) => n === 1 ? `${n} argument` : `${n} arguments`;
+    if (minArgs === maxArgs) {
+        return plural(minArgs);
+    }
+    else if (maxArgs === Infinity) {
+        return `at least ${plural(minArgs)}`;
+    }
+    else {
+        return `${minArgs} to ${plural(maxArgs)}`;
+    }
+}
+
+/**
+ * A mapping from symbols (by key) to values, which may extend a parent environment.
+ */
+export class Environment<T> {
+    readonly #values = new Map<string, T>();
+    constructor(readonly parent?: Environment<T>) {
+    }
+    define(key: string, value: T): this {
+        this.#values.set(key, value);
+        return this;
+    }
+    /**
+     * Returns the value of the symbol in this environment or the nearest ancestor that defines it.
+     */
+    lookup(key: string): T | undefined {
+        if (this.#values.has(key)) {
+            return this.#values.get(key);
+        }
+        return this.parent ? this.parent.lookup(key) : void 0;
+    }
+    has(key: string): boolean {
+        return this.#values.has(key) || (this.parent ? this.parent.has(key) : false);
+    }
+    /**
+     * Returns a new environment whose definitions shadow those of this environment.
+     */
+    extend(): Environment<T> {
+        return new Environment<T>(this);
+    }
+}
+
+/**
+ * The implementation of an operator for a particular value type.
+ */
+export interface Operation<T> {
+    key: string;
+    /**
+     * The minimum number of arguments. The default is 0.
+     */
+    minArgs?: number;
+    /**
+     * The maximum number of arguments. The default is Infinity.
+     */
+    maxArgs?: number;
+    /**
+     * Computes the value of the application from the values of the arguments.
+     * The expression is the application, which is borrowed, and is provided for error reporting.
+     */
+    apply(args: T[], expr: Cons): T;
+}
+
+/**
+ * The operations used by evaluate, keyed by operator key.
+ */
+export class OperationTable<T> {
+    readonly #operations = new Map<string, Operation<T>>();
+    add(operation: Operation<T>): this {
+        this.#operations.set(operation.key, operation);
+        return this;
+    }
+    find(key: string): Operation<T> | undefined {
+        return this.#operations.get(key);
+    }
+    /**
+     * Returns a new table containing the same operations.
+     */
+    clone(): OperationTable<T> {
+        const table = new OperationTable<T>();
+        for (const operation of this.#operations.values()) {
+            table.add(operation);
+        }
+        return table;
+    }
+}
+
+export interface EvalOptions<T> {
+    operations: OperationTable<T>;
+    /**
+     * Returns the value of an atom that is not a symbol, or undefined if the atom has no value.
+     */
+    constant: (atom: Atom) => T | undefined;
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+}
+
+/**
+ * Computes the value of the expression.
+ * Symbols are looked up in the environment, other atoms are converted using the constant option,
+ * and lists are applications whose arguments are evaluated (in order) before the operation for the head is applied.
+ * Throws an UnboundSymbolError for a symbol that has no value, an ArityError for an application with the wrong number of arguments,
+ * and an EvaluationError for anything else that cannot be evaluated.
+ */
+export function evaluate<T>(expr: U, env: Environment<T>, options: EvalOptions<T>): T {
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    return evaluate_expr(expr, env, options, keyOf);
+}
+
+function evaluate_expr<T>(expr: U, env: Environment<T>, options: EvalOptions<T>, keyOf: (head: U) => string | undefined): T {
+    if (is_cons(expr)) {
+        const head = expr.head;
+        try {
+            const key = keyOf(head);
+            const operation = typeof key === 'string' ? options.operations.find(key) : void 0;
+            if (!operation) {
+                throw new EvaluationError(typeof key === 'string' ? `Unknown operator ${JSON.stringify(key)}` : `Unable to apply ${head}`, head.pos, head.end);
+            }
+            const args = expr.tail();
+            try {
+                const minArgs = typeof operation.minArgs === 'number' ? operation.minArgs : 0;
+                const maxArgs = typeof operation.maxArgs === 'number' ? operation.maxArgs : Infinity;
+                if (args.length < minArgs || args.length > maxArgs) {
+                    throw new ArityError(operation.key, minArgs, maxArgs, args.length, expr.pos, expr.end);
+                }
+                const values = args.map(arg => evaluate_expr(arg, env, options, keyOf));
+                return operation.apply(values, expr);
+            }
+            finally {
+                for (const arg of args) {
+                    arg.release();
+                }
+            }
+        }
+        finally {
+            head.release();
+        }
+    }
+    else if (is_sym(expr)) {
+        if (env.has(expr.key)) {
+            return env.lookup(expr.key) as T;
+        }
+        throw new UnboundSymbolError(expr.key, expr.pos, expr.end);
+    }
+    else if (is_atom(expr)) {
+        const value = options.constant(expr);
+        if (typeof value === 'undefined') {
+            throw new EvaluationError(`Unable to evaluate ${expr}`, expr.pos, expr.end);
+        }
+        return value;
+    }
+    else {
+        throw new EvaluationError("Unable to evaluate ()", expr.pos, expr.end);
+    }
+}
+
+/**
+ * Converts rational and floating point atoms to numbers.
+ */
+export function number_constant(atom: Atom): number | undefined {
+    if (is_rat(atom)) {
+        return Number(atom.numer) / Number(atom.denom);
+    }
+    else if (is_flt(atom)) {
+        return atom.value;
+    }
+    else {
+        return void 0;
+    }
+}
+
+function unary(key: string, f: (x: number) => number): Operation<number> {
+    return { key, minArgs: 1, maxArgs: 1, apply: args => f(args[0]) };
+}
+
+function binary(key: string, f: (x: number, y: number) => number): Operation<number> {
+    return { key, minArgs: 2, maxArgs: 2, apply: args => f(args[0], args[1]) };
+}
+
+/**
+ * Returns a new table of the arithmetic operations (+, -, *, /, ^ and power) and common functions on numbers.
+ * The - operator is negation when applied to one argument and subtraction when applied to two.
+ */
+export function number_operations(): OperationTable<number> {
+    return new OperationTable<number>()
+        .add({ key: '+', apply: args => args.reduce((sum, x) => sum + x, 0) })
+        .add({ key: '*', apply: args => args.reduce((product, x) => product * x, 1) })
+        .add({ key: '-', minArgs: 1, maxArgs: 2, apply: args => args.length === 1 ? -args[0] : args[0] - args[1] })
+        .add(binary('/', (x, y) => x / y))
+        .add(binary('^', Math.pow))
+        .add(binary('power', Math.pow))
+        .add(unary('abs', Math.abs))
+        .add(unary('sqrt', Math.sqrt))
+        .add(unary('exp', Math.exp))
+        .add(unary('log', Math.log))
+        .add(unary('sin', Math.sin))
+        .add(unary('cos', Math.cos))
+        .add(unary('tan', Math.tan))
+        .add({ key: 'min', minArgs: 1, apply: args => Math.min(...args) })
+        .add({ key: 'max', minArgs: 1, apply: args => Math.max(...args) });
+}
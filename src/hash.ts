@@ -0,0 +1,219 @@
+import { Cons, hash_combine, hash_of, is_cons, nil, U } from "./tree";
+
+/**
+ * A Map-like collection keyed by expressions using structural equality.
+ * Keys are located using hash_of and compared using equals.
+ * The map holds a reference to each key, which is released when the entry is deleted or the map is cleared.
+ */
+export class ExprMap<V> {
+    readonly #buckets = new Map<number, [key: U, value: V][]>();
+    #size = 0;
+    get size(): number {
+        return this.#size;
+    }
+    #find(key: U): [key: U, value: V] | undefined {
+        const bucket = this.#buckets.get(hash_of(key));
+        if (bucket) {
+            for (const entry of bucket) {
+                if (entry[0] === key || entry[0].equals(key)) {
+                    return entry;
+                }
+            }
+        }
+        return void 0;
+    }
+    has(key: U): boolean {
+        return !!this.#find(key);
+    }
+    get(key: U): V | undefined {
+        const entry = this.#find(key);
+        return entry ? entry[1] : void 0;
+    }
+    set(key: U, value: V): this {
+        const entry = this.#find(key);
+        if (entry) {
+            entry[1] = value;
+        }
+        else {
+            const h = hash_of(key);
+            const bucket = this.#buckets.get(h);
+            key.addRef();
+            if (bucket) {
+                bucket.push([key, value]);
+            }
+            else {
+                this.#buckets.set(h, [[key, value]]);
+            }
+            this.#size++;
+        }
+        return this;
+    }
+    delete(key: U): boolean {
+        const h = hash_of(key);
+        const bucket = this.#buckets.get(h);
+        if (bucket) {
+            for (let i = 0; i < bucket.length; i++) {
+                const entry = bucket[i];
+                if (entry[0] === key || entry[0].equals(key)) {
+                    bucket.splice(i, 1);
+                    if (bucket.length === 0) {
+                        this.#buckets.delete(h);
+                    }
+                    this.#size--;
+                    entry[0].release();
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+    clear(): void {
+        for (const bucket of this.#buckets.values()) {
+            for (const entry of bucket) {
+                entry[0].release();
+            }
+        }
+        this.#buckets.clear();
+        this.#size = 0;
+    }
+    /**
+     * The keys are not reference counted; call addRef on a key to keep it beyond the lifetime of the entry.
+     */
+    *entries(): IterableIterator<[key: U, value: V]> {
+        for (const bucket of this.#buckets.values()) {
+            for (const entry of bucket) {
+                yield [entry[0], entry[1]];
+            }
+        }
+    }
+    *keys(): IterableIterator<U> {
+        for (const [key] of this.entries()) {
+            yield key;
+        }
+    }
+    *values(): IterableIterator<V> {
+        for (const [, value] of this.entries()) {
+            yield value;
+        }
+    }
+    [Symbol.iterator](): IterableIterator<[key: U, value: V]> {
+        return this.entries();
+    }
+}
+
+/**
+ * Creates Cons structures so that structurally equal lists are the same instance (hash-consing).
+ * Identity can then be used in place of structural equality for trees built through the factory.
+ *
+ * The factory holds a reference to every list that it creates; call clear to release them.
+ * The pos and end of a list are those of the first instance created, because instances are shared.
+ */
+export class HashConsFactory {
+    readonly #table = new Map<number, Cons[]>();
+    #size = 0;
+    /**
+     * The number of distinct lists held by the factory.
+     */
+    get size(): number {
+        return this.#size;
+    }
+    /**
+     * Returns the unique list with the specified car and cdr.
+     * The returned item is reference counted.
+     */
+    cons(car: U, cdr: Cons, pos?: number, end?: number): Cons {
+        // This must agree with the hash of the Cons that would be created.
+        const h = hash_combine(hash_of(car), cdr.hash);
+        const bucket = this.#table.get(h);
+        if (bucket) {
+            for (const candidate of bucket) {
+                if (same_cell(candidate, car, cdr)) {
+                    candidate.addRef();
+                    return candidate;
+                }
+            }
+        }
+        const node = new Cons(car, cdr, pos, end);
+        node.addRef();
+        if (bucket) {
+            bucket.push(node);
+        }
+        else {
+            this.#table.set(h, [node]);
+        }
+        this.#size++;
+        return node;
+    }
+    /**
+     * Returns the unique list containing the items.
+     * The returned item is reference counted.
+     */
+    items_to_cons(...items: U[]): Cons {
+        let node: Cons = nil;
+        node.addRef();
+        for (let i = items.length - 1; i >= 0; i--) {
+            const temp = node;
+            try {
+                node = this.cons(items[i], node);
+            }
+            finally {
+                temp.release();
+            }
+        }
+        return node;
+    }
+    /**
+     * Returns the unique instance that is structurally equal to the expression, sharing all subterms.
+     * Atoms are returned unchanged.
+     * The returned item is reference counted.
+     */
+    intern(expr: U): U {
+        if (is_cons(expr)) {
+            const items: U[] = [];
+            try {
+                for (const item of expr) {
+                    try {
+                        items.push(this.intern(item));
+                    }
+                    finally {
+                        item.release();
+                    }
+                }
+                return this.items_to_cons(...items);
+            }
+            finally {
+                for (const item of items) {
+                    item.release();
+                }
+            }
+        }
+        else {
+            expr.addRef();
+            return expr;
+        }
+    }
+    /**
+     * Releases the references held by the factory.
+     */
+    clear(): void {
+        for (const bucket of this.#table.values()) {
+            for (const node of bucket) {
+                node.release();
+            }
+        }
+        this.#table.clear();
+        this.#size = 0;
+    }
+}
+
+function same_cell(candidate: Cons, car: U, cdr: Cons): boolean {
+    const a = candidate.car;
+    const d = candidate.cdr;
+    try {
+        return (a === car || a.equals(car)) && (d === cdr || d.equals(cdr));
+    }
+    finally {
+        a.release();
+        d.release();
+    }
+}
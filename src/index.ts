@@ -1,3 +1,27 @@
+export { is_application, is_one, is_zero, make_application, make_difference, make_negation, make_power, make_product, make_quotient, make_sum } from './arithmetic';
+export { AbstractAtom, Boo, create_boo, create_flt, create_rat, create_str, create_sym, Flt, is_boo, is_flt, is_rat, is_str, is_sym, Rat, standard_atom_factory, Str, Sym } from './atoms';
 export { Cons0, Cons1, Cons2, Cons3, Cons4 } from './helpers';
-export { assert_cons, assert_cons_or_nil, Atom, car, cdr, Cons, cons, is_atom, is_cons, is_cons_or_nil, is_nil, is_singleton, items_to_cons, nil, pos_end_items_to_cons, Shareable, U } from './tree';
+export { BINARY_FORMAT_VERSION, BinaryAtomCodec, BinaryAtomCodecRegistry, BinaryDecodeError, ByteReader, ByteWriter, decode_binary, encode_binary, standard_binary_codecs } from './binary';
+export { LeakDetector, LeakDetectorOptions, LiveCons } from './debug';
+export { default_derivatives, derivative, DerivativeOptions, DerivativeRegistry, DerivativeRule } from './derivative';
+export { diff, Edit, patch, PatchError, release_edits } from './diff';
+export { ArityError, Environment, EvalOptions, evaluate, EvaluationError, number_constant, number_operations, Operation, OperationTable, UnboundSymbolError } from './eval';
+export { ExprMap, HashConsFactory } from './hash';
+export { AtomCodec, AtomCodecRegistry, decode_json, encode_json, JSON_SCHEMA_VERSION, JsonAtom, JsonDecodeError, JsonDocument, JsonExpr, JsonList, JsonNil, JsonSpan, JsonValue, parse_json, standard_atom_codecs, stringify_json } from './json';
+export { escape_latex, LatexRenderer, render_latex } from './latex';
+export { Bindings, create_rest, create_wild, instantiate, is_match0, is_match1, is_match2, is_match3, is_match4, is_wild, match, matches, release_bindings, unify, Wild } from './match';
+export { escape_xml, MathMLRenderer, render_mathml } from './mathml';
+export { ExprCache, ExprCacheOptions, ExprCacheStats, memoize } from './memo';
+export { AtomComparator, canonicalize, CanonicalizeOptions, compare, CompareOptions, OperatorProperties } from './order';
+export { collect, expand, from_polynomial, Polynomial, Term, to_polynomial } from './polynomial';
+export { Associativity, default_operator_table, Fixity, InfixOptions, operator_key, OperatorInfo, OperatorTable, print_infix, print_sexpr } from './printer';
+export { Provenance, Span, span_of } from './provenance';
+export { AtomFactory, ParseError, read, read_all } from './reader';
+export { ATOMIC_PRECEDENCE, AtomHandler, ExprRenderer, NEGATION_PRECEDENCE, OperatorHandler, POWER_PRECEDENCE, PRODUCT_PRECEDENCE, QUOTIENT_PRECEDENCE, SUM_PRECEDENCE, with_args } from './renderer';
+export { rewrite, RewriteError, RewriteOptions, RewriteResult, RewriteStep, Rule, Strategy } from './rewrite';
+export { any, assert_conforms, atom, boo, conforms, cons0, cons1, cons2, cons3, cons4, empty, flt, guard, Infer, list, one_of, predicate, rat, Schema, SchemaError, str, sym, validate, variadic } from './schema';
+export { BinderRegistry, BinderSpec, default_binders, free_variables, FreeVariablesOptions, is_free_in, subst, subst_all, SubstOptions } from './subst';
+export { assert_cons, assert_cons_or_nil, Atom, car, cdr, Cons, cons, cons_pool_stats, ConsFactory, ConsPoolStats, ConsTracker, counted_cons_factory, hash_combine, hash_of, hash_string, is_atom, is_cons, is_cons_or_nil, is_nil, is_singleton, items_to_cons, managed_cons_factory, nil, pin_cons, pos_end_items_to_cons, set_cons_pool_capacity, set_cons_tracker, Shareable, to_managed, U, with_cons_arena } from './tree';
+export { fold, FoldHandlers, NodeHandlers, Path, reduce, transform, TransformHandlers, TransformOptions, visit, visit_postorder, visit_preorder, VisitHandlers, VisitOptions, Visitor, VisitResult } from './visit';
+export { create_zipper, Zipper } from './zipper';
 
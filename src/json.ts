@@ -0,0 +1,396 @@
+import { create_boo, create_flt, create_rat, create_str, create_sym, is_boo, is_flt, is_rat, is_str, is_sym } from "./atoms";
+import { Atom, Cons, is_atom, is_cons, nil, U } from "./tree";
+
+/**
+ * The version of the encoding produced by encode_json. Increment when the encoding changes incompatibly.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * A source span, [pos, end], for a cell after the first cell of a list.
+ * The index is the position of the cell in the list; the index equal to the list length is the terminating empty list.
+ */
+export type JsonSpan = [index: number, pos: number | null, end: number | null];
+
+export interface JsonNil {
+    kind: 'nil';
+    pos?: number;
+    end?: number;
+}
+
+/**
+ * A list, encoded as its items. The pos and end properties belong to the first cell.
+ */
+export interface JsonList {
+    kind: 'list';
+    items: JsonExpr[];
+    pos?: number;
+    end?: number;
+    spans?: JsonSpan[];
+}
+
+export interface JsonAtom {
+    kind: 'atom';
+    type: string;
+    value: JsonValue;
+    pos?: number;
+    end?: number;
+}
+
+export type JsonExpr = JsonNil | JsonList | JsonAtom;
+
+/**
+ * The top-level encoding of an expression.
+ */
+export interface JsonDocument {
+    version: number;
+    expr: JsonExpr;
+}
+
+/**
+ * Converts atoms of one type to and from JSON values.
+ */
+export interface AtomCodec {
+    /**
+     * The Atom.type that is handled by this codec.
+     */
+    readonly type: string;
+    encode(atom: Atom): JsonValue;
+    /**
+     * Throws if the value is not a valid encoding.
+     * The returned item is reference counted.
+     */
+    decode(value: JsonValue, pos: number | undefined, end: number | undefined): U;
+}
+
+/**
+ * The atom codecs that are known to the encoder and decoder, keyed by atom type.
+ */
+export class AtomCodecRegistry {
+    readonly #codecs = new Map<string, AtomCodec>();
+    add(codec: AtomCodec): this {
+        this.#codecs.set(codec.type, codec);
+        return this;
+    }
+    find(type: string): AtomCodec | undefined {
+        return this.#codecs.get(type);
+    }
+    /**
+     * Returns a new registry containing the same codecs.
+     */
+    clone(): AtomCodecRegistry {
+        const registry = new AtomCodecRegistry();
+        for (const codec of this.#codecs.values()) {
+            registry.add(codec);
+        }
+        return registry;
+    }
+}
+
+/**
+ * Thrown when decoding input that is not a valid encoding.
+ * The path locates the offending value within the input, e.g. $.expr.items[2].
+ */
+export class JsonDecodeError extends Error {
+    constructor(message: string, readonly path: string) {
+        super(`${message} at ${path}`);
+        this.name = 'JsonDecodeError';
+    }
+}
+
+function is_object(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expect_string(value: JsonValue): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    throw new Error("Expecting a string");
+}
+
+/**
+ * Returns a new registry containing codecs for Sym, Rat, Flt, Str and Boo.
+ * Rat is encoded as {numer, denom} with decimal strings so that precision is not lost.
+ * Flt is encoded as a number, except that non-finite values and negative zero are encoded as strings.
+ */
+export function standard_atom_codecs(): AtomCodecRegistry {
+    const registry = new AtomCodecRegistry();
+    registry.add({
+        type: 'sym',
+        encode: atom => is_sym(atom) ? atom.key : `${atom}`,
+        decode: (value, pos, end) => create_sym(expect_string(value), pos, end)
+    });
+    registry.add({
+        type: 'rat',
+        encode: atom => is_rat(atom) ? { numer: `${atom.numer}`, denom: `${atom.denom}` } : `${atom}`,
+        decode: function (value, pos, end) {
+            if (is_object(value) && typeof value.numer === 'string' && typeof value.denom === 'string') {
+                return create_rat(BigInt(value.numer), BigInt(value.denom), pos, end);
+            }
+            throw new Error("Expecting {numer, denom}");
+        }
+    });
+    registry.add({
+        type: 'flt',
+        encode: function (atom) {
+            const value = is_flt(atom) ? atom.value : Number(`${atom}`);
+            if (Object.is(value, -0)) {
+                return '-0';
+            }
+            return Number.isFinite(value) ? value : `${value}`;
+        },
+        decode: function (value, pos, end) {
+            if (typeof value === 'number') {
+                return create_flt(value, pos, end);
+            }
+            switch (value) {
+                case 'NaN': return create_flt(NaN, pos, end);
+                case 'Infinity': return create_flt(Infinity, pos, end);
+                case '-Infinity': return create_flt(-Infinity, pos, end);
+                case '-0': return create_flt(-0, pos, end);
+            }
+            throw new Error("Expecting a number");
+        }
+    });
+    registry.add({
+        type: 'str',
+        encode: atom => is_str(atom) ? atom.value : `${atom}`,
+        decode: (value, pos, end) => create_str(expect_string(value), pos, end)
+    });
+    registry.add({
+        type: 'boo',
+        encode: atom => is_boo(atom) ? atom.value : `${atom}` === 'true',
+        decode: function (value, pos, end) {
+            if (typeof value === 'boolean') {
+                return create_boo(value, pos, end);
+            }
+            throw new Error("Expecting a boolean");
+        }
+    });
+    return registry;
+}
+
+/**
+ * Adds the pos and end properties to the encoding if they are defined.
+ */
+function with_span<T extends JsonExpr>(encoded: T, pos: number | undefined, end: number | undefined): T {
+    if (typeof pos === 'number') {
+        encoded.pos = pos;
+    }
+    if (typeof end === 'number') {
+        encoded.end = end;
+    }
+    return encoded;
+}
+
+function encode_expr(expr: U, codecs: AtomCodecRegistry): JsonExpr {
+    if (is_cons(expr)) {
+        const items: JsonExpr[] = [];
+        const spans: JsonSpan[] = [];
+        let node: Cons = expr;
+        node.addRef();
+        try {
+            let index = 0;
+            while (node.iscons) {
+                if (index > 0 && (typeof node.pos === 'number' || typeof node.end === 'number')) {
+                    spans.push([index, typeof node.pos === 'number' ? node.pos : null, typeof node.end === 'number' ? node.end : null]);
+                }
+                const item = node.car;
+                try {
+                    items.push(encode_expr(item, codecs));
+                }
+                finally {
+                    item.release();
+                }
+                const next = node.cdr;
+                node.release();
+                node = next;
+                index++;
+            }
+            if (typeof node.pos === 'number' || typeof node.end === 'number') {
+                spans.push([index, typeof node.pos === 'number' ? node.pos : null, typeof node.end === 'number' ? node.end : null]);
+            }
+        }
+        finally {
+            node.release();
+        }
+        const list: JsonList = with_span({ kind: 'list', items }, expr.pos, expr.end);
+        if (spans.length > 0) {
+            list.spans = spans;
+        }
+        return list;
+    }
+    else if (is_atom(expr)) {
+        const codec = codecs.find(expr.type);
+        if (codec) {
+            return with_span({ kind: 'atom', type: expr.type, value: codec.encode(expr) }, expr.pos, expr.end);
+        }
+        else {
+            throw new Error(`No codec is registered for atom type ${JSON.stringify(expr.type)}.`);
+        }
+    }
+    else {
+        return with_span({ kind: 'nil' }, expr.pos, expr.end);
+    }
+}
+
+/**
+ * Returns a JSON-compatible encoding of the expression, preserving the pos and end properties of lists and atoms.
+ * Atoms are encoded using the codec registered for their type; an Error is thrown for an atom type without a codec.
+ */
+export function encode_json(expr: U, codecs: AtomCodecRegistry = standard_atom_codecs()): JsonDocument {
+    return { version: JSON_SCHEMA_VERSION, expr: encode_expr(expr, codecs) };
+}
+
+/**
+ * Returns the encoding of the expression as a JSON string.
+ */
+export function stringify_json(expr: U, codecs: AtomCodecRegistry = standard_atom_codecs()): string {
+    return JSON.stringify(encode_json(expr, codecs));
+}
+
+function decode_span(value: unknown, path: string): number | undefined {
+    if (typeof value === 'undefined') {
+        return void 0;
+    }
+    else if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        return value;
+    }
+    else {
+        throw new JsonDecodeError("Expecting a non-negative integer", path);
+    }
+}
+
+function decode_spans(value: unknown, length: number, path: string): Map<number, [pos: number | undefined, end: number | undefined]> {
+    const spans = new Map<number, [number | undefined, number | undefined]>();
+    if (typeof value === 'undefined') {
+        return spans;
+    }
+    if (!Array.isArray(value)) {
+        throw new JsonDecodeError("Expecting an array", path);
+    }
+    value.forEach(function (span: unknown, i) {
+        const spanPath = `${path}[${i}]`;
+        if (!Array.isArray(span) || span.length !== 3) {
+            throw new JsonDecodeError("Expecting [index, pos, end]", spanPath);
+        }
+        const [index, pos, end] = span;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 1 || index > length || spans.has(index)) {
+            throw new JsonDecodeError(`Expecting a distinct index from 1 to ${length}`, `${spanPath}[0]`);
+        }
+        spans.set(index, [decode_span(pos === null ? void 0 : pos, `${spanPath}[1]`), decode_span(end === null ? void 0 : end, `${spanPath}[2]`)]);
+    });
+    return spans;
+}
+
+function decode_list(encoded: { [key: string]: unknown }, pos: number | undefined, end: number | undefined, codecs: AtomCodecRegistry, path: string): Cons {
+    const items = encoded.items;
+    if (!Array.isArray(items)) {
+        throw new JsonDecodeError("Expecting an array", `${path}.items`);
+    }
+    const spans = decode_spans(encoded.spans, items.length, `${path}.spans`);
+    if (items.length === 0) {
+        if (spans.size > 0) {
+            throw new JsonDecodeError("Unexpected spans for an empty list", `${path}.spans`);
+        }
+        return typeof pos === 'number' || typeof end === 'number' ? new Cons(void 0, void 0, pos, end) : nil;
+    }
+    const decoded: U[] = [];
+    try {
+        items.forEach(function (item: unknown, i) {
+            decoded.push(decode_expr(item, codecs, `${path}.items[${i}]`));
+        });
+        // Build from the right so that each cell receives its own span.
+        const last = spans.get(items.length);
+        let node: Cons = last ? new Cons(void 0, void 0, last[0], last[1]) : nil;
+        for (let i = decoded.length - 1; i >= 0; i--) {
+            const span = i > 0 ? spans.get(i) : [pos, end];
+            const temp = node;
+            try {
+                node = new Cons(decoded[i], node, span ? span[0] : void 0, span ? span[1] : void 0);
+            }
+            finally {
+                temp.release();
+            }
+        }
+        return node;
+    }
+    finally {
+        for (const item of decoded) {
+            item.release();
+        }
+    }
+}
+
+function decode_expr(encoded: unknown, codecs: AtomCodecRegistry, path: string): U {
+    if (!is_object(encoded)) {
+        throw new JsonDecodeError("Expecting an object", path);
+    }
+    const pos = decode_span(encoded.pos, `${path}.pos`);
+    const end = decode_span(encoded.end, `${path}.end`);
+    switch (encoded.kind) {
+        case 'nil': {
+            return typeof pos === 'number' || typeof end === 'number' ? new Cons(void 0, void 0, pos, end) : nil;
+        }
+        case 'list': {
+            return decode_list(encoded, pos, end, codecs, path);
+        }
+        case 'atom': {
+            if (typeof encoded.type !== 'string') {
+                throw new JsonDecodeError("Expecting a string", `${path}.type`);
+            }
+            const codec = codecs.find(encoded.type);
+            if (!codec) {
+                throw new JsonDecodeError(`No codec is registered for atom type ${JSON.stringify(encoded.type)}`, `${path}.type`);
+            }
+            if (!('value' in encoded)) {
+                throw new JsonDecodeError("Missing value", path);
+            }
+            try {
+                return codec.decode(encoded.value as JsonValue, pos, end);
+            }
+            catch (e) {
+                if (e instanceof JsonDecodeError) {
+                    throw e;
+                }
+                throw new JsonDecodeError(e instanceof Error ? e.message : `${e}`, `${path}.value`);
+            }
+        }
+        default: {
+            throw new JsonDecodeError("Expecting kind to be 'nil', 'list' or 'atom'", `${path}.kind`);
+        }
+    }
+}
+
+/**
+ * Rebuilds an expression from the result of encode_json, e.g. after JSON.parse or a structured clone.
+ * The input is validated and a JsonDecodeError is thrown if it is not a valid encoding of the supported version.
+ * The returned item is reference counted.
+ */
+export function decode_json(doc: unknown, codecs: AtomCodecRegistry = standard_atom_codecs()): U {
+    if (!is_object(doc)) {
+        throw new JsonDecodeError("Expecting an object", '$');
+    }
+    if (doc.version !== JSON_SCHEMA_VERSION) {
+        throw new JsonDecodeError(`Unsupported version ${JSON.stringify(doc.version)}, expecting ${JSON_SCHEMA_VERSION}`, '$.version');
+    }
+    return decode_expr(doc.expr, codecs, '$.expr');
+}
+
+/**
+ * Rebuilds an expression from the result of stringify_json.
+ * The returned item is reference counted.
+ */
+export function parse_json(text: string, codecs: AtomCodecRegistry = standard_atom_codecs()): U {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    }
+    catch (e) {
+        throw new JsonDecodeError(e instanceof Error ? e.message : `${e}`, '$');
+    }
+    return decode_json(doc, codecs);
+}
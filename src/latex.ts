@@ -0,0 +1,163 @@
+import { is_rat, is_str, is_sym, Rat } from "./atoms";
+import { operator_key } from "./printer";
+import { ATOMIC_PRECEDENCE, ExprRenderer, NEGATION_PRECEDENCE, POWER_PRECEDENCE, PRODUCT_PRECEDENCE, QUOTIENT_PRECEDENCE, SUM_PRECEDENCE, with_args } from "./renderer";
+import { Atom, Cons, U } from "./tree";
+
+const GREEK = new Set(['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega', 'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega']);
+
+/**
+ * The functions that have a LaTeX command.
+ */
+const FUNCTIONS = new Set(['sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'sinh', 'cosh', 'tanh', 'coth', 'arcsin', 'arccos', 'arctan', 'exp', 'log', 'ln', 'det', 'min', 'max', 'gcd']);
+
+/**
+ * Escapes the characters that have special meaning in LaTeX.
+ */
+export function escape_latex(text: string): string {
+    return text.replace(/[\\{}$&#^_%~]/g, function (ch) {
+        switch (ch) {
+            case '\\': return '\\textbackslash{}';
+            case '^': return '\\textasciicircum{}';
+            case '~': return '\\textasciitilde{}';
+            default: return `\\${ch}`;
+        }
+    });
+}
+
+function identifier(name: string): string {
+    if (GREEK.has(name)) {
+        return `\\${name}`;
+    }
+    else if (name.length === 1) {
+        return escape_latex(name);
+    }
+    else {
+        return `\\mathrm{${escape_latex(name)}}`;
+    }
+}
+
+/**
+ * Renders a symbol key, treating the text after the first underscore as a subscript, e.g. x_1 becomes x_{1}.
+ */
+function symbol(key: string): string {
+    const index = key.indexOf('_');
+    if (index > 0 && index < key.length - 1) {
+        return `${identifier(key.substring(0, index))}_{${identifier(key.substring(index + 1))}}`;
+    }
+    else {
+        return identifier(key);
+    }
+}
+
+function rational(rat: Rat): string {
+    if (rat.isInteger()) {
+        return `${rat.numer}`;
+    }
+    else if (rat.numer < BigInt(0)) {
+        return `-\\frac{${-rat.numer}}{${rat.denom}}`;
+    }
+    else {
+        return `\\frac{${rat.numer}}{${rat.denom}}`;
+    }
+}
+
+/**
+ * Renders expressions as LaTeX math.
+ *
+ * Built-in handling is provided for (+ ...), (- a), (- a b), (* ...), (/ a b), (power base expo), (^ base expo), (sqrt x) and (abs x),
+ * for function application, and for the standard atoms. Register handlers to support other operators and atom types.
+ */
+export class LatexRenderer extends ExprRenderer {
+    constructor(keyOf: (head: U) => string | undefined = operator_key) {
+        super(keyOf);
+        this.registerOperator('+', function (expr, renderer) {
+            return with_args(expr, function (args) {
+                return args.map(function (arg, i) {
+                    const operand = i > 0 ? renderer.negated(arg) : void 0;
+                    if (operand) {
+                        try {
+                            return ` - ${renderer.renderOperand(operand, SUM_PRECEDENCE + 1)}`;
+                        }
+                        finally {
+                            operand.release();
+                        }
+                    }
+                    return i > 0 ? ` + ${renderer.renderOperand(arg, SUM_PRECEDENCE)}` : renderer.renderOperand(arg, SUM_PRECEDENCE);
+                }).join('');
+            });
+        }, SUM_PRECEDENCE);
+        this.registerOperator('-', function (expr, renderer) {
+            return with_args(expr, function (args) {
+                if (args.length === 1) {
+                    return `-${renderer.renderOperand(args[0], NEGATION_PRECEDENCE)}`;
+                }
+                else {
+                    return args.map((arg, i) => renderer.renderOperand(arg, i > 0 ? SUM_PRECEDENCE + 1 : SUM_PRECEDENCE)).join(' - ');
+                }
+            });
+        }, expr => expr.length === 2 ? NEGATION_PRECEDENCE : SUM_PRECEDENCE);
+        this.registerOperator('*', function (expr, renderer) {
+            return with_args(expr, args => args.map(arg => renderer.renderOperand(arg, PRODUCT_PRECEDENCE)).join(' \\cdot '));
+        }, PRODUCT_PRECEDENCE);
+        this.registerOperator('/', function (expr, renderer) {
+            if (expr.length !== 3) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => `\\frac{${renderer.render(args[0])}}{${renderer.render(args[1])}}`);
+        }, expr => expr.length === 3 ? QUOTIENT_PRECEDENCE : ATOMIC_PRECEDENCE);
+        const power = function (expr: Cons, renderer: LatexRenderer): string {
+            if (expr.length !== 3) {
+                return renderer.renderApplication(expr);
+            }
+            const base = expr.base;
+            const expo = expr.expo;
+            try {
+                return `{${renderer.renderOperand(base, ATOMIC_PRECEDENCE)}}^{${renderer.render(expo)}}`;
+            }
+            finally {
+                base.release();
+                expo.release();
+            }
+        };
+        const power_precedence = (expr: Cons) => expr.length === 3 ? POWER_PRECEDENCE : ATOMIC_PRECEDENCE;
+        this.registerOperator('power', power, power_precedence);
+        this.registerOperator('^', power, power_precedence);
+        this.registerOperator('sqrt', function (expr, renderer) {
+            if (expr.length !== 2) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => `\\sqrt{${renderer.render(args[0])}}`);
+        });
+        this.registerOperator('abs', function (expr, renderer) {
+            if (expr.length !== 2) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => `\\left|${renderer.render(args[0])}\\right|`);
+        });
+        this.registerAtom('sym', atom => is_sym(atom) ? symbol(atom.key) : escape_latex(`${atom}`));
+        this.registerAtom('rat', atom => is_rat(atom) ? rational(atom) : escape_latex(`${atom}`));
+        this.registerAtom('flt', atom => `${atom}`);
+        this.registerAtom('str', atom => `\\text{${escape_latex(is_str(atom) ? atom.value : `${atom}`)}}`);
+        this.registerAtom('boo', atom => `\\mathrm{${atom}}`);
+    }
+    parens(text: string): string {
+        return `\\left(${text}\\right)`;
+    }
+    protected application(head: U, args: U[]): string {
+        const name = is_sym(head) ? (FUNCTIONS.has(head.key) ? `\\${head.key}` : symbol(head.key)) : this.renderOperand(head, ATOMIC_PRECEDENCE);
+        return `${name}${this.parens(args.map(arg => this.render(arg)).join(', '))}`;
+    }
+    protected unknownAtom(atom: Atom): string {
+        return `\\text{${escape_latex(`${atom}`)}}`;
+    }
+    protected emptyList(): string {
+        return '()';
+    }
+}
+
+/**
+ * Renders the expression as LaTeX math using the built-in handlers.
+ */
+export function render_latex(expr: U): string {
+    return new LatexRenderer().render(expr);
+}
@@ -0,0 +1,451 @@
+import { AbstractAtom } from "./atoms";
+import { Cons0, Cons1, Cons2, Cons3, Cons4 } from "./helpers";
+import { Cons, is_cons, is_cons_or_nil, items_to_cons, pos_end_items_to_cons, U } from "./tree";
+
+/**
+ * A wildcard atom for use in patterns.
+ * An item wildcard matches exactly one expression.
+ * A rest wildcard matches a (possibly empty) run of consecutive items in a list and binds them as a list.
+ * Using the same key more than once in a pattern requires that the matched expressions be equal.
+ */
+export class Wild extends AbstractAtom {
+    readonly name = 'Wild';
+    readonly type = 'wild';
+    constructor(public readonly key: string, public readonly rest: boolean, pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        if (other === this) {
+            return true;
+        }
+        else if (other instanceof Wild) {
+            return this.key === other.key && this.rest === other.rest;
+        }
+        else {
+            return false;
+        }
+    }
+    toString(): string {
+        return this.rest ? `?${this.key}...` : `?${this.key}`;
+    }
+}
+
+/**
+ * Returns an item wildcard that matches exactly one expression.
+ * The returned item is reference counted.
+ */
+export function create_wild(key: string): Wild {
+    return new Wild(key, false);
+}
+
+/**
+ * Returns a rest (segment) wildcard that matches zero or more consecutive list items.
+ * The returned item is reference counted.
+ */
+export function create_rest(key: string): Wild {
+    return new Wild(key, true);
+}
+
+export function is_wild(expr: U): expr is Wild {
+    return expr instanceof Wild;
+}
+
+/**
+ * The result of a successful match, mapping wildcard keys to expressions.
+ * Rest wildcards are bound to lists (Cons).
+ * The map holds a reference to each value; use release_bindings when the bindings are no longer needed.
+ */
+export type Bindings = Map<string, U>;
+
+/**
+ * Releases the references held by the values of the bindings.
+ */
+export function release_bindings(bindings: Bindings): void {
+    for (const value of bindings.values()) {
+        value.release();
+    }
+}
+
+/**
+ * During matching a rest wildcard is bound to the items in the segment, so that no lists are built while backtracking.
+ */
+type Binding = U | U[];
+
+type Candidate = Map<string, Binding>;
+
+/**
+ * Keeps track of the references obtained from the car/cdr getters during matching so that they can be released afterwards.
+ */
+class Context {
+    readonly #held: U[] = [];
+    items(list: Cons): U[] {
+        const items = [...list];
+        this.#held.push(...items);
+        return items;
+    }
+    release(): void {
+        for (const item of this.#held) {
+            item.release();
+        }
+        this.#held.length = 0;
+    }
+}
+
+function bind(candidate: Candidate, key: string, value: Binding): Candidate {
+    const next = new Map(candidate);
+    next.set(key, value);
+    return next;
+}
+
+function equal_segments(lhs: U[], rhs: U[]): boolean {
+    if (lhs.length !== rhs.length) {
+        return false;
+    }
+    for (let i = 0; i < lhs.length; i++) {
+        if (!lhs[i].equals(rhs[i])) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function match_expr(pattern: U, expr: U, candidate: Candidate, context: Context): Candidate | undefined {
+    if (is_wild(pattern)) {
+        if (pattern.rest) {
+            throw new Error(`rest wildcard ${pattern} must be an item in a list.`);
+        }
+        const bound = candidate.get(pattern.key);
+        if (bound) {
+            if (Array.isArray(bound)) {
+                return void 0;
+            }
+            return bound.equals(expr) ? candidate : void 0;
+        }
+        else {
+            return bind(candidate, pattern.key, expr);
+        }
+    }
+    else if (is_cons(pattern)) {
+        if (is_cons(expr)) {
+            return match_items(context.items(pattern), 0, context.items(expr), 0, candidate, context);
+        }
+        else {
+            return void 0;
+        }
+    }
+    else {
+        return pattern.equals(expr) ? candidate : void 0;
+    }
+}
+
+function match_items(ps: U[], i: number, es: U[], j: number, candidate: Candidate, context: Context): Candidate | undefined {
+    if (i === ps.length) {
+        return j === es.length ? candidate : void 0;
+    }
+    const p = ps[i];
+    if (is_wild(p) && p.rest) {
+        const bound = candidate.get(p.key);
+        if (bound) {
+            // Bindings supplied by the caller bind rest wildcards to lists rather than segments.
+            const segment = Array.isArray(bound) ? bound : is_cons_or_nil(bound) ? context.items(bound) : void 0;
+            if (segment && equal_segments(segment, es.slice(j, j + segment.length))) {
+                return match_items(ps, i + 1, es, j + segment.length, candidate, context);
+            }
+            else {
+                return void 0;
+            }
+        }
+        // Try the shortest segment first.
+        for (let k = j; k <= es.length; k++) {
+            const result = match_items(ps, i + 1, es, k, bind(candidate, p.key, es.slice(j, k)), context);
+            if (result) {
+                return result;
+            }
+        }
+        return void 0;
+    }
+    else if (j < es.length) {
+        const next = match_expr(p, es[j], candidate, context);
+        if (next) {
+            return match_items(ps, i + 1, es, j + 1, next, context);
+        }
+        else {
+            return void 0;
+        }
+    }
+    else {
+        return void 0;
+    }
+}
+
+function to_candidate(bindings: Bindings | undefined): Candidate {
+    return bindings ? new Map(bindings) : new Map();
+}
+
+function to_bindings(candidate: Candidate): Bindings {
+    const bindings: Bindings = new Map();
+    for (const [key, value] of candidate) {
+        if (Array.isArray(value)) {
+            bindings.set(key, items_to_cons(...value));
+        }
+        else {
+            value.addRef();
+            bindings.set(key, value);
+        }
+    }
+    return bindings;
+}
+
+/**
+ * Matches the expression against a pattern containing wildcards.
+ * Returns the bindings of the wildcards if the match succeeds, otherwise undefined.
+ * Atoms in the pattern (other than wildcards) match expressions that they equal.
+ *
+ * If bindings are provided then the match must be consistent with them, and the result includes them.
+ * The returned bindings hold references to their values (see release_bindings).
+ */
+export function match(pattern: U, expr: U, bindings?: Bindings): Bindings | undefined {
+    const context = new Context();
+    try {
+        const candidate = match_expr(pattern, expr, to_candidate(bindings), context);
+        if (candidate) {
+            return to_bindings(candidate);
+        }
+        else {
+            return void 0;
+        }
+    }
+    finally {
+        context.release();
+    }
+}
+
+/**
+ * Determines whether the expression matches the pattern.
+ * The type parameter allows the caller to narrow the expression on success.
+ */
+export function matches<T extends U = U>(pattern: U, expr: U): expr is T {
+    const bindings = match(pattern, expr);
+    if (bindings) {
+        release_bindings(bindings);
+        return true;
+    }
+    else {
+        return false;
+    }
+}
+
+export function is_match0<O extends U>(pattern: U, expr: U): expr is Cons0<O> {
+    return matches<Cons0<O>>(pattern, expr);
+}
+
+export function is_match1<O extends U, A extends U>(pattern: U, expr: U): expr is Cons1<O, A> {
+    return matches<Cons1<O, A>>(pattern, expr);
+}
+
+export function is_match2<O extends U, A extends U, B extends U>(pattern: U, expr: U): expr is Cons2<O, A, B> {
+    return matches<Cons2<O, A, B>>(pattern, expr);
+}
+
+export function is_match3<O extends U, A extends U, B extends U, C extends U>(pattern: U, expr: U): expr is Cons3<O, A, B, C> {
+    return matches<Cons3<O, A, B, C>>(pattern, expr);
+}
+
+export function is_match4<O extends U, A extends U, B extends U, C extends U, D extends U>(pattern: U, expr: U): expr is Cons4<O, A, B, C, D> {
+    return matches<Cons4<O, A, B, C, D>>(pattern, expr);
+}
+
+/**
+ * Replaces the wildcards in the template by their bindings.
+ * Rest wildcards are spliced into the enclosing list.
+ * Wildcards that are not bound are left in place.
+ * The returned item is reference counted.
+ */
+export function instantiate(template: U, bindings: Bindings): U {
+    if (is_wild(template)) {
+        const value = bindings.get(template.key);
+        if (value) {
+            value.addRef();
+            return value;
+        }
+        else {
+            template.addRef();
+            return template;
+        }
+    }
+    else if (is_cons(template)) {
+        const items: U[] = [];
+        try {
+            for (const item of template) {
+                try {
+                    if (is_wild(item) && item.rest && bindings.has(item.key)) {
+                        // The item iterator provides references that we hand over to the items array.
+                        items.push(...(bindings.get(item.key) as Cons));
+                    }
+                    else {
+                        items.push(instantiate(item, bindings));
+                    }
+                }
+                finally {
+                    item.release();
+                }
+            }
+            return pos_end_items_to_cons(template.pos, template.end, ...items);
+        }
+        finally {
+            for (const item of items) {
+                item.release();
+            }
+        }
+    }
+    else {
+        template.addRef();
+        return template;
+    }
+}
+
+/**
+ * Applies the bindings to an expression repeatedly until no bound wildcards remain.
+ */
+function resolve(expr: U, bindings: Bindings): U {
+    let current = instantiate(expr, bindings);
+    // Each pass replaces one level of indirection; the occurs check guarantees termination.
+    while (has_bound_wild(current, bindings)) {
+        const next = instantiate(current, bindings);
+        current.release();
+        current = next;
+    }
+    return current;
+}
+
+function has_bound_wild(expr: U, bindings: Bindings): boolean {
+    if (is_wild(expr)) {
+        return bindings.has(expr.key);
+    }
+    else if (is_cons(expr)) {
+        for (const item of expr) {
+            try {
+                if (has_bound_wild(item, bindings)) {
+                    return true;
+                }
+            }
+            finally {
+                item.release();
+            }
+        }
+        return false;
+    }
+    else {
+        return false;
+    }
+}
+
+function occurs(key: string, expr: U, bindings: Bindings): boolean {
+    if (is_wild(expr)) {
+        if (expr.key === key) {
+            return true;
+        }
+        const value = bindings.get(expr.key);
+        return value ? occurs(key, value, bindings) : false;
+    }
+    else if (is_cons(expr)) {
+        for (const item of expr) {
+            try {
+                if (occurs(key, item, bindings)) {
+                    return true;
+                }
+            }
+            finally {
+                item.release();
+            }
+        }
+        return false;
+    }
+    else {
+        return false;
+    }
+}
+
+function unify_exprs(a: U, b: U, bindings: Bindings): boolean {
+    if (is_wild(a) || is_wild(b)) {
+        if (is_wild(a) && a.rest || is_wild(b) && b.rest) {
+            throw new Error("rest wildcards are not supported by unify.");
+        }
+        if (a.equals(b)) {
+            return true;
+        }
+        const [w, other] = is_wild(a) ? [a, b] : [b as Wild, a];
+        const bound = bindings.get(w.key);
+        if (bound) {
+            return unify_exprs(bound, other, bindings);
+        }
+        if (is_wild(other) && bindings.has(other.key)) {
+            return unify_exprs(w, bindings.get(other.key) as U, bindings);
+        }
+        if (occurs(w.key, other, bindings)) {
+            return false;
+        }
+        other.addRef();
+        bindings.set(w.key, other);
+        return true;
+    }
+    else if (is_cons(a) && is_cons(b)) {
+        let p: Cons = a;
+        let q: Cons = b;
+        p.addRef();
+        q.addRef();
+        try {
+            while (is_cons(p) && is_cons(q)) {
+                const x = p.car;
+                const y = q.car;
+                try {
+                    if (!unify_exprs(x, y, bindings)) {
+                        return false;
+                    }
+                }
+                finally {
+                    x.release();
+                    y.release();
+                }
+                const pp = p.cdr;
+                const qq = q.cdr;
+                p.release();
+                q.release();
+                p = pp;
+                q = qq;
+            }
+            return p.isnil && q.isnil;
+        }
+        finally {
+            p.release();
+            q.release();
+        }
+    }
+    else {
+        return a.equals(b);
+    }
+}
+
+/**
+ * Unifies two expressions, either of which may contain item wildcards.
+ * Returns the most general unifier, with each binding fully resolved, or undefined if the expressions do not unify.
+ * The returned bindings hold references to their values (see release_bindings).
+ */
+export function unify(a: U, b: U): Bindings | undefined {
+    const bindings: Bindings = new Map();
+    try {
+        if (unify_exprs(a, b, bindings)) {
+            const resolved: Bindings = new Map();
+            for (const [key, value] of bindings) {
+                resolved.set(key, resolve(value, bindings));
+            }
+            return resolved;
+        }
+        else {
+            return void 0;
+        }
+    }
+    finally {
+        release_bindings(bindings);
+    }
+}
@@ -0,0 +1,170 @@
+import { is_rat, is_str, is_sym, Rat } from "./atoms";
+import { operator_key } from "./printer";
+import { ATOMIC_PRECEDENCE, ExprRenderer, NEGATION_PRECEDENCE, POWER_PRECEDENCE, PRODUCT_PRECEDENCE, QUOTIENT_PRECEDENCE, SUM_PRECEDENCE, with_args } from "./renderer";
+import { Atom, Cons, U } from "./tree";
+
+const GREEK: { [name: string]: string } = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ',
+    nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+/**
+ * Escapes the characters that have special meaning in XML.
+ */
+export function escape_xml(text: string): string {
+    return text.replace(/[&<>"]/g, function (ch) {
+        switch (ch) {
+            case '&': return '&amp;';
+            case '<': return '&lt;';
+            case '>': return '&gt;';
+            default: return '&quot;';
+        }
+    });
+}
+
+function mi(name: string): string {
+    return `<mi>${escape_xml(name in GREEK ? GREEK[name] : name)}</mi>`;
+}
+
+function mn(text: string): string {
+    return `<mn>${escape_xml(text)}</mn>`;
+}
+
+function mo(text: string): string {
+    return `<mo>${escape_xml(text)}</mo>`;
+}
+
+function mrow(...children: string[]): string {
+    return `<mrow>${children.join('')}</mrow>`;
+}
+
+/**
+ * Renders a symbol key, treating the text after the first underscore as a subscript, e.g. x_1 becomes <msub>.
+ */
+function symbol(key: string): string {
+    const index = key.indexOf('_');
+    if (index > 0 && index < key.length - 1) {
+        return `<msub>${mi(key.substring(0, index))}${mi(key.substring(index + 1))}</msub>`;
+    }
+    else {
+        return mi(key);
+    }
+}
+
+function rational(rat: Rat): string {
+    const negative = rat.numer < BigInt(0);
+    const numer = negative ? -rat.numer : rat.numer;
+    const magnitude = rat.isInteger() ? mn(`${numer}`) : `<mfrac>${mn(`${numer}`)}${mn(`${rat.denom}`)}</mfrac>`;
+    return negative ? mrow(mo('-'), magnitude) : magnitude;
+}
+
+function number(text: string): string {
+    return text.startsWith('-') ? mrow(mo('-'), mn(text.substring(1))) : mn(text);
+}
+
+/**
+ * Renders expressions as Presentation MathML.
+ *
+ * Built-in handling is provided for (+ ...), (- a), (- a b), (* ...), (/ a b), (power base expo), (^ base expo), (sqrt x) and (abs x),
+ * for function application, and for the standard atoms. Register handlers to support other operators and atom types.
+ * The render method returns the content; use render_mathml to obtain a complete <math> element.
+ */
+export class MathMLRenderer extends ExprRenderer {
+    constructor(keyOf: (head: U) => string | undefined = operator_key) {
+        super(keyOf);
+        this.registerOperator('+', function (expr, renderer) {
+            return with_args(expr, function (args) {
+                return mrow(...args.map(function (arg, i) {
+                    const operand = i > 0 ? renderer.negated(arg) : void 0;
+                    if (operand) {
+                        try {
+                            return mo('-') + renderer.renderOperand(operand, SUM_PRECEDENCE + 1);
+                        }
+                        finally {
+                            operand.release();
+                        }
+                    }
+                    return i > 0 ? mo('+') + renderer.renderOperand(arg, SUM_PRECEDENCE) : renderer.renderOperand(arg, SUM_PRECEDENCE);
+                }));
+            });
+        }, SUM_PRECEDENCE);
+        this.registerOperator('-', function (expr, renderer) {
+            return with_args(expr, function (args) {
+                if (args.length === 1) {
+                    return mrow(mo('-'), renderer.renderOperand(args[0], NEGATION_PRECEDENCE));
+                }
+                else {
+                    return mrow(args.map((arg, i) => renderer.renderOperand(arg, i > 0 ? SUM_PRECEDENCE + 1 : SUM_PRECEDENCE)).join(mo('-')));
+                }
+            });
+        }, expr => expr.length === 2 ? NEGATION_PRECEDENCE : SUM_PRECEDENCE);
+        this.registerOperator('*', function (expr, renderer) {
+            return with_args(expr, args => mrow(args.map(arg => renderer.renderOperand(arg, PRODUCT_PRECEDENCE)).join(mo('\u22C5'))));
+        }, PRODUCT_PRECEDENCE);
+        this.registerOperator('/', function (expr, renderer) {
+            if (expr.length !== 3) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => `<mfrac>${renderer.render(args[0])}${renderer.render(args[1])}</mfrac>`);
+        }, expr => expr.length === 3 ? QUOTIENT_PRECEDENCE : ATOMIC_PRECEDENCE);
+        const power = function (expr: Cons, renderer: MathMLRenderer): string {
+            if (expr.length !== 3) {
+                return renderer.renderApplication(expr);
+            }
+            const base = expr.base;
+            const expo = expr.expo;
+            try {
+                return `<msup>${renderer.renderOperand(base, ATOMIC_PRECEDENCE)}${renderer.render(expo)}</msup>`;
+            }
+            finally {
+                base.release();
+                expo.release();
+            }
+        };
+        const power_precedence = (expr: Cons) => expr.length === 3 ? POWER_PRECEDENCE : ATOMIC_PRECEDENCE;
+        this.registerOperator('power', power, power_precedence);
+        this.registerOperator('^', power, power_precedence);
+        this.registerOperator('sqrt', function (expr, renderer) {
+            if (expr.length !== 2) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => `<msqrt>${renderer.render(args[0])}</msqrt>`);
+        });
+        this.registerOperator('abs', function (expr, renderer) {
+            if (expr.length !== 2) {
+                return renderer.renderApplication(expr);
+            }
+            return with_args(expr, args => mrow(mo('|'), renderer.render(args[0]), mo('|')));
+        });
+        this.registerAtom('sym', atom => is_sym(atom) ? symbol(atom.key) : mi(`${atom}`));
+        this.registerAtom('rat', atom => is_rat(atom) ? rational(atom) : mn(`${atom}`));
+        this.registerAtom('flt', atom => number(`${atom}`));
+        this.registerAtom('str', atom => `<mtext>${escape_xml(is_str(atom) ? atom.value : `${atom}`)}</mtext>`);
+        this.registerAtom('boo', atom => mi(`${atom}`));
+    }
+    parens(text: string): string {
+        return mrow(mo('('), text, mo(')'));
+    }
+    protected application(head: U, args: U[]): string {
+        const name = is_sym(head) ? symbol(head.key) : this.renderOperand(head, ATOMIC_PRECEDENCE);
+        // U+2061 is the invisible FUNCTION APPLICATION operator.
+        return mrow(name, mo('\u2061'), this.parens(args.map(arg => this.render(arg)).join(mo(','))));
+    }
+    protected unknownAtom(atom: Atom): string {
+        return `<mtext>${escape_xml(`${atom}`)}</mtext>`;
+    }
+    protected emptyList(): string {
+        return mrow(mo('('), mo(')'));
+    }
+}
+
+/**
+ * Renders the expression as a <math> element using the built-in handlers.
+ * The display option selects block rather than inline layout.
+ */
+export function render_mathml(expr: U, options: { display?: boolean } = {}): string {
+    const content = new MathMLRenderer().render(expr);
+    const display = options.display ? ' display="block"' : '';
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML"${display}>${content}</math>`;
+}
@@ -0,0 +1,228 @@
+import { hash_of, Shareable, U } from "./tree";
+
+export interface ExprCacheOptions {
+    /**
+     * The maximum number of entries. When a new entry would exceed the capacity, the least recently used entry is evicted.
+     * The default is unbounded.
+     */
+    capacity?: number;
+    /**
+     * If true, keys are compared by identity rather than by structure, which is cheaper but only finds the same instance.
+     * The default is false.
+     */
+    identity?: boolean;
+}
+
+/**
+ * Counters that can be used to tune the capacity of a cache.
+ */
+export interface ExprCacheStats {
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+interface Entry<V> {
+    readonly key: U;
+    value: V;
+}
+
+function is_shareable(value: unknown): value is Shareable {
+    return typeof value === 'object' && value !== null && typeof (value as Shareable).addRef === 'function' && typeof (value as Shareable).release === 'function';
+}
+
+function retain<V>(value: V): V {
+    if (is_shareable(value)) {
+        value.addRef();
+    }
+    return value;
+}
+
+function release_value<V>(value: V): void {
+    if (is_shareable(value)) {
+        value.release();
+    }
+}
+
+/**
+ * A cache keyed by expressions using structural equality (hash_of and equals), or identity, with an optional LRU bound.
+ * The cache holds a reference to each key, and to each value that is Shareable, which are released when the entry
+ * is evicted, deleted, replaced, or the cache is cleared. Because the keys are held, a key is never recycled by the Cons pool
+ * while it is in the cache, so identity keys are safe to use with pooling (see set_cons_pool_capacity).
+ */
+export class ExprCache<V> {
+    readonly #capacity: number;
+    readonly #identity: boolean;
+    readonly #buckets = new Map<number, Entry<V>[]>();
+    readonly #instances = new Map<U, Entry<V>>();
+    /**
+     * The entries from the least to the most recently used.
+     */
+    readonly #order = new Set<Entry<V>>();
+    #hits = 0;
+    #misses = 0;
+    #evictions = 0;
+    constructor(options: ExprCacheOptions = {}) {
+        const capacity = typeof options.capacity === 'number' ? options.capacity : Infinity;
+        if (!(capacity >= 0)) {
+            throw new Error(`capacity must be a non-negative number but was ${capacity}`);
+        }
+        this.#capacity = capacity;
+        this.#identity = !!options.identity;
+    }
+    get capacity(): number {
+        return this.#capacity;
+    }
+    get size(): number {
+        return this.#order.size;
+    }
+    /**
+     * Returns a snapshot of the counters. Lookups with has do not count.
+     */
+    get stats(): ExprCacheStats {
+        return { hits: this.#hits, misses: this.#misses, evictions: this.#evictions };
+    }
+    /**
+     * The fraction of lookups that were hits, or 0 if there have been no lookups.
+     */
+    get hitRate(): number {
+        const lookups = this.#hits + this.#misses;
+        return lookups > 0 ? this.#hits / lookups : 0;
+    }
+    resetStats(): void {
+        this.#hits = 0;
+        this.#misses = 0;
+        this.#evictions = 0;
+    }
+    #find(key: U): Entry<V> | undefined {
+        if (this.#identity) {
+            return this.#instances.get(key);
+        }
+        const bucket = this.#buckets.get(hash_of(key));
+        if (bucket) {
+            for (const entry of bucket) {
+                if (entry.key === key || entry.key.equals(key)) {
+                    return entry;
+                }
+            }
+        }
+        return void 0;
+    }
+    #remove(entry: Entry<V>): void {
+        this.#order.delete(entry);
+        if (this.#identity) {
+            this.#instances.delete(entry.key);
+        }
+        else {
+            const h = hash_of(entry.key);
+            const bucket = this.#buckets.get(h) as Entry<V>[];
+            bucket.splice(bucket.indexOf(entry), 1);
+            if (bucket.length === 0) {
+                this.#buckets.delete(h);
+            }
+        }
+        entry.key.release();
+        release_value(entry.value);
+    }
+    /**
+     * Determines whether there is an entry for the key, without affecting the statistics or the order of eviction.
+     */
+    has(key: U): boolean {
+        return !!this.#find(key);
+    }
+    /**
+     * Returns the value for the key, or undefined if there is none, and marks the entry as the most recently used.
+     * The returned value is reference counted if it is Shareable.
+     */
+    get(key: U): V | undefined {
+        const entry = this.#find(key);
+        if (entry) {
+            this.#hits++;
+            this.#order.delete(entry);
+            this.#order.add(entry);
+            return retain(entry.value);
+        }
+        else {
+            this.#misses++;
+            return void 0;
+        }
+    }
+    /**
+     * Sets the value for the key, evicting the least recently used entries if the capacity is exceeded.
+     * The key and value are borrowed.
+     */
+    set(key: U, value: V): this {
+        const entry = this.#find(key);
+        if (entry) {
+            retain(value);
+            release_value(entry.value);
+            entry.value = value;
+            this.#order.delete(entry);
+            this.#order.add(entry);
+            return this;
+        }
+        if (this.#capacity < 1) {
+            return this;
+        }
+        while (this.#order.size >= this.#capacity) {
+            const oldest = this.#order.values().next().value as Entry<V>;
+            this.#remove(oldest);
+            this.#evictions++;
+        }
+        key.addRef();
+        const created: Entry<V> = { key, value: retain(value) };
+        if (this.#identity) {
+            this.#instances.set(key, created);
+        }
+        else {
+            const h = hash_of(key);
+            const bucket = this.#buckets.get(h);
+            if (bucket) {
+                bucket.push(created);
+            }
+            else {
+                this.#buckets.set(h, [created]);
+            }
+        }
+        this.#order.add(created);
+        return this;
+    }
+    delete(key: U): boolean {
+        const entry = this.#find(key);
+        if (entry) {
+            this.#remove(entry);
+            return true;
+        }
+        return false;
+    }
+    /**
+     * Releases all the entries. The statistics are retained (see resetStats).
+     */
+    clear(): void {
+        for (const entry of this.#order) {
+            entry.key.release();
+            release_value(entry.value);
+        }
+        this.#order.clear();
+        this.#buckets.clear();
+        this.#instances.clear();
+    }
+}
+
+/**
+ * Returns a function that computes fn(expr) once for each key of the cache and afterwards returns the cached value.
+ * The function may call the memoized function recursively, e.g. for the items of a list.
+ * If fn returns a Shareable value, it must be reference counted, and so is the value returned by the memoized function.
+ * The cache is owned by the caller, who is responsible for calling clear.
+ */
+export function memoize<V>(fn: (expr: U) => V, cache: ExprCache<V>): (expr: U) => V {
+    return function (expr: U): V {
+        const cached = cache.get(expr);
+        if (cached !== void 0 || cache.has(expr)) {
+            return cached as V;
+        }
+        const value = fn(expr);
+        cache.set(expr, value);
+        return value;
+    };
+}
@@ -0,0 +1,267 @@
+import { is_boo, is_flt, is_rat, is_str, is_sym } from "./atoms";
+import { operator_key } from "./printer";
+import { Provenance } from "./provenance";
+import { Atom, Cons, is_atom, is_cons, pos_end_items_to_cons, U } from "./tree";
+import { transform } from "./visit";
+
+/**
+ * Compares two atoms of the same type, returning a negative number, zero, or a positive number.
+ */
+export type AtomComparator = (a: Atom, b: Atom) => number;
+
+export interface CompareOptions {
+    /**
+     * Comparators for atom types, which take precedence over the standard comparators.
+     * Atoms of a type without a comparator are ordered by their string representation.
+     */
+    atoms?: { [type: string]: AtomComparator };
+}
+
+function compare_strings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * NaN is ordered after all other numbers so that the order is total.
+ */
+function compare_numbers(a: number, b: number): number {
+    if (Number.isNaN(a) || Number.isNaN(b)) {
+        return Number.isNaN(a) ? (Number.isNaN(b) ? 0 : 1) : -1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+const standard_comparators: { [type: string]: AtomComparator } = {
+    boo: (a, b) => is_boo(a) && is_boo(b) ? Number(a.value) - Number(b.value) : compare_strings(`${a}`, `${b}`),
+    flt: (a, b) => is_flt(a) && is_flt(b) ? compare_numbers(a.value, b.value) : compare_strings(`${a}`, `${b}`),
+    rat: (a, b) => is_rat(a) && is_rat(b) ? a.compare(b) : compare_strings(`${a}`, `${b}`),
+    str: (a, b) => is_str(a) && is_str(b) ? compare_strings(a.value, b.value) : compare_strings(`${a}`, `${b}`),
+    sym: (a, b) => is_sym(a) && is_sym(b) ? compare_strings(a.key, b.key) : compare_strings(`${a}`, `${b}`)
+};
+
+/**
+ * The rank of the kind of expression: the empty list, then atoms, then non-empty lists.
+ */
+function rank(expr: U): number {
+    if (is_cons(expr)) {
+        return 2;
+    }
+    else if (is_atom(expr)) {
+        return 1;
+    }
+    else {
+        return 0;
+    }
+}
+
+function compare_atoms(a: Atom, b: Atom, atoms: { [type: string]: AtomComparator } | undefined): number {
+    if (a.type !== b.type) {
+        return compare_strings(a.type, b.type);
+    }
+    const type = a.type;
+    let comparator: AtomComparator | undefined;
+    if (atoms && Object.prototype.hasOwnProperty.call(atoms, type)) {
+        comparator = atoms[type];
+    }
+    else if (Object.prototype.hasOwnProperty.call(standard_comparators, type)) {
+        comparator = standard_comparators[type];
+    }
+    return comparator ? comparator(a, b) : compare_strings(`${a}`, `${b}`);
+}
+
+/**
+ * Compares atoms and empty lists. Non-empty lists are ordered by rank only.
+ */
+function compare_leaves(a: U, b: U, atoms: { [type: string]: AtomComparator } | undefined): number {
+    const ra = rank(a);
+    const rb = rank(b);
+    if (ra !== rb) {
+        return ra - rb;
+    }
+    else if (ra === 1) {
+        return compare_atoms(a as Atom, b as Atom, atoms);
+    }
+    else {
+        return 0;
+    }
+}
+
+interface CompareFrame {
+    as: U[];
+    bs: U[];
+    index: number;
+}
+
+function release_frame(frame: CompareFrame): void {
+    for (const item of frame.as) {
+        item.release();
+    }
+    for (const item of frame.bs) {
+        item.release();
+    }
+}
+
+/**
+ * A total order over expressions: the empty list first, then atoms, then non-empty lists.
+ * Atoms are ordered by type and then by value. Lists are ordered lexicographically by their items, with a prefix ordered first.
+ * Returns -1, 0, or +1 according to whether a is ordered before, the same as, or after b.
+ *
+ * Expressions that are equal compare as 0. Atoms of a type without a comparator are ordered by their string representation.
+ * The comparison uses an explicit stack so that deeply nested expressions are supported.
+ */
+export function compare(a: U, b: U, options: CompareOptions = {}): -1 | 0 | 1 {
+    const atoms = options.atoms;
+    const sign = (n: number): -1 | 0 | 1 => n < 0 ? -1 : n > 0 ? 1 : 0;
+    if (a === b) {
+        return 0;
+    }
+    if (!is_cons(a) || !is_cons(b)) {
+        return sign(compare_leaves(a, b, atoms));
+    }
+    const stack: CompareFrame[] = [{ as: [...a], bs: [...b], index: 0 }];
+    try {
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            if (frame.index >= frame.as.length || frame.index >= frame.bs.length) {
+                const n = frame.as.length - frame.bs.length;
+                if (n !== 0) {
+                    return sign(n);
+                }
+                release_frame(frame);
+                stack.pop();
+                continue;
+            }
+            const x = frame.as[frame.index];
+            const y = frame.bs[frame.index];
+            frame.index++;
+            if (x !== y) {
+                if (is_cons(x) && is_cons(y)) {
+                    stack.push({ as: [...x], bs: [...y], index: 0 });
+                }
+                else {
+                    const n = compare_leaves(x, y, atoms);
+                    if (n !== 0) {
+                        return sign(n);
+                    }
+                }
+            }
+        }
+        return 0;
+    }
+    finally {
+        for (const frame of stack) {
+            release_frame(frame);
+        }
+    }
+}
+
+/**
+ * The algebraic properties of an operator that are used by canonicalize.
+ */
+export interface OperatorProperties {
+    /**
+     * The arguments may be reordered, so they are sorted.
+     */
+    commutative?: boolean;
+    /**
+     * Nested applications may be flattened, e.g. (+ a (+ b c)) becomes (+ a b c).
+     */
+    associative?: boolean;
+    /**
+     * The identity element, which is removed from the arguments.
+     * An application with no remaining arguments becomes the identity element, and one with a single argument becomes that argument.
+     */
+    identity?: U;
+}
+
+export interface CanonicalizeOptions extends CompareOptions {
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+    /**
+     * Records the lists of the canonical form as derived from the lists that they replace.
+     */
+    provenance?: Provenance;
+}
+
+/**
+ * Returns the canonical form of the expression with respect to the operator properties, which are keyed by operator key.
+ * Applications of associative operators are flattened, identity elements are removed, and the arguments of commutative operators
+ * are sorted using compare. The transformation is applied bottom up, so equal expressions (up to these properties) have equal canonical forms.
+ *
+ * Lists that are unchanged are shared with the original expression, and rebuilt lists keep their pos and end properties.
+ * The returned item is reference counted.
+ */
+export function canonicalize(expr: U, operators: { [key: string]: OperatorProperties }, options: CanonicalizeOptions = {}): U {
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    const handlers: { [key: string]: (expr: Cons) => U | undefined } = {};
+    for (const key of Object.keys(operators)) {
+        const properties = operators[key];
+        handlers[key] = expr => canonicalize_application(expr, key, properties, keyOf, options);
+    }
+    return transform(expr, { operators: handlers }, { keyOf, provenance: options.provenance });
+}
+
+/**
+ * Returns the canonical form of an application whose arguments are already canonical, or undefined if it is unchanged.
+ * The returned item is reference counted.
+ */
+function canonicalize_application(expr: Cons, key: string, properties: OperatorProperties, keyOf: (head: U) => string | undefined, options: CompareOptions): U | undefined {
+    const [head, ...args] = [...expr];
+    /**
+     * The items that are obtained from nested applications, which are released at the end.
+     */
+    const owned: U[] = [head, ...args];
+    try {
+        let result: U[] = args;
+        if (properties.associative) {
+            const flattened: U[] = [];
+            for (const arg of result) {
+                if (is_cons(arg) && operator_key_of(arg, keyOf) === key) {
+                    const nested = arg.tail();
+                    owned.push(...nested);
+                    flattened.push(...nested);
+                }
+                else {
+                    flattened.push(arg);
+                }
+            }
+            result = flattened;
+        }
+        const identity = properties.identity;
+        if (identity) {
+            result = result.filter(arg => !arg.equals(identity));
+            if (result.length === 0) {
+                identity.addRef();
+                return identity;
+            }
+            else if (result.length === 1) {
+                result[0].addRef();
+                return result[0];
+            }
+        }
+        if (properties.commutative) {
+            result = [...result].sort((a, b) => compare(a, b, options));
+        }
+        if (result.length === args.length && result.every((arg, i) => arg === args[i])) {
+            return void 0;
+        }
+        return pos_end_items_to_cons(expr.pos, expr.end, head, ...result);
+    }
+    finally {
+        for (const item of owned) {
+            item.release();
+        }
+    }
+}
+
+function operator_key_of(expr: Cons, keyOf: (head: U) => string | undefined): string | undefined {
+    const head = expr.head;
+    try {
+        return keyOf(head);
+    }
+    finally {
+        head.release();
+    }
+}
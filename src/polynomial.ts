@@ -0,0 +1,514 @@
+import { is_application, is_zero, make_negation, make_power, make_product, make_quotient, make_sum } from "./arithmetic";
+import { create_rat, is_rat } from "./atoms";
+import { operator_key } from "./printer";
+import { is_cons, Shareable, U } from "./tree";
+
+/**
+ * A term of a polynomial: the exponents of the variables (in order) and the coefficient.
+ */
+export type Term = [exponents: readonly number[], coefficient: U];
+
+function release_all(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+function exponents_key(exponents: readonly number[]): string {
+    return exponents.join(',');
+}
+
+/**
+ * Orders the terms by total degree and then lexicographically by the exponents of the variables, largest first.
+ */
+function compare_terms(a: readonly number[], b: readonly number[]): number {
+    const da = a.reduce((sum, e) => sum + e, 0);
+    const db = b.reduce((sum, e) => sum + e, 0);
+    if (da !== db) {
+        return db - da;
+    }
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) {
+            return b[i] - a[i];
+        }
+    }
+    return 0;
+}
+
+/**
+ * A polynomial in the variables with coefficients that are expressions that do not contain the variables.
+ * The representation is sparse: only the terms with non-zero coefficients are stored, keyed by exponent vector.
+ * Coefficient arithmetic uses the simplifying constructors, so rational coefficients are exact.
+ *
+ * A polynomial is reference counted; call release when it is no longer needed.
+ */
+export class Polynomial implements Shareable {
+    #refCount = 1;
+    readonly #variables: U[];
+    readonly #terms = new Map<string, [exponents: number[], coefficient: U]>();
+    /**
+     * Constructs the polynomial that is the sum of the terms. Terms with the same exponents are combined.
+     * The variables and coefficients are borrowed.
+     */
+    constructor(variables: U[], terms: Term[]) {
+        // Validate before taking any references, so that nothing is leaked if this throws.
+        for (const [exponents] of terms) {
+            if (exponents.length !== variables.length) {
+                throw new Error(`A term must have ${variables.length} exponents.`);
+            }
+        }
+        this.#variables = variables.slice();
+        for (const v of this.#variables) {
+            v.addRef();
+        }
+        for (const [exponents, coefficient] of terms) {
+            const key = exponents_key(exponents);
+            const existing = this.#terms.get(key);
+            if (existing) {
+                const sum = make_sum([existing[1], coefficient]);
+                existing[1].release();
+                existing[1] = sum;
+            }
+            else {
+                coefficient.addRef();
+                this.#terms.set(key, [exponents.slice(), coefficient]);
+            }
+        }
+        for (const [key, [, coefficient]] of this.#terms) {
+            if (is_zero(coefficient)) {
+                coefficient.release();
+                this.#terms.delete(key);
+            }
+        }
+    }
+    get refCount(): number {
+        return this.#refCount;
+    }
+    addRef(): void {
+        this.#refCount++;
+    }
+    release(): void {
+        this.#refCount--;
+        if (this.#refCount === 0) {
+            release_all(this.#variables);
+            for (const [, coefficient] of this.#terms.values()) {
+                coefficient.release();
+            }
+            this.#terms.clear();
+        }
+    }
+    /**
+     * The returned items are reference counted.
+     */
+    get variables(): U[] {
+        for (const v of this.#variables) {
+            v.addRef();
+        }
+        return this.#variables.slice();
+    }
+    get isZero(): boolean {
+        return this.#terms.size === 0;
+    }
+    /**
+     * The terms in descending order of total degree, and then lexicographically by exponents.
+     * The coefficients are reference counted.
+     */
+    terms(): Term[] {
+        const terms = [...this.#terms.values()].sort((a, b) => compare_terms(a[0], b[0]));
+        return terms.map(function ([exponents, coefficient]): Term {
+            coefficient.addRef();
+            return [exponents.slice(), coefficient];
+        });
+    }
+    /**
+     * Returns the coefficient of the term with the specified exponents, which is zero if there is no such term.
+     * The returned item is reference counted.
+     */
+    coefficient(exponents: readonly number[]): U {
+        const term = this.#terms.get(exponents_key(exponents));
+        if (term) {
+            term[1].addRef();
+            return term[1];
+        }
+        return create_rat(0);
+    }
+    /**
+     * Returns the total degree, or the degree in the variable if specified. The degree of the zero polynomial is -Infinity.
+     */
+    degree(variable?: U): number {
+        const index = variable ? this.#indexOf(variable) : -1;
+        let degree = -Infinity;
+        for (const [exponents] of this.#terms.values()) {
+            const d = index >= 0 ? exponents[index] : exponents.reduce((sum, e) => sum + e, 0);
+            degree = Math.max(degree, d);
+        }
+        return degree;
+    }
+    /**
+     * Returns the coefficient of the leading term in the order of terms().
+     * If a variable is specified, returns the coefficient of the highest power of the variable, which is a polynomial
+     * expression in the other variables.
+     * The returned item is reference counted.
+     */
+    leadingCoefficient(variable?: U): U {
+        if (this.isZero) {
+            return create_rat(0);
+        }
+        if (!variable) {
+            const [[, coefficient]] = [...this.#terms.values()].sort((a, b) => compare_terms(a[0], b[0]));
+            coefficient.addRef();
+            return coefficient;
+        }
+        const index = this.#indexOf(variable);
+        const degree = this.degree(variable);
+        const terms: Term[] = [];
+        for (const [exponents, coefficient] of this.#terms.values()) {
+            if (exponents[index] === degree) {
+                terms.push([exponents.map((e, i) => i === index ? 0 : e), coefficient]);
+            }
+        }
+        const p = new Polynomial(this.#variables, terms);
+        try {
+            return from_polynomial(p);
+        }
+        finally {
+            p.release();
+        }
+    }
+    add(other: Polynomial): Polynomial {
+        this.#checkVariables(other);
+        return new Polynomial(this.#variables, [...this.#terms.values(), ...other.#terms.values()]);
+    }
+    sub(other: Polynomial): Polynomial {
+        const negated = other.neg();
+        try {
+            return this.add(negated);
+        }
+        finally {
+            negated.release();
+        }
+    }
+    neg(): Polynomial {
+        return this.#map(coefficient => make_negation(coefficient));
+    }
+    mul(other: Polynomial): Polynomial {
+        this.#checkVariables(other);
+        const products: Term[] = [];
+        try {
+            for (const [ea, ca] of this.#terms.values()) {
+                for (const [eb, cb] of other.#terms.values()) {
+                    products.push([ea.map((e, i) => e + eb[i]), make_product([ca, cb])]);
+                }
+            }
+            return new Polynomial(this.#variables, products);
+        }
+        finally {
+            release_all(products.map(([, coefficient]) => coefficient));
+        }
+    }
+    /**
+     * Raises the polynomial to a non-negative integer power.
+     */
+    pow(n: number): Polynomial {
+        if (!Number.isInteger(n) || n < 0) {
+            throw new Error(`The exponent must be a non-negative integer but was ${n}.`);
+        }
+        const one = create_rat(1);
+        let result = new Polynomial(this.#variables, [[this.#variables.map(() => 0), one]]);
+        one.release();
+        // Square and multiply, using the binary digits of the exponent.
+        let base = new Polynomial(this.#variables, [...this.#terms.values()]);
+        try {
+            for (let k = n; k > 0; k = Math.floor(k / 2)) {
+                if (k % 2 === 1) {
+                    const next = result.mul(base);
+                    result.release();
+                    result = next;
+                }
+                if (k > 1) {
+                    const square = base.mul(base);
+                    base.release();
+                    base = square;
+                }
+            }
+            return result;
+        }
+        finally {
+            base.release();
+        }
+    }
+    /**
+     * Divides a univariate polynomial by another, returning the quotient and the remainder, whose degree is less than that of the divisor.
+     * The coefficients are divided using (/ a b), so the division is exact for rational coefficients.
+     */
+    divide(divisor: Polynomial): [quotient: Polynomial, remainder: Polynomial] {
+        this.#checkVariables(divisor);
+        if (this.#variables.length !== 1) {
+            throw new Error("Polynomial division requires a polynomial in one variable.");
+        }
+        if (divisor.isZero) {
+            throw new Error("Division by the zero polynomial.");
+        }
+        const dd = divisor.degree();
+        const lc = divisor.leadingCoefficient();
+        const quotient: Term[] = [];
+        let remainder = new Polynomial(this.#variables, [...this.#terms.values()]);
+        try {
+            while (!remainder.isZero && remainder.degree() >= dd) {
+                const dr = remainder.degree();
+                const lr = remainder.leadingCoefficient();
+                const c = make_quotient(lr, lc);
+                lr.release();
+                quotient.push([[dr - dd], c]);
+                const t = new Polynomial(this.#variables, [[[dr - dd], c]]);
+                const product = t.mul(divisor);
+                t.release();
+                const difference = remainder.sub(product);
+                product.release();
+                remainder.release();
+                // The leading terms cancel exactly even if the coefficient arithmetic does not simplify to zero.
+                remainder = difference.#without([dr]);
+                difference.release();
+            }
+            const q = new Polynomial(this.#variables, quotient);
+            remainder.addRef();
+            return [q, remainder];
+        }
+        finally {
+            lc.release();
+            remainder.release();
+            release_all(quotient.map(([, coefficient]) => coefficient));
+        }
+    }
+    #without(exponents: readonly number[]): Polynomial {
+        const key = exponents_key(exponents);
+        return new Polynomial(this.#variables, [...this.#terms.entries()].filter(([k]) => k !== key).map(([, term]) => term));
+    }
+    #map(f: (coefficient: U) => U): Polynomial {
+        const terms: Term[] = [...this.#terms.values()].map(([exponents, coefficient]) => [exponents, f(coefficient)]);
+        try {
+            return new Polynomial(this.#variables, terms);
+        }
+        finally {
+            release_all(terms.map(([, coefficient]) => coefficient));
+        }
+    }
+    #indexOf(variable: U): number {
+        const index = this.#variables.findIndex(v => v === variable || v.equals(variable));
+        if (index < 0) {
+            throw new Error(`${variable} is not a variable of the polynomial.`);
+        }
+        return index;
+    }
+    #checkVariables(other: Polynomial): void {
+        const a = this.#variables;
+        const b = other.#variables;
+        if (a.length !== b.length || !a.every((v, i) => v === b[i] || v.equals(b[i]))) {
+            throw new Error("The polynomials must have the same variables.");
+        }
+    }
+}
+
+function constant(variables: U[], coefficient: U): Polynomial {
+    return new Polynomial(variables, [[variables.map(() => 0), coefficient]]);
+}
+
+/**
+ * Returns the polynomial in the variables that is equal to the expression, or undefined if the expression is not a polynomial in the variables.
+ * Sums (+), differences and negations (-), products (*), powers with non-negative integer exponents (power and ^),
+ * and quotients (/) by expressions that do not contain the variables are converted; any other expression that
+ * contains a variable is not a polynomial. Expressions that do not contain the variables are coefficients.
+ */
+export function to_polynomial(expr: U, variables: U[]): Polynomial | undefined {
+    const index = variables.findIndex(v => v === expr || v.equals(expr));
+    if (index >= 0) {
+        const one = create_rat(1);
+        try {
+            return new Polynomial(variables, [[variables.map((v, i) => i === index ? 1 : 0), one]]);
+        }
+        finally {
+            one.release();
+        }
+    }
+    if (!variables.some(v => expr.contains(v))) {
+        return constant(variables, expr);
+    }
+    if (!is_cons(expr)) {
+        return void 0;
+    }
+    const [head, ...args] = [...expr];
+    const polys: Polynomial[] = [];
+    try {
+        const key = operator_key(head);
+        if (key === '+' || key === '*' || (key === '-' && (args.length === 1 || args.length === 2))) {
+            for (const arg of args) {
+                const p = to_polynomial(arg, variables);
+                if (!p) {
+                    return void 0;
+                }
+                polys.push(p);
+            }
+            if (key === '-') {
+                return polys.length === 1 ? polys[0].neg() : polys[0].sub(polys[1]);
+            }
+            const one = create_rat(key === '*' ? 1 : 0);
+            let result = constant(variables, one);
+            one.release();
+            for (const p of polys) {
+                const next = key === '*' ? result.mul(p) : result.add(p);
+                result.release();
+                result = next;
+            }
+            return result;
+        }
+        else if ((key === 'power' || key === '^') && args.length === 2) {
+            const [base, expo] = args;
+            if (!is_rat(expo) || !expo.isInteger() || expo.numer < BigInt(0)) {
+                return void 0;
+            }
+            const p = to_polynomial(base, variables);
+            if (!p) {
+                return void 0;
+            }
+            polys.push(p);
+            return p.pow(Number(expo.numer));
+        }
+        else if (key === '/' && args.length === 2) {
+            const [numer, denom] = args;
+            if (variables.some(v => denom.contains(v))) {
+                return void 0;
+            }
+            const p = to_polynomial(numer, variables);
+            if (!p) {
+                return void 0;
+            }
+            polys.push(p);
+            const terms = p.terms();
+            const quotients: Term[] = terms.map(([exponents, coefficient]) => [exponents, make_quotient(coefficient, denom)]);
+            try {
+                return new Polynomial(variables, quotients);
+            }
+            finally {
+                release_all(terms.map(([, coefficient]) => coefficient));
+                release_all(quotients.map(([, coefficient]) => coefficient));
+            }
+        }
+        else {
+            return void 0;
+        }
+    }
+    finally {
+        head.release();
+        release_all(args);
+        for (const p of polys) {
+            p.release();
+        }
+    }
+}
+
+/**
+ * Converts the polynomial to an expression: a sum of products of coefficients and powers of the variables, in the order of terms().
+ * The returned item is reference counted.
+ */
+export function from_polynomial(p: Polynomial): U {
+    const variables = p.variables;
+    const terms = p.terms();
+    const owned: U[] = [...variables];
+    try {
+        const products = terms.map(function ([exponents, coefficient]) {
+            owned.push(coefficient);
+            const factors: U[] = [coefficient];
+            exponents.forEach(function (e, i) {
+                if (e > 0) {
+                    const expo = create_rat(e);
+                    owned.push(expo);
+                    const factor = make_power(variables[i], expo);
+                    owned.push(factor);
+                    factors.push(factor);
+                }
+            });
+            const product = make_product(factors);
+            owned.push(product);
+            return product;
+        });
+        return make_sum(products);
+    }
+    finally {
+        release_all(owned);
+    }
+}
+
+/**
+ * Collects the terms of the expression with the same powers of the variables, e.g. (+ (* a x) (* b x)) becomes (* (+ a b) x).
+ * The expression is returned unchanged if it is not a polynomial in the variables.
+ * The returned item is reference counted.
+ */
+export function collect(expr: U, variables: U[]): U {
+    const p = to_polynomial(expr, variables);
+    if (p) {
+        try {
+            return from_polynomial(p);
+        }
+        finally {
+            p.release();
+        }
+    }
+    expr.addRef();
+    return expr;
+}
+
+/**
+ * Appends the subexpressions that are treated as variables by expand, without duplicates: symbols and any other expression that is
+ * not a sum, difference, negation, product, power with a non-negative integer exponent, or quotient by a rational constant.
+ * The appended items are reference counted.
+ */
+function kernels(expr: U, found: U[]): void {
+    if (is_rat(expr)) {
+        return;
+    }
+    if (is_cons(expr)) {
+        const args = expr.tail();
+        try {
+            if (is_application(expr, '+') || is_application(expr, '*') || is_application(expr, '-')) {
+                for (const arg of args) {
+                    kernels(arg, found);
+                }
+                return;
+            }
+            else if ((is_application(expr, 'power') || is_application(expr, '^')) && args.length === 2) {
+                const expo = args[1];
+                if (is_rat(expo) && expo.isInteger() && expo.numer >= BigInt(0)) {
+                    kernels(args[0], found);
+                    return;
+                }
+            }
+            else if (is_application(expr, '/') && args.length === 2 && is_rat(args[1]) && !args[1].isZero()) {
+                kernels(args[0], found);
+                return;
+            }
+        }
+        finally {
+            release_all(args);
+        }
+    }
+    if (!found.some(k => k.equals(expr))) {
+        expr.addRef();
+        found.push(expr);
+    }
+}
+
+/**
+ * Multiplies out the products and powers in the expression and collects like terms, e.g. (power (+ a 1) 2) becomes (+ (power a 2) (* 2 a) 1).
+ * Subexpressions that are not arithmetic, such as (sin x), are treated as variables.
+ * The returned item is reference counted.
+ */
+export function expand(expr: U): U {
+    const variables: U[] = [];
+    try {
+        kernels(expr, variables);
+        return collect(expr, variables);
+    }
+    finally {
+        release_all(variables);
+    }
+}
@@ -0,0 +1,381 @@
+import { is_sym } from "./atoms";
+import { Cons, is_cons, U } from "./tree";
+
+/**
+ * Returns the canonical S-expression text for the expression, e.g. (+ a (* b c)).
+ * Atoms are printed using their toString method.
+ */
+export function print_sexpr(expr: U): string {
+    if (is_cons(expr)) {
+        const parts: string[] = [];
+        for (const item of expr) {
+            try {
+                parts.push(print_sexpr(item));
+            }
+            finally {
+                item.release();
+            }
+        }
+        return `(${parts.join(' ')})`;
+    }
+    else if (expr.isnil) {
+        return '()';
+    }
+    else {
+        return `${expr}`;
+    }
+}
+
+export type Associativity = 'left' | 'right' | 'none';
+
+export type Fixity = 'infix' | 'prefix' | 'postfix';
+
+/**
+ * Describes how an operator is rendered in infix notation.
+ */
+export interface OperatorInfo {
+    /**
+     * The key that identifies the operator in the head of a list (see operator_key).
+     */
+    readonly key: string;
+    /**
+     * The text that is rendered for the operator. Defaults to the key.
+     */
+    readonly text?: string;
+    /**
+     * Operators with higher precedence bind more tightly.
+     */
+    readonly precedence: number;
+    readonly assoc: Associativity;
+    readonly fixity: Fixity;
+    /**
+     * Whether an infix operator is surrounded by spaces. Defaults to true.
+     */
+    readonly spaced?: boolean;
+}
+
+/**
+ * The operators that are known to the infix printer, keyed by operator key and fixity.
+ * Infix operators are used for lists with two or more arguments, prefix and postfix operators for lists with one argument.
+ */
+export class OperatorTable {
+    readonly #operators = new Map<string, OperatorInfo[]>();
+    add(info: OperatorInfo): this {
+        const infos = this.#operators.get(info.key);
+        if (infos) {
+            const index = infos.findIndex(existing => existing.fixity === info.fixity);
+            if (index >= 0) {
+                infos[index] = info;
+            }
+            else {
+                infos.push(info);
+            }
+        }
+        else {
+            this.#operators.set(info.key, [info]);
+        }
+        return this;
+    }
+    /**
+     * Returns the operator with the specified key that is appropriate for the number of arguments.
+     */
+    find(key: string, argCount: number): OperatorInfo | undefined {
+        const infos = this.#operators.get(key);
+        if (infos) {
+            if (argCount === 1) {
+                return infos.find(info => info.fixity === 'prefix' || info.fixity === 'postfix');
+            }
+            else if (argCount >= 2) {
+                return infos.find(info => info.fixity === 'infix');
+            }
+        }
+        return void 0;
+    }
+    /**
+     * Returns a new table containing the same operators.
+     */
+    clone(): OperatorTable {
+        const table = new OperatorTable();
+        for (const infos of this.#operators.values()) {
+            for (const info of infos) {
+                table.add(info);
+            }
+        }
+        return table;
+    }
+}
+
+/**
+ * Returns a new table containing the usual arithmetic and relational operators.
+ * (power base expo) is rendered as base^expo.
+ */
+export function default_operator_table(): OperatorTable {
+    const table = new OperatorTable();
+    for (const key of ['=', '<', '>', '<=', '>=', '!=']) {
+        table.add({ key, precedence: 10, assoc: 'none', fixity: 'infix' });
+    }
+    table.add({ key: '+', precedence: 20, assoc: 'left', fixity: 'infix' });
+    table.add({ key: '-', precedence: 20, assoc: 'left', fixity: 'infix' });
+    table.add({ key: '*', precedence: 30, assoc: 'left', fixity: 'infix' });
+    table.add({ key: '/', precedence: 30, assoc: 'left', fixity: 'infix' });
+    table.add({ key: '-', precedence: 40, assoc: 'right', fixity: 'prefix' });
+    table.add({ key: 'power', text: '^', precedence: 50, assoc: 'right', fixity: 'infix', spaced: false });
+    table.add({ key: '^', precedence: 50, assoc: 'right', fixity: 'infix', spaced: false });
+    table.add({ key: '!', precedence: 60, assoc: 'left', fixity: 'postfix' });
+    return table;
+}
+
+/**
+ * The default operator key for the head of a list: the key of a symbol, otherwise undefined.
+ */
+export function operator_key(head: U): string | undefined {
+    return is_sym(head) ? head.key : void 0;
+}
+
+export interface InfixOptions {
+    /**
+     * The default is default_operator_table().
+     */
+    operators?: OperatorTable;
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+    /**
+     * The maximum line width before wrapping is attempted. The default is 80.
+     */
+    width?: number;
+    /**
+     * The indentation of continuation lines. The default is 4.
+     */
+    indent?: number;
+}
+
+/**
+ * A document for the layout algorithm: text, a line break that is rendered as the flat text if the enclosing group fits,
+ * a concatenation, a group that is laid out flat if it fits, or a nested (indented) document.
+ */
+type Doc = string | { kind: 'line'; flat: string } | { kind: 'concat'; docs: Doc[] } | { kind: 'group'; doc: Doc } | { kind: 'nest'; indent: number; doc: Doc };
+
+function line(flat: string): Doc {
+    return { kind: 'line', flat };
+}
+
+function concat(...docs: Doc[]): Doc {
+    return { kind: 'concat', docs };
+}
+
+function group(doc: Doc): Doc {
+    return { kind: 'group', doc };
+}
+
+function nest(indent: number, doc: Doc): Doc {
+    return { kind: 'nest', indent, doc };
+}
+
+/**
+ * Determines whether the document fits in the remaining width when laid out flat.
+ */
+function fits(doc: Doc, remaining: number): boolean {
+    const stack: Doc[] = [doc];
+    while (stack.length > 0 && remaining >= 0) {
+        const d = stack.pop() as Doc;
+        if (typeof d === 'string') {
+            remaining -= d.length;
+        }
+        else if (d.kind === 'line') {
+            remaining -= d.flat.length;
+        }
+        else if (d.kind === 'concat') {
+            for (let i = d.docs.length - 1; i >= 0; i--) {
+                stack.push(d.docs[i]);
+            }
+        }
+        else {
+            stack.push(d.doc);
+        }
+    }
+    return remaining >= 0;
+}
+
+/**
+ * Returns the first character of the document when laid out flat, or the empty string if the document is empty.
+ */
+function first_char(doc: Doc): string {
+    const stack: Doc[] = [doc];
+    while (stack.length > 0) {
+        const d = stack.pop() as Doc;
+        if (typeof d === 'string' || d.kind === 'line') {
+            const text = typeof d === 'string' ? d : d.flat;
+            if (text.length > 0) {
+                return text[0];
+            }
+        }
+        else if (d.kind === 'concat') {
+            for (let i = d.docs.length - 1; i >= 0; i--) {
+                stack.push(d.docs[i]);
+            }
+        }
+        else {
+            stack.push(d.doc);
+        }
+    }
+    return '';
+}
+
+function layout(doc: Doc, width: number): string {
+    const out: string[] = [];
+    let column = 0;
+    const stack: [indent: number, flat: boolean, doc: Doc][] = [[0, false, doc]];
+    while (stack.length > 0) {
+        const [indent, flat, d] = stack.pop() as [number, boolean, Doc];
+        if (typeof d === 'string') {
+            out.push(d);
+            column += d.length;
+        }
+        else if (d.kind === 'line') {
+            if (flat) {
+                out.push(d.flat);
+                column += d.flat.length;
+            }
+            else {
+                out.push('\n' + ' '.repeat(indent));
+                column = indent;
+            }
+        }
+        else if (d.kind === 'concat') {
+            for (let i = d.docs.length - 1; i >= 0; i--) {
+                stack.push([indent, flat, d.docs[i]]);
+            }
+        }
+        else if (d.kind === 'nest') {
+            stack.push([indent + d.indent, flat, d.doc]);
+        }
+        else {
+            stack.push([indent, flat || fits(d.doc, width - column), d.doc]);
+        }
+    }
+    return out.join('');
+}
+
+/**
+ * The precedence of atoms and function applications, which never need parentheses.
+ */
+const ATOMIC = Number.POSITIVE_INFINITY;
+
+interface Rendered {
+    doc: Doc;
+    precedence: number;
+}
+
+class InfixPrinter {
+    constructor(private readonly operators: OperatorTable, private readonly keyOf: (head: U) => string | undefined, private readonly indent: number) {
+    }
+    render(expr: U): Rendered {
+        if (is_cons(expr)) {
+            return this.renderList(expr);
+        }
+        else if (expr.isnil) {
+            return { doc: '()', precedence: ATOMIC };
+        }
+        else {
+            const text = `${expr}`;
+            if (text.startsWith('-')) {
+                // Negative numbers are parenthesized like a prefix minus.
+                const minus = this.operators.find('-', 1);
+                return { doc: text, precedence: minus ? minus.precedence : ATOMIC };
+            }
+            return { doc: text, precedence: ATOMIC };
+        }
+    }
+    renderList(expr: Cons): Rendered {
+        const [head, ...args] = [...expr];
+        try {
+            const key = this.keyOf(head);
+            const info = typeof key === 'string' ? this.operators.find(key, args.length) : void 0;
+            if (info) {
+                const text = typeof info.text === 'string' ? info.text : info.key;
+                switch (info.fixity) {
+                    case 'prefix': {
+                        const operand = this.operand(args[0], info, 0, 1);
+                        // Parenthesize e.g. the -3 in -(-3), which would otherwise run together with the minus as --3.
+                        if (text.endsWith('-') && first_char(operand) === '-') {
+                            return { doc: concat(text, '(', operand, ')'), precedence: info.precedence };
+                        }
+                        return { doc: concat(text, operand), precedence: info.precedence };
+                    }
+                    case 'postfix': {
+                        return { doc: concat(this.operand(args[0], info, 0, 1), text), precedence: info.precedence };
+                    }
+                    default: {
+                        const spaced = info.spaced !== false;
+                        const docs: Doc[] = [this.operand(args[0], info, 0, args.length)];
+                        for (let i = 1; i < args.length; i++) {
+                            docs.push(spaced ? line(' ') : line(''), spaced ? `${text} ` : text, this.operand(args[i], info, i, args.length));
+                        }
+                        return { doc: group(nest(this.indent, concat(...docs))), precedence: info.precedence };
+                    }
+                }
+            }
+            else {
+                return { doc: this.application(head, args), precedence: ATOMIC };
+            }
+        }
+        finally {
+            head.release();
+            for (const arg of args) {
+                arg.release();
+            }
+        }
+    }
+    /**
+     * Renders an operand, adding parentheses if required by the precedence and associativity of the operator.
+     */
+    operand(arg: U, info: OperatorInfo, index: number, count: number): Doc {
+        const { doc, precedence } = this.render(arg);
+        let parens = precedence < info.precedence;
+        if (precedence === info.precedence) {
+            switch (info.assoc) {
+                case 'left': {
+                    parens = index > 0;
+                    break;
+                }
+                case 'right': {
+                    parens = index < count - 1;
+                    break;
+                }
+                default: {
+                    parens = true;
+                }
+            }
+        }
+        return parens ? concat('(', doc, ')') : doc;
+    }
+    application(head: U, args: U[]): Doc {
+        const { doc, precedence } = this.render(head);
+        const callee = precedence === ATOMIC ? doc : concat('(', doc, ')');
+        const docs: Doc[] = [];
+        args.forEach((arg, i) => {
+            if (i > 0) {
+                docs.push(',', line(' '));
+            }
+            docs.push(this.render(arg).doc);
+        });
+        return group(concat(callee, '(', nest(this.indent, concat(line(''), ...docs)), line(''), ')'));
+    }
+}
+
+/**
+ * Returns the expression in infix math notation, e.g. a + b * c.
+ * Lists whose head is an operator in the table are rendered using the operator; other lists are rendered as function applications, f(x, y).
+ * Parentheses are only added where required by operator precedence and associativity.
+ * Lines that exceed the width are wrapped before infix operators and between function arguments.
+ */
+export function print_infix(expr: U, options: InfixOptions = {}): string {
+    const operators = options.operators ? options.operators : default_operator_table();
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    const width = typeof options.width === 'number' ? options.width : 80;
+    const indent = typeof options.indent === 'number' ? options.indent : 4;
+    const printer = new InfixPrinter(operators, keyOf, indent);
+    return layout(printer.render(expr).doc, width);
+}
@@ -0,0 +1,130 @@
+import { is_cons, pin_cons, U } from "./tree";
+
+/**
+ * A range of the source text, from pos (inclusive) to end (exclusive).
+ */
+export interface Span {
+    pos: number;
+    end: number;
+}
+
+/**
+ * Returns the span of the expression from its own pos and end properties, if both are known.
+ */
+export function span_of(expr: U): Span | undefined {
+    if (typeof expr.pos === 'number' && typeof expr.end === 'number') {
+        return { pos: expr.pos, end: expr.end };
+    }
+    return void 0;
+}
+
+function merge(a: Span | undefined, b: Span): Span {
+    return a ? { pos: Math.min(a.pos, b.pos), end: Math.max(a.end, b.end) } : b;
+}
+
+/**
+ * Records the nodes that derived nodes were constructed from, so that the source text of a derived node can be located
+ * after one or more transformations, even when the derived node has no pos and end properties of its own.
+ *
+ * Provenance is only recorded for lists. Atoms, such as symbols, are often shared between unrelated expressions,
+ * so their location is found from the enclosing list (see locate).
+ * The records do not hold references in the sense of addRef; a derived node that is no longer reachable is forgotten.
+ * Because the records are keyed by identity, the lists that they refer to are pinned so that they are never recycled
+ * by the Cons pool (see set_cons_pool_capacity and pin_cons).
+ */
+export class Provenance {
+    readonly #sources = new WeakMap<U, U[]>();
+    /**
+     * Records that the derived node was constructed from the source nodes.
+     */
+    record(derived: U, ...sources: U[]): void {
+        if (!is_cons(derived)) {
+            return;
+        }
+        const others = sources.filter(source => source !== derived);
+        if (others.length === 0) {
+            return;
+        }
+        pin_cons(derived);
+        for (const source of others) {
+            if (is_cons(source)) {
+                pin_cons(source);
+            }
+        }
+        const existing = this.#sources.get(derived);
+        if (existing) {
+            for (const source of others) {
+                if (!existing.includes(source)) {
+                    existing.push(source);
+                }
+            }
+        }
+        else {
+            this.#sources.set(derived, others);
+        }
+    }
+    /**
+     * Returns the nodes that the derived node was directly constructed from. The returned items are not reference counted.
+     */
+    sources(derived: U): U[] {
+        const sources = this.#sources.get(derived);
+        return sources ? sources.slice() : [];
+    }
+    /**
+     * Returns the span of the expression: its own span if known, otherwise the span covering the spans of the nodes
+     * that it was derived from, following the records through any number of transformations.
+     */
+    span(expr: U): Span | undefined {
+        const own = span_of(expr);
+        if (own) {
+            return own;
+        }
+        let result: Span | undefined;
+        const visited = new Set<U>([expr]);
+        const queue = this.sources(expr);
+        while (queue.length > 0) {
+            const source = queue.shift() as U;
+            if (visited.has(source)) {
+                continue;
+            }
+            visited.add(source);
+            const span = span_of(source);
+            if (span) {
+                result = merge(result, span);
+            }
+            else {
+                queue.push(...this.sources(source));
+            }
+        }
+        return result;
+    }
+    /**
+     * Returns the nearest span for the subterm at the path (the index of the item at each level) from the root:
+     * the span of the subterm if one is known, otherwise that of the nearest enclosing list.
+     */
+    locate(root: U, path: readonly number[]): Span | undefined {
+        const nodes: U[] = [root];
+        root.addRef();
+        try {
+            for (const index of path) {
+                const node = nodes[nodes.length - 1];
+                if (!is_cons(node) || index < 0 || index >= node.length) {
+                    break;
+                }
+                nodes.push(node.item(index));
+            }
+            for (let i = nodes.length - 1; i >= 0; i--) {
+                const span = this.span(nodes[i]);
+                if (span) {
+                    return span;
+                }
+            }
+            return void 0;
+        }
+        finally {
+            for (const node of nodes) {
+                node.release();
+            }
+        }
+    }
+}
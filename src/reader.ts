@@ -0,0 +1,187 @@
+import { nil, pos_end_items_to_cons, U } from "./tree";
+
+/**
+ * Creates the atoms encountered while reading S-expression text.
+ * The returned atoms are owned by the reader (reference count of 1).
+ */
+export interface AtomFactory {
+    /**
+     * Any token that is not a number, a string, or punctuation.
+     */
+    sym(name: string, pos: number, end: number): U;
+    /**
+     * A numeric literal, e.g. 42, -7, 3.14, 1e-3. The text is passed through unmodified.
+     */
+    num(text: string, pos: number, end: number): U;
+    /**
+     * A double-quoted string literal. The value has had its escape sequences processed.
+     */
+    str(value: string, pos: number, end: number): U;
+}
+
+/**
+ * Thrown when the source text is not a well-formed S-expression.
+ * The pos and end properties are offsets into the source text.
+ */
+export class ParseError extends Error {
+    constructor(message: string, readonly pos: number, readonly end: number) {
+        super(`${message} at ${pos}`);
+        this.name = 'ParseError';
+    }
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+const ESCAPES: { [ch: string]: string } = {
+    '"': '"',
+    '\\': '\\',
+    'n': '\n',
+    'r': '\r',
+    't': '\t'
+};
+
+function is_whitespace(ch: string): boolean {
+    return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f';
+}
+
+function is_delimiter(ch: string): boolean {
+    return is_whitespace(ch) || ch === '(' || ch === ')' || ch === '"' || ch === ';';
+}
+
+interface Frame {
+    pos: number;
+    items: U[];
+}
+
+function release_items(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+/**
+ * Reads all the top-level S-expressions in the source text.
+ * The returned expressions are reference counted.
+ *
+ * Lists are built using pos_end_items_to_cons so that pos and end span the parentheses.
+ * Atoms are created using the factory so that the caller determines their representation.
+ */
+export function read_all(sourceText: string, factory: AtomFactory): U[] {
+    const top: Frame = { pos: 0, items: [] };
+    // The stack of lists that are currently open, innermost last.
+    const stack: Frame[] = [];
+    const current = (): Frame => stack.length > 0 ? stack[stack.length - 1] : top;
+    try {
+        const N = sourceText.length;
+        let i = 0;
+        while (i < N) {
+            const ch = sourceText[i];
+            if (is_whitespace(ch)) {
+                i++;
+            }
+            else if (ch === ';') {
+                // Comments extend to the end of the line.
+                while (i < N && sourceText[i] !== '\n') {
+                    i++;
+                }
+            }
+            else if (ch === '(') {
+                stack.push({ pos: i, items: [] });
+                i++;
+            }
+            else if (ch === ')') {
+                const frame = stack.pop();
+                if (frame) {
+                    i++;
+                    try {
+                        current().items.push(pos_end_items_to_cons(frame.pos, i, ...frame.items));
+                    }
+                    finally {
+                        release_items(frame.items);
+                    }
+                }
+                else {
+                    throw new ParseError("Unexpected ')'", i, i + 1);
+                }
+            }
+            else if (ch === '"') {
+                const pos = i;
+                let value = '';
+                i++;
+                // eslint-disable-next-line no-constant-condition
+                while (true) {
+                    if (i >= N) {
+                        throw new ParseError("Unterminated string literal", pos, N);
+                    }
+                    const c = sourceText[i];
+                    if (c === '"') {
+                        i++;
+                        break;
+                    }
+                    else if (c === '\\') {
+                        const e = sourceText[i + 1];
+                        if (e in ESCAPES) {
+                            value += ESCAPES[e];
+                            i += 2;
+                        }
+                        else {
+                            throw new ParseError(`Invalid escape sequence '\\${e ?? ''}'`, i, Math.min(i + 2, N));
+                        }
+                    }
+                    else {
+                        value += c;
+                        i++;
+                    }
+                }
+                current().items.push(factory.str(value, pos, i));
+            }
+            else {
+                const pos = i;
+                while (i < N && !is_delimiter(sourceText[i])) {
+                    i++;
+                }
+                const text = sourceText.substring(pos, i);
+                if (NUMBER.test(text)) {
+                    current().items.push(factory.num(text, pos, i));
+                }
+                else {
+                    current().items.push(factory.sym(text, pos, i));
+                }
+            }
+        }
+        if (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            throw new ParseError("Missing ')'", frame.pos, N);
+        }
+        const exprs = top.items;
+        top.items = [];
+        return exprs;
+    }
+    finally {
+        for (const frame of stack) {
+            release_items(frame.items);
+        }
+        release_items(top.items);
+    }
+}
+
+/**
+ * Reads a single S-expression from the source text.
+ * The returned expression is reference counted.
+ * If the source text is empty (or only contains whitespace and comments), the return value is nil.
+ */
+export function read(sourceText: string, factory: AtomFactory): U {
+    const exprs = read_all(sourceText, factory);
+    if (exprs.length === 0) {
+        return nil;
+    }
+    else if (exprs.length === 1) {
+        return exprs[0];
+    }
+    else {
+        const pos = exprs[1].pos;
+        const end = exprs[exprs.length - 1].end;
+        release_items(exprs);
+        throw new ParseError("Unexpected text after expression", typeof pos === 'number' ? pos : 0, typeof end === 'number' ? end : sourceText.length);
+    }
+}
@@ -0,0 +1,180 @@
+import { operator_key } from "./printer";
+import { Atom, Cons, is_atom, is_cons, U } from "./tree";
+
+/**
+ * Renders a list whose head is a registered operator. The renderer is provided for rendering the arguments.
+ */
+export type OperatorHandler<R> = (expr: Cons, renderer: R) => string;
+
+/**
+ * Renders an atom of a registered type.
+ */
+export type AtomHandler<R> = (atom: Atom, renderer: R) => string;
+
+/**
+ * The precedence of atoms and function applications, which never need parentheses.
+ */
+export const ATOMIC_PRECEDENCE = Number.POSITIVE_INFINITY;
+
+/**
+ * The precedences used by the built-in handlers.
+ * Quotients are self-delimiting when rendered as fractions, but must be parenthesized as the base of a power.
+ */
+export const SUM_PRECEDENCE = 20;
+export const PRODUCT_PRECEDENCE = 30;
+export const QUOTIENT_PRECEDENCE = 35;
+export const NEGATION_PRECEDENCE = 40;
+export const POWER_PRECEDENCE = 50;
+
+interface OperatorEntry<R> {
+    handler: OperatorHandler<R>;
+    precedence: number | ((expr: Cons) => number);
+}
+
+/**
+ * The handler registry and dispatch shared by the LaTeX and MathML renderers.
+ * Lists are dispatched on the operator key of their head, atoms on their type.
+ * Lists with an unregistered operator are rendered as function applications.
+ */
+export abstract class ExprRenderer {
+    readonly #operators = new Map<string, OperatorEntry<this>>();
+    readonly #atoms = new Map<string, AtomHandler<this>>();
+    constructor(private readonly keyOf: (head: U) => string | undefined = operator_key) {
+    }
+    /**
+     * Registers the handler for lists whose head has the specified operator key.
+     * The precedence is used to decide where parentheses are needed; it may depend on the expression (e.g. unary minus).
+     */
+    registerOperator(key: string, handler: OperatorHandler<this>, precedence: number | ((expr: Cons) => number) = ATOMIC_PRECEDENCE): this {
+        this.#operators.set(key, { handler, precedence });
+        return this;
+    }
+    /**
+     * Registers the handler for atoms with the specified type.
+     */
+    registerAtom(type: string, handler: AtomHandler<this>): this {
+        this.#atoms.set(type, handler);
+        return this;
+    }
+    #entry(expr: Cons): OperatorEntry<this> | undefined {
+        const head = expr.head;
+        try {
+            const key = this.keyOf(head);
+            return typeof key === 'string' ? this.#operators.get(key) : void 0;
+        }
+        finally {
+            head.release();
+        }
+    }
+    render(expr: U): string {
+        if (is_cons(expr)) {
+            const entry = this.#entry(expr);
+            if (entry) {
+                return entry.handler(expr, this);
+            }
+            else {
+                return this.renderApplication(expr);
+            }
+        }
+        else if (is_atom(expr)) {
+            const handler = this.#atoms.get(expr.type);
+            return handler ? handler(expr, this) : this.unknownAtom(expr);
+        }
+        else {
+            return this.emptyList();
+        }
+    }
+    /**
+     * Renders the list as a function application, e.g. f(x, y), whether or not its operator is registered.
+     * Operator handlers use this for lists that they cannot render, e.g. those with the wrong number of arguments.
+     */
+    renderApplication(expr: Cons): string {
+        const [head, ...args] = [...expr];
+        try {
+            return this.application(head, args);
+        }
+        finally {
+            head.release();
+            for (const arg of args) {
+                arg.release();
+            }
+        }
+    }
+    /**
+     * The precedence of the expression, which is ATOMIC_PRECEDENCE for function applications.
+     */
+    precedence(expr: U): number {
+        if (is_cons(expr)) {
+            const entry = this.#entry(expr);
+            if (entry) {
+                return typeof entry.precedence === 'number' ? entry.precedence : entry.precedence(expr);
+            }
+        }
+        else if (is_atom(expr)) {
+            return this.atomPrecedence(expr);
+        }
+        return ATOMIC_PRECEDENCE;
+    }
+    /**
+     * Atoms are atomic, except that negative numbers are parenthesized like a negation.
+     */
+    protected atomPrecedence(atom: Atom): number {
+        return `${atom}`.startsWith('-') ? NEGATION_PRECEDENCE : ATOMIC_PRECEDENCE;
+    }
+    /**
+     * Returns the operand if the expression is a negation, (- a), otherwise undefined.
+     * The returned item is reference counted.
+     */
+    negated(expr: U): U | undefined {
+        if (is_cons(expr) && expr.length === 2) {
+            const head = expr.head;
+            try {
+                if (this.keyOf(head) === '-') {
+                    return expr.arg;
+                }
+            }
+            finally {
+                head.release();
+            }
+        }
+        return void 0;
+    }
+    /**
+     * Renders the expression, adding parentheses if its precedence is lower than the minimum.
+     */
+    renderOperand(expr: U, minPrecedence: number): string {
+        const text = this.render(expr);
+        return this.precedence(expr) < minPrecedence ? this.parens(text) : text;
+    }
+    /**
+     * Wraps rendered text in parentheses.
+     */
+    abstract parens(text: string): string;
+    /**
+     * Renders a list with an unregistered operator, e.g. f(x, y).
+     */
+    protected abstract application(head: U, args: U[]): string;
+    /**
+     * Renders an atom with an unregistered type.
+     */
+    protected abstract unknownAtom(atom: Atom): string;
+    /**
+     * Renders the empty list.
+     */
+    protected abstract emptyList(): string;
+}
+
+/**
+ * Calls the function with the arguments of the list (everything but the head), releasing them afterwards.
+ */
+export function with_args<T>(expr: Cons, f: (args: U[]) => T): T {
+    const args = expr.tail();
+    try {
+        return f(args);
+    }
+    finally {
+        for (const arg of args) {
+            arg.release();
+        }
+    }
+}
@@ -0,0 +1,215 @@
+import { ExprMap } from "./hash";
+import { Bindings, instantiate, match, release_bindings } from "./match";
+import { Cons, is_cons, pos_end_items_to_cons, U } from "./tree";
+
+/**
+ * A rewrite rule replaces expressions that match the pattern.
+ * The replacement is either a template, in which the wildcards of the pattern are replaced by their bindings,
+ * or a function that computes the replacement. The function may return undefined to decline the rewrite.
+ * The function must return a reference counted item.
+ */
+export interface Rule {
+    readonly name: string;
+    readonly pattern: U;
+    readonly replacement: U | ((bindings: Bindings, expr: U) => U | undefined);
+}
+
+/**
+ * innermost: Repeatedly rewrites the leftmost innermost redex.
+ * outermost: Repeatedly rewrites the leftmost outermost redex.
+ * bottomup: Repeatedly makes a pass that rewrites the children of each node before the node itself.
+ * topdown: Repeatedly makes a pass that rewrites each node before its children.
+ */
+export type Strategy = 'innermost' | 'outermost' | 'bottomup' | 'topdown';
+
+export interface RewriteOptions {
+    /**
+     * The default is 'innermost'.
+     */
+    strategy?: Strategy;
+    /**
+     * The maximum number of steps (innermost, outermost) or passes (bottomup, topdown). The default is 1000.
+     */
+    maxIterations?: number;
+}
+
+/**
+ * Records that a rule was applied to the subterm at the specified path.
+ * The path is the sequence of item indices from the root, so that [] is the root and [2] is the item(2) of the root.
+ */
+export interface RewriteStep {
+    readonly rule: string;
+    readonly path: number[];
+    readonly iteration: number;
+}
+
+export interface RewriteResult {
+    /**
+     * The rewritten expression. The returned item is reference counted.
+     */
+    readonly expr: U;
+    /**
+     * The number of iterations that changed the expression.
+     */
+    readonly iterations: number;
+    readonly trace: RewriteStep[];
+}
+
+/**
+ * Thrown when rewriting does not reach a fixpoint, either because the iteration limit is exceeded or because a cycle is detected.
+ */
+export class RewriteError extends Error {
+    constructor(message: string, readonly trace: RewriteStep[]) {
+        super(message);
+        this.name = 'RewriteError';
+    }
+}
+
+/**
+ * Rebuilds the list from the (possibly) changed items. Unchanged items are shared.
+ * The mapping function returns undefined for an item that is unchanged.
+ * If once is true, only the first changed item is replaced.
+ * Returns undefined if no item was changed.
+ */
+function map_items(expr: Cons, f: (item: U, index: number) => U | undefined, once: boolean): U | undefined {
+    const items = [...expr];
+    let changed = false;
+    try {
+        for (let i = 0; i < items.length; i++) {
+            if (changed && once) {
+                break;
+            }
+            const replacement = f(items[i], i);
+            if (replacement) {
+                items[i].release();
+                items[i] = replacement;
+                changed = true;
+            }
+        }
+        if (changed) {
+            return pos_end_items_to_cons(expr.pos, expr.end, ...items);
+        }
+        else {
+            return void 0;
+        }
+    }
+    finally {
+        for (const item of items) {
+            item.release();
+        }
+    }
+}
+
+class Rewriter {
+    readonly trace: RewriteStep[] = [];
+    iteration = 0;
+    constructor(private readonly rules: Rule[]) {
+    }
+    /**
+     * Applies the first rule that matches the expression.
+     * Returns undefined if no rule applies.
+     */
+    at(expr: U, path: number[]): U | undefined {
+        for (const rule of this.rules) {
+            const bindings = match(rule.pattern, expr);
+            if (bindings) {
+                try {
+                    const replacement = rule.replacement;
+                    const result = typeof replacement === 'function' ? replacement(bindings, expr) : instantiate(replacement, bindings);
+                    if (result) {
+                        this.trace.push({ rule: rule.name, path, iteration: this.iteration });
+                        return result;
+                    }
+                }
+                finally {
+                    release_bindings(bindings);
+                }
+            }
+        }
+        return void 0;
+    }
+    topdown(expr: U, path: number[]): U | undefined {
+        const rewritten = this.at(expr, path);
+        const current = rewritten ? rewritten : expr;
+        if (is_cons(current)) {
+            const mapped = map_items(current, (item, i) => this.topdown(item, [...path, i]), false);
+            if (mapped) {
+                if (rewritten) {
+                    rewritten.release();
+                }
+                return mapped;
+            }
+        }
+        return rewritten;
+    }
+    bottomup(expr: U, path: number[]): U | undefined {
+        const mapped = is_cons(expr) ? map_items(expr, (item, i) => this.bottomup(item, [...path, i]), false) : void 0;
+        const rewritten = this.at(mapped ? mapped : expr, path);
+        if (rewritten) {
+            if (mapped) {
+                mapped.release();
+            }
+            return rewritten;
+        }
+        return mapped;
+    }
+    outermost(expr: U, path: number[]): U | undefined {
+        const rewritten = this.at(expr, path);
+        if (rewritten) {
+            return rewritten;
+        }
+        if (is_cons(expr)) {
+            return map_items(expr, (item, i) => this.outermost(item, [...path, i]), true);
+        }
+        return void 0;
+    }
+    innermost(expr: U, path: number[]): U | undefined {
+        if (is_cons(expr)) {
+            const mapped = map_items(expr, (item, i) => this.innermost(item, [...path, i]), true);
+            if (mapped) {
+                return mapped;
+            }
+        }
+        return this.at(expr, path);
+    }
+}
+
+/**
+ * Rewrites the expression using the rules until no rule applies (a fixpoint).
+ * When more than one rule matches a subterm, the first one in the rules array is used.
+ * Throws a RewriteError if the iteration limit is exceeded or if an expression recurs (a cycle).
+ */
+export function rewrite(expr: U, rules: Rule[], options: RewriteOptions = {}): RewriteResult {
+    const strategy = options.strategy ? options.strategy : 'innermost';
+    const maxIterations = typeof options.maxIterations === 'number' ? options.maxIterations : 1000;
+    const rewriter = new Rewriter(rules);
+    // The expressions produced so far, for cycle detection.
+    const seen = new ExprMap<boolean>();
+    seen.set(expr, true);
+    let current = expr;
+    current.addRef();
+    try {
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            const next = rewriter[strategy](current, []);
+            if (!next) {
+                current.addRef();
+                return { expr: current, iterations: rewriter.iteration, trace: rewriter.trace };
+            }
+            current.release();
+            current = next;
+            if (rewriter.iteration >= maxIterations) {
+                throw new RewriteError(`Exceeded the limit of ${maxIterations} iterations`, rewriter.trace);
+            }
+            rewriter.iteration++;
+            if (seen.has(next)) {
+                throw new RewriteError(`Cycle detected after ${rewriter.iteration} iterations: ${next}`, rewriter.trace);
+            }
+            seen.set(next, true);
+        }
+    }
+    finally {
+        current.release();
+        seen.clear();
+    }
+}
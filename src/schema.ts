@@ -0,0 +1,255 @@
+import { Boo, Flt, is_boo, is_flt, is_rat, is_str, is_sym, Rat, Str, Sym } from "./atoms";
+import { Cons0, Cons1, Cons2, Cons3, Cons4 } from "./helpers";
+import { print_sexpr } from "./printer";
+import { Atom, Cons, is_atom, is_cons, is_nil, U } from "./tree";
+
+/**
+ * A problem found by a schema. The pos and end properties are those of the offending subterm, if known,
+ * and the path is the index of the item at each level from the validated expression to the subterm.
+ */
+export class SchemaError extends Error {
+    constructor(message: string, readonly path: readonly number[], readonly pos: number | undefined, readonly end: number | undefined) {
+        super(typeof pos === 'number' ? `${message} at ${pos}` : message);
+        this.name = 'SchemaError';
+    }
+}
+
+/**
+ * A runtime description of the shape of an expression of type T.
+ * Schemas are constructed using the functions of this module and combined to describe nested expressions.
+ */
+export interface Schema<T extends U = U> {
+    /**
+     * A short description of the expected shape, e.g. (+ rat any), which is used in error messages.
+     */
+    readonly description: string;
+    /**
+     * Appends the problems with the expression to the errors.
+     * The path is that of the expression and is only valid during the call.
+     * The expression is borrowed.
+     */
+    check(expr: U, path: number[], errors: SchemaError[]): void;
+    /**
+     * Not used at runtime; carries the type that the schema describes.
+     */
+    readonly __type?: T;
+}
+
+/**
+ * The type of expression described by a schema.
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function mismatch(description: string, expr: U, path: number[]): SchemaError {
+    return new SchemaError(`Expected ${description} but found ${print_sexpr(expr)}`, path.slice(), expr.pos, expr.end);
+}
+
+/**
+ * Returns a schema for the expressions that satisfy the type guard.
+ */
+export function predicate<T extends U>(description: string, guard: (expr: U) => expr is T): Schema<T> {
+    return {
+        description,
+        check(expr: U, path: number[], errors: SchemaError[]): void {
+            if (!guard(expr)) {
+                errors.push(mismatch(description, expr, path));
+            }
+        }
+    };
+}
+
+/**
+ * Returns a schema for any expression.
+ */
+export function any(): Schema<U> {
+    return predicate('any', (expr: U): expr is U => true);
+}
+
+/**
+ * Returns a schema for a symbol, with the specified key if provided.
+ */
+export function sym(key?: string): Schema<Sym> {
+    if (typeof key === 'string') {
+        return predicate(key, (expr: U): expr is Sym => is_sym(expr) && expr.key === key);
+    }
+    return predicate('sym', is_sym);
+}
+
+/**
+ * Returns a schema for an atom, with the specified type if provided, e.g. 'rat'.
+ */
+export function atom(type?: string): Schema<Atom> {
+    if (typeof type === 'string') {
+        return predicate(type, (expr: U): expr is Atom => is_atom(expr) && expr.type === type);
+    }
+    return predicate('atom', is_atom);
+}
+
+export function rat(): Schema<Rat> {
+    return predicate('rat', is_rat);
+}
+
+export function flt(): Schema<Flt> {
+    return predicate('flt', is_flt);
+}
+
+export function str(): Schema<Str> {
+    return predicate('str', is_str);
+}
+
+export function boo(): Schema<Boo> {
+    return predicate('boo', is_boo);
+}
+
+/**
+ * Returns a schema for the empty list.
+ */
+export function empty(): Schema<Cons> {
+    return predicate('()', (expr: U): expr is Cons => is_nil(expr));
+}
+
+/**
+ * Returns a schema for the expressions that satisfy any of the schemas.
+ * If none is satisfied, a single error describing the alternatives is reported.
+ */
+export function one_of<S extends Schema[]>(...schemas: S): Schema<Infer<S[number]>> {
+    const description = schemas.map(schema => schema.description).join(' | ');
+    return {
+        description,
+        check(expr: U, path: number[], errors: SchemaError[]): void {
+            for (const schema of schemas) {
+                const problems: SchemaError[] = [];
+                schema.check(expr, path, problems);
+                if (problems.length === 0) {
+                    return;
+                }
+            }
+            errors.push(mismatch(description, expr, path));
+        }
+    };
+}
+
+function head_schema(head: Schema | string): Schema {
+    return typeof head === 'string' ? sym(head) : head;
+}
+
+/**
+ * Returns a schema for a list with the head, the arguments, and, if rest is specified, any number of further arguments.
+ * The head may be specified by the key of a symbol.
+ * A list with the wrong number of arguments is reported once; the arguments that are present are still checked.
+ */
+export function list(head: Schema | string, args: Schema[], rest?: Schema): Schema<Cons> {
+    const opr = head_schema(head);
+    const parts = [opr.description, ...args.map(arg => arg.description)];
+    if (rest) {
+        parts.push(`${rest.description}...`);
+    }
+    const description = `(${parts.join(' ')})`;
+    return {
+        description,
+        check(expr: U, path: number[], errors: SchemaError[]): void {
+            if (!is_cons(expr)) {
+                errors.push(mismatch(description, expr, path));
+                return;
+            }
+            const items = [...expr];
+            try {
+                const count = items.length - 1;
+                if (rest ? count < args.length : count !== args.length) {
+                    const expected = rest ? `at least ${args.length}` : `${args.length}`;
+                    const message = `Expected ${expected} argument${args.length === 1 ? '' : 's'} for ${description} but found ${count} in ${print_sexpr(expr)}`;
+                    errors.push(new SchemaError(message, path.slice(), expr.pos, expr.end));
+                }
+                items.forEach(function (item, i) {
+                    const schema = i === 0 ? opr : i <= args.length ? args[i - 1] : rest;
+                    if (schema) {
+                        path.push(i);
+                        try {
+                            schema.check(item, path, errors);
+                        }
+                        finally {
+                            path.pop();
+                        }
+                    }
+                });
+            }
+            finally {
+                for (const item of items) {
+                    item.release();
+                }
+            }
+        }
+    };
+}
+
+/**
+ * Returns a schema for a list with the head and any number of arguments, each of which satisfies the schema for items.
+ */
+export function variadic<O extends U, A extends U>(head: Schema<O>, items: Schema<A>): Schema<Cons0<O>>;
+export function variadic<A extends U>(head: string, items: Schema<A>): Schema<Cons0<Sym>>;
+export function variadic(head: Schema | string, items: Schema): Schema<Cons> {
+    return list(head, [], items);
+}
+
+export function cons0<O extends U>(head: Schema<O>): Schema<Cons0<O>>;
+export function cons0(head: string): Schema<Cons0<Sym>>;
+export function cons0(head: Schema | string): Schema<Cons> {
+    return list(head, []);
+}
+
+export function cons1<O extends U, A extends U>(head: Schema<O>, a: Schema<A>): Schema<Cons1<O, A>>;
+export function cons1<A extends U>(head: string, a: Schema<A>): Schema<Cons1<Sym, A>>;
+export function cons1(head: Schema | string, a: Schema): Schema<Cons> {
+    return list(head, [a]);
+}
+
+export function cons2<O extends U, A extends U, B extends U>(head: Schema<O>, a: Schema<A>, b: Schema<B>): Schema<Cons2<O, A, B>>;
+export function cons2<A extends U, B extends U>(head: string, a: Schema<A>, b: Schema<B>): Schema<Cons2<Sym, A, B>>;
+export function cons2(head: Schema | string, a: Schema, b: Schema): Schema<Cons> {
+    return list(head, [a, b]);
+}
+
+export function cons3<O extends U, A extends U, B extends U, C extends U>(head: Schema<O>, a: Schema<A>, b: Schema<B>, c: Schema<C>): Schema<Cons3<O, A, B, C>>;
+export function cons3<A extends U, B extends U, C extends U>(head: string, a: Schema<A>, b: Schema<B>, c: Schema<C>): Schema<Cons3<Sym, A, B, C>>;
+export function cons3(head: Schema | string, a: Schema, b: Schema, c: Schema): Schema<Cons> {
+    return list(head, [a, b, c]);
+}
+
+export function cons4<O extends U, A extends U, B extends U, C extends U, D extends U>(head: Schema<O>, a: Schema<A>, b: Schema<B>, c: Schema<C>, d: Schema<D>): Schema<Cons4<O, A, B, C, D>>;
+export function cons4<A extends U, B extends U, C extends U, D extends U>(head: string, a: Schema<A>, b: Schema<B>, c: Schema<C>, d: Schema<D>): Schema<Cons4<Sym, A, B, C, D>>;
+export function cons4(head: Schema | string, a: Schema, b: Schema, c: Schema, d: Schema): Schema<Cons> {
+    return list(head, [a, b, c, d]);
+}
+
+/**
+ * Returns the problems with the expression, in the order of the subterms, or an empty array if it conforms to the schema.
+ */
+export function validate(schema: Schema, expr: U): SchemaError[] {
+    const errors: SchemaError[] = [];
+    schema.check(expr, [], errors);
+    return errors;
+}
+
+/**
+ * Determines whether the expression conforms to the schema.
+ */
+export function conforms<T extends U>(schema: Schema<T>, expr: U): expr is T {
+    return validate(schema, expr).length === 0;
+}
+
+/**
+ * Returns a type guard for the schema, e.g. guard(cons2('+', any(), any())) narrows to Cons2<Sym, U, U>.
+ */
+export function guard<T extends U>(schema: Schema<T>): (expr: U) => expr is T {
+    return (expr: U): expr is T => conforms(schema, expr);
+}
+
+/**
+ * Throws the first problem with the expression if it does not conform to the schema.
+ */
+export function assert_conforms<T extends U>(schema: Schema<T>, expr: U): asserts expr is T {
+    const errors = validate(schema, expr);
+    if (errors.length > 0) {
+        throw errors[0];
+    }
+}
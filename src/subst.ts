@@ -0,0 +1,346 @@
+import { create_sym, is_sym } from "./atoms";
+import { ExprMap } from "./hash";
+import { operator_key } from "./printer";
+import { Provenance } from "./provenance";
+import { is_cons, pos_end_items_to_cons, U } from "./tree";
+
+/**
+ * Describes a binding form by item positions, where the head of the list is at position 0.
+ * e.g. for (lambda x body) the variables are at position 1 and the scope is [2],
+ * and for (integral f x a b) the variables are at position 2 and the scope is [1], so the limits a and b are not in scope.
+ */
+export interface BinderSpec {
+    /**
+     * The position of the bound variable, or of a list of bound variables.
+     */
+    readonly variables: number;
+    /**
+     * The positions of the items in which the variables are bound.
+     */
+    readonly scope: readonly number[];
+}
+
+/**
+ * The binding forms, keyed by the operator key of the head.
+ */
+export class BinderRegistry {
+    readonly #binders = new Map<string, BinderSpec>();
+    add(key: string, spec: BinderSpec): this {
+        this.#binders.set(key, spec);
+        return this;
+    }
+    find(key: string): BinderSpec | undefined {
+        return this.#binders.get(key);
+    }
+    /**
+     * Returns a new registry containing the same binding forms.
+     */
+    clone(): BinderRegistry {
+        const registry = new BinderRegistry();
+        for (const [key, spec] of this.#binders) {
+            registry.add(key, spec);
+        }
+        return registry;
+    }
+}
+
+/**
+ * Returns a new registry containing (lambda vars body), (integral f x ...), (sum f k ...) and (forall vars body).
+ */
+export function default_binders(): BinderRegistry {
+    return new BinderRegistry()
+        .add('lambda', { variables: 1, scope: [2] })
+        .add('integral', { variables: 2, scope: [1] })
+        .add('sum', { variables: 2, scope: [1] })
+        .add('forall', { variables: 1, scope: [2] });
+}
+
+export interface SubstOptions {
+    /**
+     * The default is default_binders().
+     */
+    binders?: BinderRegistry;
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+    /**
+     * Determines whether an expression is a variable. The default is is_sym.
+     * Bound variables must be symbols if they are to be renamed to avoid capture.
+     */
+    isVariable?: (expr: U) => boolean;
+    /**
+     * Records each rebuilt list as derived from the list that it replaces.
+     */
+    provenance?: Provenance;
+}
+
+function release_all(items: U[]): void {
+    for (const item of items) {
+        item.release();
+    }
+}
+
+/**
+ * Provides the binder lookup shared by substitution and free variable analysis.
+ */
+class Scoping {
+    readonly binders: BinderRegistry;
+    readonly keyOf: (head: U) => string | undefined;
+    readonly isVariable: (expr: U) => boolean;
+    constructor(options: SubstOptions) {
+        this.binders = options.binders ? options.binders : default_binders();
+        this.keyOf = options.keyOf ? options.keyOf : operator_key;
+        this.isVariable = options.isVariable ? options.isVariable : is_sym;
+    }
+    /**
+     * Returns the binding form for a list with the specified items, if the head is a binder and the variables are present.
+     */
+    binder(items: U[]): BinderSpec | undefined {
+        const key = items.length > 0 ? this.keyOf(items[0]) : void 0;
+        const spec = typeof key === 'string' ? this.binders.find(key) : void 0;
+        return spec && spec.variables < items.length ? spec : void 0;
+    }
+    /**
+     * Returns the variables bound by the item at the variables position, which is a variable or a list of variables.
+     * The returned items are reference counted.
+     */
+    boundVariables(item: U): U[] {
+        if (this.isVariable(item)) {
+            item.addRef();
+            return [item];
+        }
+        else if (is_cons(item)) {
+            const variables: U[] = [];
+            for (const v of item) {
+                if (this.isVariable(v)) {
+                    variables.push(v);
+                }
+                else {
+                    v.release();
+                }
+            }
+            return variables;
+        }
+        else {
+            return [];
+        }
+    }
+}
+
+class Substituter extends Scoping {
+    readonly #provenance: Provenance | undefined;
+    /**
+     * The keys of the symbols that must not be used for renamed variables.
+     */
+    readonly #avoid = new Set<string>();
+    constructor(options: SubstOptions, exprs: U[]) {
+        super(options);
+        this.#provenance = options.provenance;
+        for (const expr of exprs) {
+            this.#collectKeys(expr);
+        }
+    }
+    #collectKeys(expr: U): void {
+        if (is_sym(expr)) {
+            this.#avoid.add(expr.key);
+        }
+        else if (is_cons(expr)) {
+            for (const item of expr) {
+                try {
+                    this.#collectKeys(item);
+                }
+                finally {
+                    item.release();
+                }
+            }
+        }
+    }
+    /**
+     * Returns a variable, based on the specified variable, that does not occur in any of the expressions.
+     * The returned item is reference counted.
+     */
+    fresh(v: U): U {
+        if (!is_sym(v)) {
+            throw new Error(`Unable to rename the bound variable ${v} to avoid capture.`);
+        }
+        for (let n = 1; ; n++) {
+            const key = `${v.key}_${n}`;
+            if (!this.#avoid.has(key)) {
+                this.#avoid.add(key);
+                return create_sym(key);
+            }
+        }
+    }
+    /**
+     * The returned item is reference counted.
+     */
+    subst(expr: U, substitutions: [from: U, to: U][]): U {
+        for (const [from, to] of substitutions) {
+            if (expr === from || expr.equals(from)) {
+                to.addRef();
+                return to;
+            }
+        }
+        if (substitutions.length === 0 || !is_cons(expr)) {
+            expr.addRef();
+            return expr;
+        }
+        const items = [...expr];
+        try {
+            const spec = this.binder(items);
+            const results = spec ? this.#binder(items, spec, substitutions) : items.map(item => this.subst(item, substitutions));
+            try {
+                if (results.every((result, i) => result === items[i])) {
+                    expr.addRef();
+                    return expr;
+                }
+                const rebuilt = pos_end_items_to_cons(expr.pos, expr.end, ...results);
+                if (this.#provenance) {
+                    this.#provenance.record(rebuilt, expr);
+                }
+                return rebuilt;
+            }
+            finally {
+                release_all(results);
+            }
+        }
+        finally {
+            release_all(items);
+        }
+    }
+    /**
+     * Substitutes in the items of a binding form.
+     * The returned items are reference counted.
+     */
+    #binder(items: U[], spec: BinderSpec, substitutions: [from: U, to: U][]): U[] {
+        const variables = this.boundVariables(items[spec.variables]);
+        /**
+         * The renaming of each bound variable that would capture a replacement.
+         */
+        const renames: [from: U, to: U][] = [];
+        try {
+            // Substitutions that involve a bound variable do not apply within the scope.
+            const active = substitutions.filter(([from]) => !variables.some(v => from.equals(v) || from.contains(v)));
+            for (const v of variables) {
+                const captured = active.some(([from, to]) => to.contains(v) && spec.scope.some(i => i < items.length && items[i].contains(from)));
+                if (captured) {
+                    renames.push([v, this.fresh(v)]);
+                }
+            }
+            // The renaming and the substitutions are applied simultaneously, so that the renamed variables are not substituted.
+            const scoped = [...renames, ...active];
+            return items.map((item, i) => {
+                if (i === 0) {
+                    item.addRef();
+                    return item;
+                }
+                else if (i === spec.variables) {
+                    return this.subst(item, renames);
+                }
+                else {
+                    return this.subst(item, spec.scope.includes(i) ? scoped : substitutions);
+                }
+            });
+        }
+        finally {
+            for (const [, renamed] of renames) {
+                renamed.release();
+            }
+            release_all(variables);
+        }
+    }
+}
+
+/**
+ * Replaces the occurrences of from in the expression by to. Occurrences are found using equals.
+ * See subst_all.
+ * The returned item is reference counted.
+ */
+export function subst(expr: U, from: U, to: U, options: SubstOptions = {}): U {
+    return subst_all(expr, [[from, to]], options);
+}
+
+/**
+ * Replaces the occurrences of each from expression by the corresponding to expression, simultaneously,
+ * i.e. the replacements are not themselves subject to substitution.
+ *
+ * Within the scope of a binding form, substitutions for (or involving) the bound variables are not applied, and a bound variable
+ * that occurs in a replacement is renamed to a fresh variable (e.g. x becomes x_1) so that it does not capture the replacement.
+ *
+ * Lists that are unchanged are shared with the original expression, and rebuilt lists keep their pos and end properties.
+ * The returned item is reference counted.
+ */
+export function subst_all(expr: U, substitutions: [from: U, to: U][], options: SubstOptions = {}): U {
+    const substituter = new Substituter(options, [expr, ...substitutions.flat()]);
+    return substituter.subst(expr, substitutions);
+}
+
+function collect_free(scoping: Scoping, expr: U, bound: U[], head: boolean, operators: boolean, found: ExprMap<boolean>, variables: U[]): void {
+    if (scoping.isVariable(expr)) {
+        if ((!head || operators) && !found.has(expr) && !bound.some(v => v.equals(expr))) {
+            found.set(expr, true);
+            expr.addRef();
+            variables.push(expr);
+        }
+    }
+    else if (is_cons(expr)) {
+        const items = [...expr];
+        try {
+            const spec = scoping.binder(items);
+            const inner = spec ? scoping.boundVariables(items[spec.variables]) : [];
+            try {
+                items.forEach(function (item, i) {
+                    if (spec && i === spec.variables) {
+                        return;
+                    }
+                    const scoped = spec && spec.scope.includes(i);
+                    collect_free(scoping, item, scoped ? [...bound, ...inner] : bound, i === 0, operators, found, variables);
+                });
+            }
+            finally {
+                release_all(inner);
+            }
+        }
+        finally {
+            release_all(items);
+        }
+    }
+}
+
+export interface FreeVariablesOptions extends SubstOptions {
+    /**
+     * Whether variables in the head (operator) position of a list are included. The default is false.
+     */
+    operators?: boolean;
+}
+
+/**
+ * Returns the variables that occur free in the expression, i.e. not within the scope of a binding form that binds them,
+ * in order of first occurrence and without duplicates.
+ * The returned items are reference counted.
+ */
+export function free_variables(expr: U, options: FreeVariablesOptions = {}): U[] {
+    const found = new ExprMap<boolean>();
+    const variables: U[] = [];
+    try {
+        collect_free(new Scoping(options), expr, [], false, !!options.operators, found, variables);
+        return variables;
+    }
+    finally {
+        found.clear();
+    }
+}
+
+/**
+ * Determines whether the variable occurs free in the expression. See free_variables.
+ */
+export function is_free_in(variable: U, expr: U, options: FreeVariablesOptions = {}): boolean {
+    const variables = free_variables(expr, options);
+    try {
+        return variables.some(v => v.equals(variable));
+    }
+    finally {
+        release_all(variables);
+    }
+}
@@ -15,6 +15,11 @@ export interface U extends Shareable {
     equals(other: U): boolean;
     get iscons(): boolean;
     get isnil(): boolean;
+    /**
+     * A structural hash that is consistent with equals, i.e. equal expressions have equal hashes.
+     * Expressions that do not provide a hash are hashed using their type (see hash_of).
+     */
+    readonly hash?: number;
     pos?: number;
     end?: number;
 }
@@ -32,14 +37,210 @@ export function is_singleton(expr: Cons): boolean {
         return false;
     }
     const cdr_expr = expr.cdr;
-    if (cdr_expr.isnil) {
-        return true;
+    try {
+        if (cdr_expr.isnil) {
+            return true;
+        }
+        else {
+            return false;
+        }
     }
-    else {
-        return false;
+    finally {
+        cdr_expr.release();
+    }
+}
+
+/**
+ * Receives notifications about the lifecycle of Cons lists (excluding nil and other empty lists).
+ * Installing a tracker also enables checks for releasing, or using, a Cons that has been destroyed.
+ */
+export interface ConsTracker {
+    allocated(node: Cons): void;
+    destroyed(node: Cons): void;
+}
+
+let tracker: ConsTracker | undefined;
+
+/**
+ * Installs (or removes, if undefined) the tracker that is notified of Cons allocation and destruction.
+ * Returns the previously installed tracker.
+ */
+export function set_cons_tracker(next: ConsTracker | undefined): ConsTracker | undefined {
+    const previous = tracker;
+    tracker = next;
+    return previous;
+}
+
+export interface ConsPoolStats {
+    /**
+     * The maximum number of cells held by the pool.
+     */
+    capacity: number;
+    /**
+     * The number of cells held by the pool.
+     */
+    size: number;
+    /**
+     * The number of destroyed cells added to the pool.
+     */
+    recycled: number;
+    /**
+     * The number of cells taken from the pool instead of being allocated.
+     */
+    reused: number;
+}
+
+/**
+ * Sets the maximum number of destroyed Cons cells that are kept for reuse and returns the previous capacity.
+ * The default capacity is zero, which disables pooling. Reducing the capacity discards the excess cells.
+ *
+ * Pooled cells are reused by cons, items_to_cons, and the list operations of Cons, but not by the Cons constructor.
+ * Because a cell may be reused as soon as it is destroyed, a reference that is used after it has been released
+ * may observe an unrelated list. Cells are not recycled while a tracker is installed, so that such errors are still detected.
+ * For the same reason, a table keyed by identity that does not hold references to its keys must pin them (see pin_cons).
+ */
+export function set_cons_pool_capacity(capacity: number): number {
+    if (!(capacity >= 0)) {
+        throw new Error(`capacity must be a non-negative number but was ${capacity}`);
+    }
+    const previous = poolCapacity;
+    poolCapacity = capacity;
+    if (pool.length > capacity) {
+        pool.length = capacity;
+    }
+    return previous;
+}
+
+/**
+ * Prevents the list cell from being recycled by the pool when it is destroyed, so that a table that refers to the cell
+ * by identity without holding a reference (e.g. a WeakMap, as used by Provenance) never finds it reused for another list.
+ * Empty lists are never recycled, so they need not be pinned.
+ */
+export function pin_cons(node: Cons): void {
+    if (node.iscons) {
+        pinned.add(node);
+    }
+}
+
+export function cons_pool_stats(): ConsPoolStats {
+    return { capacity: poolCapacity, size: pool.length, recycled: poolRecycled, reused: poolReused };
+}
+
+/**
+ * Runs f in an arena scope and returns its result.
+ * When the scope ends, every Cons allocated in the scope that is not part of the result is destroyed at once,
+ * whether or not it was released, and its cell is recycled if pooling is enabled (see set_cons_pool_capacity).
+ * The reference counts of the lists of the result that were allocated in the scope are reduced to the number of references
+ * from within the result, plus one for the result itself. This allows temporary lists to be built without releasing them.
+ * If f throws, every Cons allocated in the scope is destroyed.
+ *
+ * Lists allocated in the scope must not be retained beyond it, other than through the result.
+ * Arena scopes may be nested, in which case the result belongs to the enclosing scope.
+ * The returned item is reference counted.
+ */
+export function with_cons_arena<T extends U>(f: () => T): T {
+    const nodes = new Set<Cons>();
+    arenas.push(nodes);
+    let result: T | undefined;
+    try {
+        result = f();
+        return result;
+    }
+    finally {
+        arenas.pop();
+        free_arena(nodes, result);
     }
 }
 
+/**
+ * Destroys the nodes that are not reachable from the result, and moves the others to the enclosing arena, if any.
+ */
+function free_arena(nodes: Set<Cons>, result: U | undefined): void {
+    /**
+     * The number of references to each kept node from the result and the other kept nodes.
+     */
+    const kept = new Map<Cons, number>();
+    /**
+     * Managed lists are not allocated in the arena, but they may contain lists that are.
+     */
+    const managed = new Set<Cons>();
+    const stack: U[] = result ? [result] : [];
+    while (stack.length > 0) {
+        const expr = stack.pop() as U;
+        if (!is_cons(expr)) {
+            continue;
+        }
+        let first = false;
+        if (expr.managed) {
+            first = !managed.has(expr);
+            managed.add(expr);
+        }
+        else if (nodes.has(expr)) {
+            const count = kept.get(expr);
+            kept.set(expr, typeof count === 'number' ? count + 1 : 1);
+            first = typeof count !== 'number';
+        }
+        if (first) {
+            // The items are borrowed; they are held by expr.
+            const head = expr.car;
+            const rest = expr.cdr;
+            head.release();
+            rest.release();
+            stack.push(rest, head);
+        }
+    }
+    for (const node of nodes) {
+        if (!kept.has(node)) {
+            // Releasing a node releases its car and cdr, so the references from destroyed nodes to kept nodes are dropped.
+            // The count is read once, so that the loop ends even if the cell is recycled while it is being released.
+            for (let n = node.managed ? 0 : node.refCount; n > 0; n--) {
+                node.release();
+            }
+        }
+    }
+    for (const [node, count] of kept) {
+        for (let n = node.refCount - count; n > 0; n--) {
+            node.release();
+        }
+    }
+    if (arenas.length > 0) {
+        const outer = arenas[arenas.length - 1];
+        for (const node of kept.keys()) {
+            outer.add(node);
+        }
+    }
+}
+
+/**
+ * The lists whose reference count has reached zero and which are waiting for their car and cdr to be released.
+ */
+const destroying: Cons[] = [];
+let draining = false;
+
+/**
+ * The destroyed cells that are available for reuse (see set_cons_pool_capacity).
+ */
+const pool: Cons[] = [];
+let poolCapacity = 0;
+let poolRecycled = 0;
+let poolReused = 0;
+/**
+ * The cells that must not be recycled (see pin_cons).
+ */
+const pinned = new WeakSet<Cons>();
+
+/**
+ * The nodes allocated in each of the active arena scopes, innermost last (see with_cons_arena).
+ */
+const arenas: Set<Cons>[] = [];
+
+/**
+ * Returns a new list cell, reusing a pooled cell if one is available.
+ * This is assigned by Cons, because resetting a pooled cell requires access to its private fields.
+ * The returned item is reference counted.
+ */
+let allocate: (car: U, cdr: Cons, pos: number | undefined, end: number | undefined, managed: boolean) => Cons;
+
 /**
  * Symbolic expressions are built by connecting Cons structures.
  *
@@ -70,7 +271,36 @@ export class Cons implements U {
     #car: U | undefined;
     #cdr: Cons | undefined;
     #refCount = 1;
-    constructor(car: U | undefined, cdr: Cons | undefined, public readonly pos?: number, public readonly end?: number) {
+    #hash: number | undefined;
+    #pos: number | undefined;
+    #end: number | undefined;
+    #managed = false;
+    static {
+        allocate = function (car: U, cdr: Cons, pos: number | undefined, end: number | undefined, managed: boolean): Cons {
+            const node = pool.pop();
+            if (node) {
+                poolReused++;
+                // The cell may still be in the arena in which it was allocated before it was recycled.
+                for (const nodes of arenas) {
+                    nodes.delete(node);
+                }
+                node.#refCount = 1;
+                node.#init(car, cdr, pos, end, managed);
+                return node;
+            }
+            return new Cons(car, cdr, pos, end, managed);
+        };
+    }
+    /**
+     * If managed is true, the list is left to the garbage collector: addRef and release are no-ops, so the list is never
+     * destroyed, and the lists derived from it by its methods (map, slice, etc.) are also managed.
+     * A managed list holds a reference to its car and cdr for as long as it exists.
+     */
+    constructor(car: U | undefined, cdr: Cons | undefined, pos?: number, end?: number, managed = false) {
+        this.#init(car, cdr, pos, end, managed);
+    }
+    #init(car: U | undefined, cdr: Cons | undefined, pos: number | undefined, end: number | undefined, managed: boolean): void {
+        this.#managed = managed;
         if (car) {
             car.addRef();
             this.#car = car;
@@ -79,6 +309,28 @@ export class Cons implements U {
             cdr.addRef();
             this.#cdr = cdr;
         }
+        this.#pos = pos;
+        this.#end = end;
+        if (this.#car && !managed) {
+            if (tracker) {
+                tracker.allocated(this);
+            }
+            if (arenas.length > 0) {
+                arenas[arenas.length - 1].add(this);
+            }
+        }
+    }
+    /**
+     * Clears a destroyed cell and adds it to the pool.
+     */
+    #recycle(): void {
+        this.#car = void 0;
+        this.#cdr = void 0;
+        this.#hash = void 0;
+        this.#pos = void 0;
+        this.#end = void 0;
+        pool.push(this);
+        poolRecycled++;
     }
     #destructor(): void {
         if (this.#car) {
@@ -90,15 +342,70 @@ export class Cons implements U {
             // this.#cdr = void 0;
         }
     }
+    /**
+     * Throws if this list has been destroyed. Only checked when a tracker is installed.
+     * The empty lists are exempt because nil is returned by the car and cdr getters without reference counting.
+     */
+    #assert_alive(operation: string): void {
+        if (tracker && this.#car && this.#refCount <= 0) {
+            throw new Error(`${operation} called on a destroyed Cons ${this}`);
+        }
+    }
     addRef(): void {
+        if (this.#managed) {
+            return;
+        }
+        this.#assert_alive('addRef()');
         this.#refCount++;
     }
     release(): void {
+        if (this.#managed) {
+            return;
+        }
+        this.#assert_alive('release()');
         this.#refCount--;
         if (this.#refCount == 0) {
-            this.#destructor();
+            // Destroying a list releases its cdr, which may destroy the cdr, and so on.
+            // The destruction is queued and drained by the outermost release so that the stack depth is bounded.
+            destroying.push(this);
+            if (!draining) {
+                draining = true;
+                try {
+                    while (destroying.length > 0) {
+                        const node = destroying.pop() as Cons;
+                        node.#destructor();
+                        if (tracker && node.#car) {
+                            tracker.destroyed(node);
+                        }
+                        else if (node.#car && pool.length < poolCapacity && !pinned.has(node)) {
+                            node.#recycle();
+                        }
+                    }
+                }
+                finally {
+                    draining = false;
+                }
+            }
         }
     }
+    get pos(): number | undefined {
+        return this.#pos;
+    }
+    /**
+     * Determines whether this list is left to the garbage collector rather than reference counted (see the constructor).
+     */
+    get managed(): boolean {
+        return this.#managed;
+    }
+    get end(): number | undefined {
+        return this.#end;
+    }
+    /**
+     * The current reference count. Provided for diagnostics.
+     */
+    get refCount(): number {
+        return this.#refCount;
+    }
     get name(): 'Cons' | 'Nil' {
         if (this.#car) {
             return 'Cons';
@@ -112,6 +419,7 @@ export class Cons implements U {
      * The returned item is reference counted.
      */
     get car(): U {
+        this.#assert_alive('car');
         if (this.#car) {
             this.#car.addRef();
             return this.#car;
@@ -125,6 +433,7 @@ export class Cons implements U {
      * The returned item is reference counted.
      */
     get cdr(): Cons {
+        this.#assert_alive('cdr');
         if (this.#cdr) {
             const cdr = assert_cons_or_nil(this.#cdr);
             cdr.addRef();
@@ -147,20 +456,72 @@ export class Cons implements U {
      */
     get base(): U {
         const argList = this.argList;
-        return argList.head;
+        try {
+            return argList.head;
+        }
+        finally {
+            argList.release();
+        }
     }
     /**
      * An convenience for cdr.cdr.car for use with (power base expo) expressions.
      */
     get expo(): U {
-        return this.cdr.cdr.car;
+        const argList = this.argList;
+        try {
+            const rest = argList.rest;
+            try {
+                return rest.head;
+            }
+            finally {
+                rest.release();
+            }
+        }
+        finally {
+            argList.release();
+        }
     }
-    contains(needle: U): boolean {
-        if (this === needle || this.equals(needle)) {
-            return true;
+    /**
+     * The structural hash of this list, computed once and cached.
+     */
+    get hash(): number {
+        if (typeof this.#hash === 'number') {
+            return this.#hash;
         }
-        if (this.#car && this.#cdr) {
-            return this.#car.contains(needle) || this.#cdr.contains(needle);
+        // Walk the cdr chain iteratively so that long lists don't exhaust the stack.
+        const spine: Cons[] = [];
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let node: Cons | undefined = this;
+        while (node && typeof node.#hash !== 'number') {
+            spine.push(node);
+            node = node.#cdr;
+        }
+        let h = node ? node.#hash as number : NIL_HASH;
+        for (let i = spine.length - 1; i >= 0; i--) {
+            const cell = spine[i];
+            h = cell.#car ? hash_combine(hash_of(cell.#car), h) : NIL_HASH;
+            cell.#hash = h;
+        }
+        return h;
+    }
+    /**
+     * Determines whether the needle is equal to this list, any sublist (including tails), or any item at any depth.
+     */
+    contains(needle: U): boolean {
+        const stack: U[] = [this];
+        while (stack.length > 0) {
+            const expr = stack.pop() as U;
+            if (expr instanceof Cons) {
+                if (expr === needle || expr.equals(needle)) {
+                    return true;
+                }
+                if (expr.#car && expr.#cdr) {
+                    stack.push(expr.#cdr, expr.#car);
+                }
+            }
+            else if (expr.contains(needle)) {
+                return true;
+            }
         }
         return false;
     }
@@ -169,6 +530,9 @@ export class Cons implements U {
             return true;
         }
         if (is_cons(other)) {
+            if (this.hash !== other.hash) {
+                return false;
+            }
             return equal_cons_cons(this, other);
         }
         else if (is_atom(other)) {
@@ -199,14 +563,30 @@ export class Cons implements U {
     }
     public toString(): string {
         // If you call car or cdr you get an infinite loop because nil is a Cons.
-        const head = this.#car;
-        const tail = this.#cdr;
-        if (head) {
-            return `(${head} ${tail})`;
-        }
-        else {
-            return '()';
+        // A work stack of text and nested lists is used rather than recursion so that long lists don't exhaust the stack.
+        const parts: string[] = [];
+        const stack: (string | U)[] = [this];
+        while (stack.length > 0) {
+            const part = stack.pop() as string | U;
+            if (typeof part === 'string') {
+                parts.push(part);
+            }
+            else if (part instanceof Cons) {
+                const head = part.#car;
+                const tail = part.#cdr;
+                if (head) {
+                    parts.push('(');
+                    stack.push(')', tail ? tail : '()', ' ', head);
+                }
+                else {
+                    parts.push('()');
+                }
+            }
+            else {
+                parts.push(`${part}`);
+            }
         }
+        return parts.join('');
     }
     /**
      * Provides an iterator over the Cons, returning the items is the list.
@@ -216,10 +596,24 @@ export class Cons implements U {
      */
     public *[Symbol.iterator]() {
         // eslint-disable-next-line @typescript-eslint/no-this-alias
-        let u: U = this;
-        while (is_cons(u)) {
-            yield u.car;
-            u = u.cdr;
+        let u: Cons = this;
+        // The first node is owned by the caller, the subsequent nodes are owned by the iterator.
+        let owned = false;
+        try {
+            while (is_cons(u)) {
+                yield u.car;
+                const next = u.cdr;
+                if (owned) {
+                    u.release();
+                }
+                u = next;
+                owned = true;
+            }
+        }
+        finally {
+            if (owned) {
+                u.release();
+            }
         }
     }
     /**
@@ -254,29 +648,38 @@ export class Cons implements U {
         }
     }
     /**
-     * Maps the elements of the list using a mapping function.
+     * Maps the elements of the list using a mapping function, which is applied to the items in order.
+     * The pos and end properties of each cell are preserved.
      */
     map(f: (a: U) => U): Cons {
         if (this.isnil) {
             return this;
         }
         else {
-            const a = this.car;
-            const b = this.cdr;
+            const cells: Cons[] = [];
+            const mapped: U[] = [];
             try {
-                const car = f(a);
-                const cdr = is_cons(b) ? b.map(f) : b;  // in the case b is nil, no need to reference count. 
-                try {
-                    return new Cons(car, cdr, this.pos, this.end);
+                // eslint-disable-next-line @typescript-eslint/no-this-alias
+                let cell: Cons = this;
+                while (cell.#car) {
+                    cells.push(cell);
+                    mapped.push(f(cell.#car));
+                    cell = cell.#cdr as Cons;
                 }
-                finally {
-                    car.release();
-                    cdr.release();
+                // The terminating empty list is shared.
+                let result: Cons = cell;
+                result.addRef();
+                for (let i = cells.length - 1; i >= 0; i--) {
+                    const next = allocate(mapped[i], result, cells[i].pos, cells[i].end, this.#managed);
+                    result.release();
+                    result = next;
                 }
+                return result;
             }
             finally {
-                a.release();
-                b.release();
+                for (const item of mapped) {
+                    item.release();
+                }
             }
         }
     }
@@ -284,18 +687,14 @@ export class Cons implements U {
      * Returns the length of the list.
      */
     get length(): number {
-        if (this.isnil) {
-            return 0;
-        }
-        else {
-            const argList = this.argList;
-            if (is_cons(argList)) {
-                return argList.length + 1;
-            }
-            else {
-                return 1;
-            }
+        let length = 0;
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let cell: Cons | undefined = this;
+        while (cell && cell.#car) {
+            length++;
+            cell = cell.#cdr;
         }
+        return length;
     }
     /**
      * A convenience property for the method item(0).
@@ -336,24 +735,13 @@ export class Cons implements U {
      * (item0 item1 item2 ...)
      */
     item(index: number): U {
-        if (index >= 0 && !this.isnil) {
-            if (index === 0) {
-                return this.car;
-            }
-            else {
-                const argList = this.argList;
-                try {
-                    if (is_cons(argList)) {
-                        return argList.item(index - 1);
-                    }
-                    else {
-                        return nil;
-                    }
-                }
-                finally {
-                    argList.release();
-                }
+        if (index >= 0) {
+            // eslint-disable-next-line @typescript-eslint/no-this-alias
+            let cell: Cons | undefined = this;
+            for (let i = 0; i < index && cell && cell.#car; i++) {
+                cell = cell.#cdr;
             }
+            return cell ? cell.car : nil;
         }
         else {
             return nil;
@@ -375,13 +763,250 @@ export class Cons implements U {
     get item4(): U {
         return this.item(4);
     }
+    /**
+     * The non-empty cells of this list, in order. The cells are borrowed.
+     */
+    #cells(): Cons[] {
+        const cells: Cons[] = [];
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let cell: Cons | undefined = this;
+        while (cell && cell.#car) {
+            cells.push(cell);
+            cell = cell.#cdr;
+        }
+        return cells;
+    }
+    /**
+     * The tail of this list starting at the specified index, given the cells of this list. The tail is borrowed.
+     */
+    #tailAt(cells: Cons[], index: number): Cons {
+        if (index < cells.length) {
+            return cells[index];
+        }
+        else if (cells.length > 0) {
+            const last = cells[cells.length - 1].#cdr;
+            return last ? last : nil;
+        }
+        else {
+            return this;
+        }
+    }
+    /**
+     * Returns a new list with the items added to the end.
+     * The cells of this list are copied, keeping their pos and end properties.
+     * The returned item is reference counted.
+     */
+    append(...items: U[]): Cons {
+        if (items.length === 0) {
+            this.addRef();
+            return this;
+        }
+        const entries: [U, Cons | undefined][] = this.#cells().map(cell => [cell.#car as U, cell]);
+        for (const item of items) {
+            entries.push([item, void 0]);
+        }
+        return build_list(entries, nil, this.#managed);
+    }
+    /**
+     * Returns a new list with the items of this list followed by the items of the other lists.
+     * The last non-empty list is shared; the cells of the preceding lists are copied, keeping their pos and end properties.
+     * The returned item is reference counted.
+     */
+    concat(...lists: Cons[]): Cons {
+        const all: Cons[] = [this, ...lists];
+        let last = all.length - 1;
+        while (last > 0 && all[last].isnil) {
+            last--;
+        }
+        const entries: [U, Cons | undefined][] = [];
+        for (let i = 0; i < last; i++) {
+            for (const cell of all[i].#cells()) {
+                entries.push([cell.#car as U, cell]);
+            }
+        }
+        return build_list(entries, all[last], this.#managed);
+    }
+    /**
+     * Returns a new list with the items in reverse order.
+     * The cells keep the pos and end properties by position, so the first cell retains the span of the list.
+     * The returned item is reference counted.
+     */
+    reverse(): Cons {
+        const cells = this.#cells();
+        if (cells.length <= 1) {
+            this.addRef();
+            return this;
+        }
+        const entries: [U, Cons | undefined][] = cells.map((cell, i) => [cells[cells.length - 1 - i].#car as U, cell]);
+        return build_list(entries, this.#tailAt(cells, cells.length), this.#managed);
+    }
+    /**
+     * Returns the items from start up to, but not including, end. Negative indices count back from the end of the list.
+     * A slice that extends to the end of the list shares the tail of this list; otherwise the cells are copied, keeping their pos and end properties.
+     * The returned item is reference counted.
+     */
+    slice(start = 0, end?: number): Cons {
+        const cells = this.#cells();
+        const n = cells.length;
+        const from = clamp_index(start, n);
+        const to = typeof end === 'number' ? clamp_index(end, n) : n;
+        if (from >= to) {
+            return nil;
+        }
+        if (to === n) {
+            const tail = this.#tailAt(cells, from);
+            tail.addRef();
+            return tail;
+        }
+        return build_list(cells.slice(from, to).map(cell => [cell.#car as U, cell]), nil, this.#managed);
+    }
+    /**
+     * Returns a new list with deleteCount items removed at start and the items inserted in their place.
+     * A negative start counts back from the end of the list.
+     * The list after the removed items is shared; the cells before start are copied, keeping their pos and end properties.
+     * The returned item is reference counted.
+     */
+    splice(start: number, deleteCount?: number, ...items: U[]): Cons {
+        const cells = this.#cells();
+        const n = cells.length;
+        const from = clamp_index(start, n);
+        const count = typeof deleteCount === 'number' ? Math.min(Math.max(deleteCount, 0), n - from) : n - from;
+        if (count === 0 && items.length === 0) {
+            this.addRef();
+            return this;
+        }
+        const entries: [U, Cons | undefined][] = cells.slice(0, from).map(cell => [cell.#car as U, cell]);
+        for (const item of items) {
+            entries.push([item, void 0]);
+        }
+        return build_list(entries, this.#tailAt(cells, from + count), this.#managed);
+    }
+    /**
+     * Returns a new list containing the items for which the predicate is true. The items are borrowed by the predicate.
+     * The list after the last removed item is shared; the cells before it are copied, keeping their pos and end properties.
+     * The returned item is reference counted.
+     */
+    filter(predicate: (item: U, index: number) => boolean): Cons {
+        const cells = this.#cells();
+        const keep = cells.map((cell, i) => predicate(cell.#car as U, i));
+        const last = keep.lastIndexOf(false);
+        if (last < 0) {
+            this.addRef();
+            return this;
+        }
+        const entries: [U, Cons | undefined][] = [];
+        for (let i = 0; i < last; i++) {
+            if (keep[i]) {
+                entries.push([cells[i].#car as U, cells[i]]);
+            }
+        }
+        return build_list(entries, this.#tailAt(cells, last + 1), this.#managed);
+    }
+    /**
+     * Returns the first item for which the predicate is true, or undefined. The items are borrowed by the predicate.
+     * The returned item is reference counted.
+     */
+    find(predicate: (item: U, index: number) => boolean): U | undefined {
+        const cells = this.#cells();
+        for (let i = 0; i < cells.length; i++) {
+            if (predicate(cells[i].#car as U, i)) {
+                return cells[i].car;
+            }
+        }
+        return void 0;
+    }
+    /**
+     * Returns the index of the first item, at or after fromIndex, that is equal to the specified item, or -1.
+     */
+    indexOf(item: U, fromIndex = 0): number {
+        const cells = this.#cells();
+        for (let i = clamp_index(fromIndex, cells.length); i < cells.length; i++) {
+            const candidate = cells[i].#car as U;
+            if (candidate === item || candidate.equals(item)) {
+                return i;
+            }
+        }
+        return -1;
+    }
+    /**
+     * Determines whether the predicate is true for every item. The items are borrowed by the predicate.
+     */
+    every(predicate: (item: U, index: number) => boolean): boolean {
+        return this.#cells().every((cell, i) => predicate(cell.#car as U, i));
+    }
+    /**
+     * Determines whether the predicate is true for some item. The items are borrowed by the predicate.
+     */
+    some(predicate: (item: U, index: number) => boolean): boolean {
+        return this.#cells().some((cell, i) => predicate(cell.#car as U, i));
+    }
+    /**
+     * Returns a new list with the items sorted by the comparator. The sort is stable. The items are borrowed by the comparator.
+     * The longest tail that is already in its sorted position is shared.
+     * The rebuilt cells keep the pos and end properties by position, so the first cell retains the span of the list.
+     * The returned item is reference counted.
+     */
+    sort(compare: (a: U, b: U) => number): Cons {
+        const cells = this.#cells();
+        const items = cells.map(cell => cell.#car as U);
+        const sorted = [...items].sort(compare);
+        let shared = sorted.length;
+        while (shared > 0 && sorted[shared - 1] === items[shared - 1]) {
+            shared--;
+        }
+        if (shared === 0) {
+            this.addRef();
+            return this;
+        }
+        const entries: [U, Cons | undefined][] = [];
+        for (let i = 0; i < shared; i++) {
+            entries.push([sorted[i], cells[i]]);
+        }
+        return build_list(entries, this.#tailAt(cells, shared), this.#managed);
+    }
+}
+
+/**
+ * Converts a possibly negative index, as used by Array.slice, to an index in the range [0, length].
+ */
+function clamp_index(index: number, length: number): number {
+    const i = Math.trunc(index);
+    return i < 0 ? Math.max(length + i, 0) : Math.min(i, length);
+}
+
+/**
+ * Returns the list of the entry items followed by the tail.
+ * Each new cell takes its pos and end properties from the cell in its entry, if any, and is managed if specified.
+ * The returned item is reference counted.
+ */
+function build_list(entries: [item: U, span: Cons | undefined][], tail: Cons, managed: boolean): Cons {
+    let result: Cons = tail;
+    result.addRef();
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const [item, span] = entries[i];
+        const next = allocate(item, result, span ? span.pos : void 0, span ? span.end : void 0, managed);
+        result.release();
+        result = next;
+    }
+    return result;
 }
 
 export function cons(car: U, cdr: Cons, pos?: number, end?: number): Cons {
-    return new Cons(car, cdr, pos, end);
+    return allocate(car, cdr, pos, end, false);
 }
 
 export function pos_end_items_to_cons(pos: number | undefined, end: number | undefined, ...items: U[]): Cons {
+    return make_list(pos, end, items, false);
+}
+
+export function items_to_cons(...items: U[]): Cons {
+    return make_list(void 0, void 0, items, false);
+}
+
+/**
+ * The returned item is reference counted.
+ */
+function make_list(pos: number | undefined, end: number | undefined, items: U[], managed: boolean): Cons {
     if (items.length > 0) {
         let node: Cons = nil;
         node.addRef();
@@ -389,7 +1014,7 @@ export function pos_end_items_to_cons(pos: number | undefined, end: number | und
         for (let i = items.length - 1; i > 0; i--) {
             const temp = node;
             try {
-                node = new Cons(items[i], node, void 0, void 0);
+                node = allocate(items[i], node, void 0, void 0, managed);
             }
             finally {
                 temp.release();
@@ -397,7 +1022,7 @@ export function pos_end_items_to_cons(pos: number | undefined, end: number | und
         }
         const temp = node;
         try {
-            return new Cons(items[0], node, pos, end);
+            return allocate(items[0], node, pos, end, managed);
         }
         finally {
             temp.release();
@@ -405,7 +1030,7 @@ export function pos_end_items_to_cons(pos: number | undefined, end: number | und
     }
     else {
         if (typeof pos === 'number' || typeof end === 'number') {
-            return new Cons(void 0, void 0, pos, end);
+            return new Cons(void 0, void 0, pos, end, managed);
         }
         else {
             return nil;
@@ -413,8 +1038,74 @@ export function pos_end_items_to_cons(pos: number | undefined, end: number | und
     }
 }
 
-export function items_to_cons(...items: U[]): Cons {
-    return pos_end_items_to_cons(void 0, void 0, ...items);
+/**
+ * Constructs lists in either the reference counted or the garbage collected (managed) style, so that code can be written
+ * once for both. The methods correspond to the module functions of the same names.
+ */
+export interface ConsFactory {
+    /**
+     * Determines whether the lists that are created are managed (see the Cons constructor).
+     */
+    readonly managed: boolean;
+    cons(car: U, cdr: Cons, pos?: number, end?: number): Cons;
+    items_to_cons(...items: U[]): Cons;
+    pos_end_items_to_cons(pos: number | undefined, end: number | undefined, ...items: U[]): Cons;
+}
+
+function create_cons_factory(managed: boolean): ConsFactory {
+    return {
+        managed,
+        cons(car: U, cdr: Cons, pos?: number, end?: number): Cons {
+            return allocate(car, cdr, pos, end, managed);
+        },
+        items_to_cons(...items: U[]): Cons {
+            return make_list(void 0, void 0, items, managed);
+        },
+        pos_end_items_to_cons(pos: number | undefined, end: number | undefined, ...items: U[]): Cons {
+            return make_list(pos, end, items, managed);
+        }
+    };
+}
+
+/**
+ * Creates reference counted lists, like the module functions cons, items_to_cons and pos_end_items_to_cons.
+ */
+export const counted_cons_factory: ConsFactory = create_cons_factory(false);
+
+/**
+ * Creates managed lists, for which addRef and release are no-ops.
+ * Such lists need not be released, and they can be passed to algorithms that use addRef and release.
+ */
+export const managed_cons_factory: ConsFactory = create_cons_factory(true);
+
+/**
+ * Returns an expression equal to expr in which every list is managed, e.g. to use the result of the reader without
+ * reference counting. Atoms, and lists that are already managed, are shared. The pos and end properties are preserved.
+ */
+export function to_managed(expr: U): U {
+    if (!is_cons(expr) || expr.managed) {
+        return expr;
+    }
+    // Convert the items iteratively along the cdr chain so that long lists don't exhaust the stack.
+    const cells: Cons[] = [];
+    let cell: Cons = expr;
+    while (is_cons(cell) && !cell.managed) {
+        cells.push(cell);
+        const next = cell.cdr;
+        next.release();
+        cell = next;
+    }
+    let result = cell;
+    for (let i = cells.length - 1; i >= 0; i--) {
+        const item = cells[i].car;
+        try {
+            result = allocate(to_managed(item), result, cells[i].pos, cells[i].end, true);
+        }
+        finally {
+            item.release();
+        }
+    }
+    return result;
 }
 
 /**
@@ -505,33 +1196,95 @@ export function cdr(node: U): Cons {
     }
 }
 
+/**
+ * Computes the 32-bit FNV-1a hash of a string.
+ */
+export function hash_string(s: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Combines two hashes in an order-dependent way.
+ */
+export function hash_combine(lhs: number, rhs: number): number {
+    let h = Math.imul(lhs ^ (lhs >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ rhs ^ (rhs << 6) ^ (rhs >>> 2), 0xc2b2ae35);
+    return (h ^ (h >>> 13)) >>> 0;
+}
+
+const NIL_HASH = hash_string('Nil');
+
+/**
+ * Returns the structural hash of the expression.
+ * A Cons is hashed on its structure. An expression that provides a hash uses its own hash.
+ * Otherwise, atoms are hashed on their type, which is consistent with equals provided that equal atoms have the same type.
+ */
+export function hash_of(expr: U): number {
+    if (expr instanceof Cons) {
+        return expr.hash;
+    }
+    const hash = expr.hash;
+    if (typeof hash === 'number') {
+        return hash;
+    }
+    else if (is_atom(expr)) {
+        return hash_string(expr.type);
+    }
+    else {
+        return hash_string(expr.name);
+    }
+}
+
 function equal_cons_cons(lhs: Cons, rhs: Cons): boolean {
-    let p1: U = lhs;
-    let p2: U = rhs;
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-        if (is_cons(p1) && is_cons(p2)) {
-            if (p1.car.equals(p2.car)) {
-                p1 = p1.cdr;
-                p2 = p2.cdr;
+    let p1: Cons = lhs;
+    let p2: Cons = rhs;
+    p1.addRef();
+    p2.addRef();
+    try {
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            if (is_cons(p1) && is_cons(p2)) {
+                const a = p1.car;
+                const b = p2.car;
+                try {
+                    if (!a.equals(b)) {
+                        return false;
+                    }
+                }
+                finally {
+                    a.release();
+                    b.release();
+                }
+                const next1 = p1.cdr;
+                const next2 = p2.cdr;
+                p1.release();
+                p2.release();
+                p1 = next1;
+                p2 = next2;
                 continue;
             }
+            if (p1.iscons) {
+                return false;
+            }
+            if (p2.iscons) {
+                return false;
+            }
+            if (p1.equals(p2)) {
+                // They are equal if there is nowhere else to go.
+                return true;
+            }
             else {
                 return false;
             }
         }
-        if (is_cons(p1)) {
-            return false;
-        }
-        if (is_cons(p2)) {
-            return false;
-        }
-        if (p1.equals(p2)) {
-            // They are equal if there is nowhere else to go.
-            return true;
-        }
-        else {
-            return false;
-        }
+    }
+    finally {
+        p1.release();
+        p2.release();
     }
 }
@@ -0,0 +1,408 @@
+import { operator_key } from "./printer";
+import { Provenance } from "./provenance";
+import { Atom, Cons, is_atom, is_cons, U } from "./tree";
+
+/**
+ * The result of a visitor handler.
+ * 'skip' (from a pre-order handler) does not visit the items of the list, 'stop' ends the traversal.
+ * Any other result continues the traversal.
+ */
+export type VisitResult = void | undefined | 'skip' | 'stop';
+
+/**
+ * The path of a node from the root, as the index of the item at each level.
+ * The path passed to a handler is only valid during the call because it is updated as the traversal proceeds; copy it to retain it.
+ */
+export type Path = readonly number[];
+
+/**
+ * Handlers that are selected according to the kind of node.
+ * For a list, the handler for the operator key of the head is used if present, otherwise the list handler.
+ * For an atom, the handler for the atom type is used if present, otherwise the atom handler.
+ * The node handler is used when there is no more specific handler.
+ */
+export interface NodeHandlers<L, A = L, N = L> {
+    operators?: { [key: string]: L };
+    list?: L;
+    atoms?: { [type: string]: A };
+    atom?: A;
+    /**
+     * The handler for the empty list.
+     */
+    nil?: N;
+    node?: L & A & N;
+}
+
+/**
+ * Handlers called during a traversal. The nodes are borrowed; call addRef to retain a node beyond the call.
+ */
+export type VisitHandlers = NodeHandlers<(expr: Cons, path: Path) => VisitResult, (atom: Atom, path: Path) => VisitResult, (expr: U, path: Path) => VisitResult>;
+
+export interface Visitor {
+    /**
+     * Called before the items of a list are visited (pre-order).
+     */
+    enter?: VisitHandlers;
+    /**
+     * Called after the items of a list are visited (post-order). Returning 'skip' has no effect.
+     */
+    leave?: VisitHandlers;
+}
+
+export interface VisitOptions {
+    /**
+     * Determines the operator key for the head of a list. The default is operator_key.
+     */
+    keyOf?: (head: U) => string | undefined;
+}
+
+function own<T>(record: { [key: string]: T } | undefined, key: string | undefined): T | undefined {
+    if (record && typeof key === 'string' && Object.prototype.hasOwnProperty.call(record, key)) {
+        return record[key];
+    }
+    return void 0;
+}
+
+function list_key(expr: Cons, keyOf: (head: U) => string | undefined): string | undefined {
+    const head = expr.head;
+    try {
+        return keyOf(head);
+    }
+    finally {
+        head.release();
+    }
+}
+
+/**
+ * Returns the handler that applies to the expression, or undefined.
+ */
+function select<L, A, N>(handlers: NodeHandlers<L, A, N> | undefined, expr: U, keyOf: (head: U) => string | undefined): L | A | N | undefined {
+    if (!handlers) {
+        return void 0;
+    }
+    let handler: L | A | N | undefined;
+    if (is_cons(expr)) {
+        handler = handlers.operators ? own(handlers.operators, list_key(expr, keyOf)) : void 0;
+        if (!handler) {
+            handler = handlers.list;
+        }
+    }
+    else if (is_atom(expr)) {
+        handler = own(handlers.atoms, expr.type);
+        if (!handler) {
+            handler = handlers.atom;
+        }
+    }
+    else {
+        handler = handlers.nil;
+    }
+    return handler ? handler : handlers.node;
+}
+
+function call(handlers: VisitHandlers | undefined, expr: U, path: Path, keyOf: (head: U) => string | undefined): VisitResult {
+    const handler = select(handlers, expr, keyOf) as ((expr: U, path: Path) => VisitResult) | undefined;
+    return handler ? handler(expr, path) : void 0;
+}
+
+interface VisitTask {
+    expr: U;
+    depth: number;
+    /**
+     * The index of the node in its parent list.
+     */
+    index: number;
+    leave: boolean;
+    /**
+     * The items of a list, which are released when the list is left.
+     */
+    items?: U[];
+}
+
+/**
+ * Traverses the expression depth first, calling the enter handlers before and the leave handlers after the items of each list.
+ * The items of a list, including the head, are visited in order.
+ * Returns false if the traversal was stopped by a handler, otherwise true.
+ *
+ * The traversal uses an explicit stack so that deeply nested expressions are supported.
+ */
+export function visit(expr: U, visitor: Visitor, options: VisitOptions = {}): boolean {
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    const stack: VisitTask[] = [{ expr, depth: 0, index: 0, leave: false }];
+    const path: number[] = [];
+    try {
+        while (stack.length > 0) {
+            const task = stack.pop() as VisitTask;
+            path.length = task.depth;
+            if (task.depth > 0) {
+                path[task.depth - 1] = task.index;
+            }
+            if (task.leave) {
+                try {
+                    if (call(visitor.leave, task.expr, path, keyOf) === 'stop') {
+                        return false;
+                    }
+                }
+                finally {
+                    if (task.items) {
+                        for (const item of task.items) {
+                            item.release();
+                        }
+                    }
+                }
+            }
+            else {
+                const result = call(visitor.enter, task.expr, path, keyOf);
+                if (result === 'stop') {
+                    return false;
+                }
+                if (is_cons(task.expr) && result !== 'skip') {
+                    const items = [...task.expr];
+                    stack.push({ expr: task.expr, depth: task.depth, index: task.index, leave: true, items });
+                    for (let i = items.length - 1; i >= 0; i--) {
+                        stack.push({ expr: items[i], depth: task.depth + 1, index: i, leave: false });
+                    }
+                }
+                else {
+                    stack.push({ expr: task.expr, depth: task.depth, index: task.index, leave: true });
+                }
+            }
+        }
+        return true;
+    }
+    finally {
+        for (const task of stack) {
+            if (task.items) {
+                for (const item of task.items) {
+                    item.release();
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Calls the handlers for each node before its items (pre-order). See visit.
+ */
+export function visit_preorder(expr: U, handlers: VisitHandlers, options: VisitOptions = {}): boolean {
+    return visit(expr, { enter: handlers }, options);
+}
+
+/**
+ * Calls the handlers for each node after its items (post-order). See visit.
+ */
+export function visit_postorder(expr: U, handlers: VisitHandlers, options: VisitOptions = {}): boolean {
+    return visit(expr, { leave: handlers }, options);
+}
+
+/**
+ * Combines the accumulator with every node of the expression, in pre-order (the default) or post-order.
+ */
+export function reduce<T>(expr: U, f: (accumulator: T, node: U, path: Path) => T, initial: T, order: 'pre' | 'post' = 'pre'): T {
+    let accumulator = initial;
+    const handlers: VisitHandlers = {
+        node: function (node: U, path: Path) {
+            accumulator = f(accumulator, node, path);
+        }
+    };
+    visit(expr, order === 'pre' ? { enter: handlers } : { leave: handlers });
+    return accumulator;
+}
+
+/**
+ * Handlers that compute the value of a node from the values of the items of a list, or directly for atoms and the empty list.
+ * The values of the items include the value of the head.
+ */
+export type FoldHandlers<T> = NodeHandlers<(expr: Cons, values: T[], path: Path) => T, (atom: Atom, path: Path) => T, (expr: U, path: Path) => T>;
+
+interface PostOrderFrame<T> {
+    expr: U;
+    items?: U[];
+    values: T[];
+}
+
+/**
+ * The post-order engine for fold and transform.
+ * The dispose function is called for values that are discarded because a handler threw.
+ */
+function post_order<T>(expr: U, leaf: (expr: U, path: Path) => T, combine: (expr: Cons, items: U[], values: T[], path: Path) => T, dispose: (value: T) => void): T {
+    const stack: PostOrderFrame<T>[] = [{ expr, values: [] }];
+    /**
+     * The path of the frame at the top of the stack.
+     */
+    const path: number[] = [];
+    let result: { value: T } | undefined;
+    try {
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            if (!frame.items) {
+                if (is_cons(frame.expr)) {
+                    frame.items = [...frame.expr];
+                }
+                else {
+                    const value = leaf(frame.expr, path);
+                    stack.pop();
+                    path.pop();
+                    if (stack.length > 0) {
+                        stack[stack.length - 1].values.push(value);
+                    }
+                    else {
+                        result = { value };
+                    }
+                    continue;
+                }
+            }
+            if (frame.values.length < frame.items.length) {
+                const index = frame.values.length;
+                stack.push({ expr: frame.items[index], values: [] });
+                path.push(index);
+            }
+            else {
+                const value = combine(frame.expr as Cons, frame.items, frame.values, path);
+                stack.pop();
+                path.pop();
+                for (const item of frame.items) {
+                    item.release();
+                }
+                for (const v of frame.values) {
+                    dispose(v);
+                }
+                if (stack.length > 0) {
+                    stack[stack.length - 1].values.push(value);
+                }
+                else {
+                    result = { value };
+                }
+            }
+        }
+        return (result as { value: T }).value;
+    }
+    finally {
+        for (const frame of stack) {
+            if (frame.items) {
+                for (const item of frame.items) {
+                    item.release();
+                }
+            }
+            for (const v of frame.values) {
+                dispose(v);
+            }
+        }
+    }
+}
+
+/**
+ * Computes a value for the expression bottom up, e.g. the number of nodes or the depth.
+ * A handler is required for every kind of node that occurs in the expression; an Error is thrown otherwise.
+ *
+ * The traversal uses an explicit stack so that deeply nested expressions are supported.
+ */
+export function fold<T>(expr: U, handlers: FoldHandlers<T>, options: VisitOptions = {}): T {
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    return post_order<T>(expr, function (node, path) {
+        const handler = select(handlers, node, keyOf) as ((node: U, path: Path) => T) | undefined;
+        if (handler) {
+            return handler(node, path);
+        }
+        throw new Error(`No fold handler for ${node}.`);
+    }, function (list, items, values, path) {
+        const handler = select(handlers, list, keyOf) as ((list: Cons, values: T[], path: Path) => T) | undefined;
+        if (handler) {
+            return handler(list, values, path);
+        }
+        throw new Error(`No fold handler for ${list}.`);
+    }, function () {
+        // Values are not reference counted.
+    });
+}
+
+/**
+ * Handlers that return a replacement for a node, or undefined to keep the node.
+ * The node is borrowed. The replacement is reference counted, i.e. return node.addRef()'d if returning the same node.
+ */
+export type TransformHandlers = NodeHandlers<(expr: Cons, path: Path) => U | undefined, (atom: Atom, path: Path) => U | undefined, (expr: U, path: Path) => U | undefined>;
+
+export interface TransformOptions extends VisitOptions {
+    /**
+     * Records each rebuilt list and each replacement list as derived from the node that it replaces.
+     */
+    provenance?: Provenance;
+}
+
+/**
+ * Returns a list with the items replaced by the values, sharing the cells after the last replaced item.
+ * The pos and end properties of the rebuilt cells are preserved.
+ * The returned item is reference counted.
+ */
+function rebuild(list: Cons, items: U[], values: U[]): Cons {
+    let last = -1;
+    for (let i = 0; i < items.length; i++) {
+        if (values[i] !== items[i]) {
+            last = i;
+        }
+    }
+    if (last < 0) {
+        list.addRef();
+        return list;
+    }
+    const cells: Cons[] = [];
+    let cell: Cons = list;
+    cell.addRef();
+    for (let i = 0; i < last; i++) {
+        cells.push(cell);
+        cell = cell.cdr;
+    }
+    cells.push(cell);
+    let result = cell.cdr;
+    try {
+        for (let i = last; i >= 0; i--) {
+            const next = new Cons(values[i], result, cells[i].pos, cells[i].end);
+            result.release();
+            result = next;
+        }
+        return result;
+    }
+    finally {
+        for (const c of cells) {
+            c.release();
+        }
+    }
+}
+
+/**
+ * Transforms the expression bottom up. The items of a list are transformed before the handler for the list is called
+ * with the list rebuilt from the transformed items.
+ *
+ * Only the lists on the path to a replaced node are rebuilt; everything else is shared with the original expression.
+ * If nothing is replaced the original expression is returned.
+ * The returned item is reference counted.
+ */
+export function transform(expr: U, handlers: TransformHandlers, options: TransformOptions = {}): U {
+    const keyOf = options.keyOf ? options.keyOf : operator_key;
+    const provenance = options.provenance;
+    const apply = function (node: U, path: Path): U {
+        const handler = select(handlers, node, keyOf) as ((node: U, path: Path) => U | undefined) | undefined;
+        const replacement = handler ? handler(node, path) : void 0;
+        if (replacement) {
+            if (provenance) {
+                provenance.record(replacement, node);
+            }
+            return replacement;
+        }
+        else {
+            node.addRef();
+            return node;
+        }
+    };
+    return post_order<U>(expr, apply, function (list, items, values, path) {
+        const rebuilt = rebuild(list, items, values);
+        if (provenance) {
+            provenance.record(rebuilt, list);
+        }
+        try {
+            return apply(rebuilt, path);
+        }
+        finally {
+            rebuilt.release();
+        }
+    }, value => value.release());
+}
@@ -0,0 +1,241 @@
+import { Cons, is_cons, Shareable, U } from "./tree";
+
+/**
+ * Records how the focus was reached from its parent.
+ */
+interface Frame {
+    /**
+     * The list containing the focus.
+     */
+    readonly parent: Cons;
+    /**
+     * The item index of the focus in the parent.
+     */
+    readonly index: number;
+    /**
+     * Whether the parent differs from the corresponding list in the original tree.
+     */
+    readonly dirty: boolean;
+}
+
+/**
+ * Returns a copy of the list in which the item at the specified index is replaced.
+ * The cells before the index are copied (keeping their pos and end), the cells after the index are shared.
+ * The returned item is reference counted.
+ */
+function replace_item(list: Cons, index: number, item: U): Cons {
+    const prefix: Cons[] = [];
+    let cell: Cons = list;
+    cell.addRef();
+    for (let i = 0; i < index; i++) {
+        prefix.push(cell);
+        cell = cell.cdr;
+    }
+    const tail = cell.cdr;
+    let result = new Cons(item, tail, cell.pos, cell.end);
+    tail.release();
+    cell.release();
+    for (let i = prefix.length - 1; i >= 0; i--) {
+        const p = prefix[i];
+        const car = p.car;
+        const next = new Cons(car, result, p.pos, p.end);
+        car.release();
+        result.release();
+        p.release();
+        result = next;
+    }
+    return result;
+}
+
+/**
+ * A cursor over an expression tree that supports navigation and functional update.
+ *
+ * Moving down to an item of a list, and back up, returns to the same instances unless the focus has been replaced.
+ * When the focus is replaced, moving up rebuilds only the spine of each ancestor up to the focus, sharing the untouched siblings.
+ *
+ * Zippers are immutable; each operation returns a new Zipper, which is reference counted.
+ * A Zipper holds references to its focus and ancestors, which are released by release().
+ */
+export class Zipper implements Shareable {
+    readonly #focus: U;
+    readonly #frames: Frame[];
+    readonly #dirty: boolean;
+    #refCount = 1;
+    private constructor(focus: U, frames: Frame[], dirty: boolean) {
+        focus.addRef();
+        for (const frame of frames) {
+            frame.parent.addRef();
+        }
+        this.#focus = focus;
+        this.#frames = frames;
+        this.#dirty = dirty;
+    }
+    /**
+     * Returns a Zipper focused on the root of the tree.
+     */
+    static create(root: U): Zipper {
+        return new Zipper(root, [], false);
+    }
+    #destructor(): void {
+        this.#focus.release();
+        for (const frame of this.#frames) {
+            frame.parent.release();
+        }
+    }
+    addRef(): void {
+        this.#refCount++;
+    }
+    release(): void {
+        this.#refCount--;
+        if (this.#refCount === 0) {
+            this.#destructor();
+        }
+    }
+    /**
+     * The subterm in focus.
+     * The returned item is reference counted.
+     */
+    get focus(): U {
+        this.#focus.addRef();
+        return this.#focus;
+    }
+    /**
+     * The item indices leading from the root to the focus.
+     */
+    get path(): number[] {
+        return this.#frames.map(frame => frame.index);
+    }
+    /**
+     * The item index of the focus in its parent, or -1 if the focus is the root.
+     */
+    get index(): number {
+        const frames = this.#frames;
+        return frames.length > 0 ? frames[frames.length - 1].index : -1;
+    }
+    get isTop(): boolean {
+        return this.#frames.length === 0;
+    }
+    /**
+     * Moves the focus to the item at the specified (zero-based) index of the focus.
+     */
+    down(index: number): Zipper {
+        const focus = this.#focus;
+        if (is_cons(focus) && index >= 0 && index < focus.length) {
+            const item = focus.item(index);
+            try {
+                return new Zipper(item, [...this.#frames, { parent: focus, index, dirty: this.#dirty }], false);
+            }
+            finally {
+                item.release();
+            }
+        }
+        else {
+            throw new Error(`Cannot move down to item ${index} of ${focus}`);
+        }
+    }
+    /**
+     * Moves the focus to the list containing the focus.
+     */
+    up(): Zipper {
+        const frames = this.#frames;
+        if (frames.length === 0) {
+            throw new Error("Cannot move up from the root.");
+        }
+        const frame = frames[frames.length - 1];
+        const ancestors = frames.slice(0, frames.length - 1);
+        if (this.#dirty) {
+            const parent = replace_item(frame.parent, frame.index, this.#focus);
+            try {
+                return new Zipper(parent, ancestors, true);
+            }
+            finally {
+                parent.release();
+            }
+        }
+        else {
+            return new Zipper(frame.parent, ancestors, frame.dirty);
+        }
+    }
+    /**
+     * Moves the focus to the previous item in the containing list.
+     */
+    left(): Zipper {
+        return this.#sibling(this.index - 1);
+    }
+    /**
+     * Moves the focus to the next item in the containing list.
+     */
+    right(): Zipper {
+        return this.#sibling(this.index + 1);
+    }
+    #sibling(index: number): Zipper {
+        const parent = this.up();
+        try {
+            return parent.down(index);
+        }
+        finally {
+            parent.release();
+        }
+    }
+    /**
+     * Moves the focus along a path of item indices, relative to the current focus.
+     */
+    at(path: number[]): Zipper {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let z: Zipper = this;
+        z.addRef();
+        for (const index of path) {
+            try {
+                const next = z.down(index);
+                z.release();
+                z = next;
+            }
+            catch (e) {
+                z.release();
+                throw e;
+            }
+        }
+        return z;
+    }
+    /**
+     * Replaces the focus.
+     */
+    replace(expr: U): Zipper {
+        return new Zipper(expr, this.#frames, true);
+    }
+    /**
+     * Moves the focus to the root of the tree, rebuilding the tree if the focus has been replaced.
+     */
+    top(): Zipper {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let z: Zipper = this;
+        z.addRef();
+        while (!z.isTop) {
+            const next = z.up();
+            z.release();
+            z = next;
+        }
+        return z;
+    }
+    /**
+     * Returns the root of the (possibly) updated tree.
+     * The returned item is reference counted.
+     */
+    root(): U {
+        const z = this.top();
+        try {
+            return z.focus;
+        }
+        finally {
+            z.release();
+        }
+    }
+}
+
+/**
+ * Returns a Zipper focused on the root of the tree.
+ * The returned Zipper is reference counted.
+ */
+export function create_zipper(root: U): Zipper {
+    return Zipper.create(root);
+}
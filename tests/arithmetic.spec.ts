@@ -0,0 +1,76 @@
+import { is_application, is_one, is_zero, make_application, make_difference, make_negation, make_power, make_product, make_quotient, make_sum } from "../src/arithmetic";
+import { create_rat, create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function show(expr: U): string {
+    try {
+        return print_sexpr(expr);
+    }
+    finally {
+        expr.release();
+    }
+}
+
+const x = create_sym("x");
+const y = create_sym("y");
+const zero = create_rat(0);
+const one = create_rat(1);
+const two = create_rat(2);
+
+test("predicates", function () {
+    expect(is_zero(zero)).toBe(true);
+    expect(is_zero(one)).toBe(false);
+    expect(is_one(one)).toBe(true);
+    expect(is_one(x)).toBe(false);
+    expect(is_application(parse("(+ x 1)"), "+")).toBe(true);
+    expect(is_application(parse("(* x 1)"), "+")).toBe(false);
+    expect(is_application(x, "x")).toBe(false);
+});
+test("sums and products are flattened and their constants combined", function () {
+    expect(show(make_application("f", [x, y], 0, 7))).toBe("(f x y)");
+    expect(show(make_sum([parse("(+ x 1)"), two, y]))).toBe("(+ x y 3)");
+    expect(show(make_sum([zero, x]))).toBe("x");
+    expect(show(make_sum([]))).toBe("0");
+    expect(show(make_product([parse("(* 2 x)"), two, y]))).toBe("(* 4 x y)");
+    expect(show(make_product([zero, x]))).toBe("0");
+    expect(show(make_product([one, x]))).toBe("x");
+    expect(show(make_negation(x))).toBe("(* -1 x)");
+});
+test("differences, quotients and powers", function () {
+    expect(show(make_difference(x, zero))).toBe("x");
+    expect(show(make_difference(zero, x))).toBe("(* -1 x)");
+    expect(show(make_difference(two, one))).toBe("1");
+    expect(show(make_difference(x, y))).toBe("(- x y)");
+    expect(show(make_quotient(x, one))).toBe("x");
+    expect(show(make_quotient(one, two))).toBe("1/2");
+    expect(show(make_quotient(one, zero))).toBe("(/ 1 0)");
+    expect(show(make_power(x, zero))).toBe("1");
+    expect(show(make_power(x, one))).toBe("x");
+    expect(show(make_power(x, two))).toBe("(power x 2)");
+});
+test("the constructors do not leak", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const checkpoint = detector.checkpoint();
+        const u = parse("(+ x (* 2 y))");
+        show(make_sum([u, u, one]));
+        const v = parse("(* x y)");
+        show(make_product([u, two, v]));
+        const w = make_difference(u, two);
+        show(make_quotient(u, w));
+        w.release();
+        v.release();
+        u.release();
+        detector.assertNoLeaks(checkpoint);
+    }
+    finally {
+        detector.disable();
+    }
+});
@@ -0,0 +1,105 @@
+import { Boo, create_boo, create_flt, create_rat, create_str, create_sym, Flt, is_boo, is_flt, is_rat, is_str, is_sym, Rat, standard_atom_factory, Str, Sym } from "../src/atoms";
+import { read } from "../src/reader";
+import { Cons, is_atom, is_cons, items_to_cons, nil } from "../src/tree";
+
+test("Sym", function () {
+    const x = create_sym("x");
+    expect(x.name).toBe("Sym");
+    expect(x.type).toBe("sym");
+    expect(x.key).toBe("x");
+    expect(is_atom(x)).toBe(true);
+    expect(is_cons(x)).toBe(false);
+    expect(is_sym(x)).toBe(true);
+    expect(x.toString()).toBe("x");
+    expect(x.equals(create_sym("x"))).toBe(true);
+    expect(x.equals(create_sym("y"))).toBe(false);
+    expect(x.contains(create_sym("x"))).toBe(true);
+});
+test("Sym interning", function () {
+    expect(create_sym("a")).toBe(create_sym("a"));
+    const positioned = create_sym("a", 3, 4);
+    expect(positioned).not.toBe(create_sym("a"));
+    expect(positioned.equals(create_sym("a"))).toBe(true);
+    expect(positioned.pos).toBe(3);
+    expect(positioned.end).toBe(4);
+});
+test("Rat", function () {
+    const half = create_rat(2, 4);
+    expect(is_atom(half)).toBe(true);
+    expect(is_rat(half)).toBe(true);
+    expect(half.type).toBe("rat");
+    expect(half.numer).toBe(BigInt(1));
+    expect(half.denom).toBe(BigInt(2));
+    expect(half.equals(create_rat(-1, -2))).toBe(true);
+    expect(half.equals(create_rat(1, 3))).toBe(false);
+    expect(half.equals(create_flt(0.5))).toBe(false);
+    expect(half.toString()).toBe("1/2");
+    expect(create_rat(6, 3).toString()).toBe("2");
+    expect(create_rat(1, -3).toString()).toBe("-1/3");
+    expect(half.add(create_rat(1, 3)).toString()).toBe("5/6");
+    expect(half.sub(create_rat(1, 3)).toString()).toBe("1/6");
+    expect(half.mul(create_rat(2, 3)).toString()).toBe("1/3");
+    expect(half.div(create_rat(1, 4)).toString()).toBe("2");
+    expect(half.neg().toString()).toBe("-1/2");
+    expect(half.compare(create_rat(1, 3))).toBe(1);
+    expect(create_rat(0).isZero()).toBe(true);
+    expect(create_rat(3, 3).isOne()).toBe(true);
+    expect(half.toNumber()).toBe(0.5);
+    expect(() => create_rat(1, 0)).toThrow();
+    const big = create_rat(BigInt("123456789012345678901234567890"));
+    expect(big.toString()).toBe("123456789012345678901234567890");
+});
+test("Flt", function () {
+    const x = create_flt(2);
+    expect(is_atom(x)).toBe(true);
+    expect(is_flt(x)).toBe(true);
+    expect(x.type).toBe("flt");
+    expect(x.toString()).toBe("2.0");
+    expect(create_flt(0.25).toString()).toBe("0.25");
+    expect(x.equals(create_flt(2))).toBe(true);
+    expect(x.equals(create_rat(2))).toBe(false);
+    expect(create_flt(NaN).equals(create_flt(NaN))).toBe(true);
+});
+test("Str", function () {
+    const s = create_str('say "hi"');
+    expect(is_atom(s)).toBe(true);
+    expect(is_str(s)).toBe(true);
+    expect(s.type).toBe("str");
+    expect(s.toString()).toBe('"say \\"hi\\""');
+    expect(s.equals(create_str('say "hi"'))).toBe(true);
+    expect(s.equals(create_sym('say "hi"'))).toBe(false);
+});
+test("Boo", function () {
+    const t = create_boo(true);
+    expect(is_atom(t)).toBe(true);
+    expect(is_boo(t)).toBe(true);
+    expect(t.type).toBe("boo");
+    expect(t.toString()).toBe("true");
+    expect(t.equals(create_boo(true))).toBe(true);
+    expect(t.equals(create_boo(false))).toBe(false);
+});
+test("guards", function () {
+    const atoms = [create_sym("x"), create_rat(1), create_flt(1), create_str("x"), create_boo(false)];
+    expect(atoms.map(is_sym)).toStrictEqual([true, false, false, false, false]);
+    expect(atoms.map(is_rat)).toStrictEqual([false, true, false, false, false]);
+    expect(atoms.map(is_flt)).toStrictEqual([false, false, true, false, false]);
+    expect(atoms.map(is_str)).toStrictEqual([false, false, false, true, false]);
+    expect(atoms.map(is_boo)).toStrictEqual([false, false, false, false, true]);
+    expect(is_sym(nil)).toBe(false);
+    expect(is_sym(items_to_cons(create_sym("x")))).toBe(false);
+});
+test("standard_atom_factory", function () {
+    const expr = read('(f x 42 +7 2.5 "s" true)', standard_atom_factory) as Cons;
+    const items = [...expr];
+    expect(items[0]).toBeInstanceOf(Sym);
+    expect(items[1]).toBeInstanceOf(Sym);
+    expect(items[2]).toBeInstanceOf(Rat);
+    expect(items[3]).toBeInstanceOf(Rat);
+    expect(items[3].toString()).toBe("7");
+    expect(items[4]).toBeInstanceOf(Flt);
+    expect(items[5]).toBeInstanceOf(Str);
+    expect(items[6]).toBeInstanceOf(Boo);
+    expect(items[1].pos).toBe(3);
+    expect(items[1].end).toBe(4);
+    expect(expr.equals(read('(f x 42 7 2.5 "s" true)', standard_atom_factory))).toBe(true);
+});
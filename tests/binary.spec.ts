@@ -0,0 +1,199 @@
+import { AbstractAtom, create_flt, create_rat, create_str, create_sym, standard_atom_factory } from "../src/atoms";
+import { BinaryDecodeError, ByteReader, ByteWriter, decode_binary, encode_binary, standard_binary_codecs } from "../src/binary";
+import { LeakDetector } from "../src/debug";
+import { read } from "../src/reader";
+import { Cons, cons, is_cons, items_to_cons, nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+class Point extends AbstractAtom {
+    readonly name = "Point";
+    readonly type = "point";
+    constructor(readonly x: number, readonly y: number) {
+        super();
+    }
+    equals(other: U): boolean {
+        return other instanceof Point && other.x === this.x && other.y === this.y;
+    }
+    toString(): string {
+        return `<${this.x},${this.y}>`;
+    }
+}
+
+function decode_error(f: () => unknown): BinaryDecodeError {
+    try {
+        f();
+    }
+    catch (e) {
+        if (e instanceof BinaryDecodeError) {
+            return e;
+        }
+        throw e;
+    }
+    throw new Error("Expecting a BinaryDecodeError");
+}
+
+test("ByteWriter and ByteReader", function () {
+    const writer = new ByteWriter();
+    const ints = [0, 1, 127, 128, 300, 2 ** 40, Number.MAX_SAFE_INTEGER];
+    const bigints = [BigInt(0), BigInt(-1), BigInt("123456789012345678901234567890"), BigInt("-98765432109876543210")];
+    const signed = [0, -1, 63, -64, 64, -(2 ** 40), Math.floor(Number.MAX_SAFE_INTEGER / 2)];
+    for (const n of ints) {
+        writer.uint(n);
+    }
+    for (const n of signed) {
+        writer.int(n);
+    }
+    for (const n of bigints) {
+        writer.bigint(n);
+    }
+    writer.float64(Math.PI).float64(-0).string("héllo ∑").byte(255);
+    expect(() => writer.uint(-1)).toThrow(RangeError);
+    expect(() => writer.int(Number.MAX_SAFE_INTEGER)).toThrow(RangeError);
+    const reader = new ByteReader(writer.toUint8Array());
+    for (const n of ints) {
+        expect(reader.uint()).toBe(n);
+    }
+    for (const n of signed) {
+        expect(reader.int()).toBe(n);
+    }
+    for (const n of bigints) {
+        expect(reader.bigint()).toBe(n);
+    }
+    expect(reader.float64()).toBe(Math.PI);
+    expect(Object.is(reader.float64(), -0)).toBe(true);
+    expect(reader.string()).toBe("héllo ∑");
+    expect(reader.byte()).toBe(255);
+    expect(reader.done).toBe(true);
+    expect(() => reader.byte()).toThrow(BinaryDecodeError);
+});
+test("round trip", function () {
+    const X = items_to_cons(parse('(f x (g "s" 2.5 true) () 12345678901234567890)'), create_rat(-3, 4), create_flt(NaN));
+    const Y = decode_binary(encode_binary(X));
+    expect(Y.equals(X)).toBe(true);
+    expect(decode_binary(encode_binary(nil))).toBe(nil);
+    expect(decode_binary(encode_binary(create_str("")))).toStrictEqual(create_str(""));
+    // Symbols without positions are interned.
+    expect(decode_binary(encode_binary(create_sym("x")))).toBe(create_sym("x"));
+});
+test("source positions are preserved", function () {
+    const Y = decode_binary(encode_binary(parse("(a (b c))"))) as Cons;
+    expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+    const a = Y.head;
+    const inner = Y.arg as Cons;
+    expect([a.pos, a.end]).toStrictEqual([1, 2]);
+    expect([inner.pos, inner.end]).toStrictEqual([3, 8]);
+    const Z = decode_binary(encode_binary(cons(create_sym("p"), new Cons(void 0, void 0, 7, 8), 0, 9))) as Cons;
+    const last = Z.cdr;
+    expect(last.isnil).toBe(true);
+    expect([last.pos, last.end]).toStrictEqual([7, 8]);
+});
+test("sharing is preserved", function () {
+    const shared = parse("(* (+ a b) (+ c d))");
+    const X = items_to_cons(create_sym("f"), shared, shared, items_to_cons(create_sym("g"), shared));
+    const Y = decode_binary(encode_binary(X)) as Cons;
+    expect(Y.equals(X)).toBe(true);
+    const [, p, q, r] = [...Y];
+    expect(p).toBe(q);
+    expect((r as Cons).item(1)).toBe(p);
+    expect(p).not.toBe(shared);
+    // Sharing of tails is also preserved.
+    const tail = items_to_cons(create_sym("x"), create_sym("y"));
+    const T = items_to_cons(cons(create_sym("a"), tail), cons(create_sym("b"), tail));
+    const S = decode_binary(encode_binary(T)) as Cons;
+    const s1 = S.head as Cons;
+    const s2 = S.arg as Cons;
+    expect(s1.cdr).toBe(s2.cdr);
+});
+test("a DAG is encoded in space proportional to its distinct nodes", function () {
+    // A tree with 2^20 leaves but only 20 distinct lists.
+    let X: U = create_sym("x");
+    for (let i = 0; i < 20; i++) {
+        X = items_to_cons(create_sym("+"), X, X);
+    }
+    const bytes = encode_binary(X);
+    expect(bytes.length).toBeLessThan(200);
+    const Y = decode_binary(bytes) as Cons;
+    expect(Y.lhs).toBe(Y.rhs);
+});
+test("long lists", function () {
+    const items: U[] = [];
+    for (let i = 0; i < 100000; i++) {
+        items.push(create_rat(i));
+    }
+    let X: Cons = nil;
+    for (let i = items.length - 1; i >= 0; i--) {
+        X = cons(items[i], X);
+    }
+    const Y = decode_binary(encode_binary(X)) as Cons;
+    expect(Y.head.equals(items[0])).toBe(true);
+    let count = 0;
+    for (const item of Y) {
+        expect(item).toStrictEqual(items[count++]);
+    }
+    expect(count).toBe(items.length);
+});
+test("custom atom codecs", function () {
+    const X = items_to_cons(create_sym("plot"), new Point(3, -4));
+    expect(() => encode_binary(X)).toThrow(/No codec is registered for atom type "point"/);
+    const codecs = standard_binary_codecs().add({
+        type: "point",
+        encode: (atom, writer) => writer.int((atom as Point).x).int((atom as Point).y),
+        decode: reader => new Point(reader.int(), reader.int())
+    });
+    const bytes = encode_binary(X, codecs);
+    const Y = decode_binary(bytes, codecs) as Cons;
+    expect(Y.equals(X)).toBe(true);
+    expect(Y.arg).toBeInstanceOf(Point);
+    expect(decode_error(() => decode_binary(bytes)).message).toMatch(/No codec is registered for atom type "point"/);
+});
+test("validation", function () {
+    const bytes = encode_binary(parse("(f x)"));
+    expect(decode_error(() => decode_binary(new Uint8Array([1, 2, 3, 1]))).offset).toBe(0);
+    const wrongVersion = bytes.slice();
+    wrongVersion[3] = 99;
+    expect(decode_error(() => decode_binary(wrongVersion)).message).toMatch(/Unsupported version 99/);
+    expect(decode_error(() => decode_binary(bytes.subarray(0, bytes.length - 2))).message).toMatch(/Unexpected end of input/);
+    const trailing = new Uint8Array([...bytes, 0]);
+    expect(decode_error(() => decode_binary(trailing)).message).toMatch(/Unexpected bytes/);
+    const badRoot = bytes.slice();
+    badRoot[badRoot.length - 1] = 42;
+    expect(decode_error(() => decode_binary(badRoot)).message).toMatch(/Reference 42/);
+    // The first node of (f x) is the atom f, whose tag byte follows the magic number, the version and the count.
+    expect(bytes[5]).toBe(0x33);
+    const unknownFlags = bytes.slice();
+    unknownFlags[5] = 0x73;
+    const error = decode_error(() => decode_binary(unknownFlags));
+    expect(error.message).toMatch(/Unknown flags in tag 115/);
+    expect(error.offset).toBe(5);
+});
+describe("reference counting", function () {
+    let detector: LeakDetector;
+    beforeEach(function () {
+        detector = new LeakDetector().enable();
+    });
+    afterEach(function () {
+        detector.disable();
+    });
+    test("encoding and decoding do not leak", function () {
+        const shared = parse("(g x 1)");
+        const X = items_to_cons(create_sym("f"), shared, shared);
+        shared.release();
+        const checkpoint = detector.checkpoint();
+        const bytes = encode_binary(X);
+        detector.assertNoLeaks(checkpoint);
+        const Y = decode_binary(bytes);
+        expect(is_cons(Y) && Y.refCount).toBe(1);
+        Y.release();
+        detector.assertNoLeaks(checkpoint);
+        X.release();
+    });
+    test("partially decoded trees are released when validation fails", function () {
+        const bytes = encode_binary(parse("(f (g x) (h y))"));
+        const checkpoint = detector.checkpoint();
+        expect(() => decode_binary(bytes.subarray(0, bytes.length - 1))).toThrow(BinaryDecodeError);
+        detector.assertNoLeaks(checkpoint);
+    });
+});
@@ -0,0 +1,151 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { create_wild, match, release_bindings } from "../src/match";
+import { read } from "../src/reader";
+import { rewrite } from "../src/rewrite";
+import { Cons, cons_pool_stats, is_singleton, items_to_cons, nil, set_cons_pool_capacity, U } from "../src/tree";
+
+let detector: LeakDetector;
+
+beforeEach(function () {
+    detector = new LeakDetector().enable();
+});
+
+afterEach(function () {
+    detector.disable();
+});
+
+function parse(sourceText: string): Cons {
+    return read(sourceText, standard_atom_factory) as Cons;
+}
+
+test("no leaks when everything is released", function () {
+    const checkpoint = detector.checkpoint();
+    const X = items_to_cons(create_sym("f"), create_sym("x"), create_sym("y"));
+    expect(detector.liveCount).toBeGreaterThanOrEqual(3);
+    X.release();
+    detector.assertNoLeaks(checkpoint);
+});
+test("leaks are reported with allocation sites", function () {
+    const checkpoint = detector.checkpoint();
+    const X = items_to_cons(create_sym("f"));
+    const leaks = detector.leaks(checkpoint);
+    expect(leaks.length).toBe(1);
+    expect(leaks[0].node).toBe(X);
+    expect(leaks[0].refCount).toBe(1);
+    expect(leaks[0].stack).toBeDefined();
+    const Y = new Cons(create_sym("g"), nil);
+    Y.release();
+    expect(() => detector.assertNoLeaks(checkpoint)).toThrow(/1 Cons leak\(s\) detected/);
+    X.release();
+    detector.assertNoLeaks(checkpoint);
+});
+test("the allocation site is the first frame outside the library", function () {
+    // The sites are identified by the names of the calling functions, so this does not depend on the file names.
+    function allocate_list(): Cons {
+        return items_to_cons(create_sym("f"), create_sym("x"));
+    }
+    function construct_cell(): Cons {
+        return new Cons(create_sym("g"), nil);
+    }
+    function map_list(X: Cons): Cons {
+        return X.map(function (item) {
+            item.addRef();
+            return item;
+        });
+    }
+    const site = (node: Cons) => (detector.leaks().find(leak => leak.node === node)?.stack as string).split("\n")[0];
+    const X = allocate_list();
+    expect(site(X)).toMatch(/allocate_list/);
+    const Y = construct_cell();
+    expect(site(Y)).toMatch(/construct_cell/);
+    const Z = map_list(X);
+    expect(site(Z)).toMatch(/map_list/);
+    X.release();
+    Y.release();
+    Z.release();
+    // The frames are the same when the cell is reused from the pool, which is only filled while no detector is enabled.
+    set_cons_pool_capacity(10);
+    try {
+        detector.disable();
+        allocate_list().release();
+        detector.enable();
+        const W = allocate_list();
+        expect(cons_pool_stats().reused).toBeGreaterThan(0);
+        expect(site(W)).toMatch(/allocate_list/);
+        W.release();
+    }
+    finally {
+        set_cons_pool_capacity(0);
+    }
+});
+test("stack capture can be disabled", function () {
+    detector.disable();
+    detector = new LeakDetector({ captureStacks: false }).enable();
+    const X = items_to_cons(create_sym("f"));
+    expect(detector.leaks()[0].stack).toBeUndefined();
+    X.release();
+});
+test("release below zero throws", function () {
+    const X = items_to_cons(create_sym("f"));
+    X.release();
+    expect(() => X.release()).toThrow(/release\(\) called on a destroyed Cons/);
+});
+test("use after destruction throws", function () {
+    const X = items_to_cons(create_sym("f"));
+    X.release();
+    expect(() => X.car).toThrow(/car called on a destroyed Cons/);
+    expect(() => X.cdr).toThrow(/cdr called on a destroyed Cons/);
+    expect(() => X.addRef()).toThrow(/addRef\(\) called on a destroyed Cons/);
+});
+test("no checks when disabled", function () {
+    detector.disable();
+    const X = items_to_cons(create_sym("f"));
+    X.release();
+    expect(() => X.release()).not.toThrow();
+});
+test("Cons accessors do not leak", function () {
+    const X = parse("(power (f a b) 2)");
+    const checkpoint = detector.checkpoint();
+    const use = function (u: U) {
+        u.release();
+    };
+    use(X.base);
+    use(X.expo);
+    use(X.opr);
+    use(X.item(2));
+    expect(X.length).toBe(3);
+    expect(is_singleton(X)).toBe(false);
+    const Y = parse("(power (f a b) 2)");
+    expect(X.equals(Y)).toBe(true);
+    Y.release();
+    for (const item of X) {
+        item.release();
+    }
+    for (const item of X) {
+        item.release();
+        break;
+    }
+    use(X.map(function (item) {
+        item.addRef();
+        return item;
+    }));
+    detector.assertNoLeaks(checkpoint);
+    X.release();
+});
+test("library operations do not leak", function () {
+    const checkpoint = detector.checkpoint();
+    const X = parse("(+ (* a 1) (+ b 0))");
+    const pattern = items_to_cons(create_sym("*"), create_wild("a"), standard_atom_factory.num("1", 0, 1));
+    const lhs = X.lhs;
+    const bindings = match(pattern, lhs);
+    lhs.release();
+    expect(bindings).toBeDefined();
+    release_bindings(bindings as Map<string, U>);
+    const result = rewrite(X, [{ name: "mul-one", pattern, replacement: create_wild("a") }]);
+    expect(result.expr.toString()).toBe("(+ (a ((+ (b (0 ()))) ())))");
+    result.expr.release();
+    pattern.release();
+    X.release();
+    detector.assertNoLeaks(checkpoint);
+});
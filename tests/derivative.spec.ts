@@ -0,0 +1,107 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { default_derivatives, derivative } from "../src/derivative";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { is_cons, items_to_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function d(sourceText: string, variable = "x"): string {
+    return print_sexpr(derivative(parse(sourceText), create_sym(variable)));
+}
+
+test("constants and variables", function () {
+    expect(d("x")).toBe("1");
+    expect(d("y")).toBe("0");
+    expect(d("42")).toBe("0");
+    expect(d("(sin y)")).toBe("0");
+});
+
+test("sums, differences and negations", function () {
+    expect(d("(+ x y 3)")).toBe("1");
+    expect(d("(+ (* 2 x) (* 3 x))")).toBe("5");
+    expect(d("(- x)")).toBe("-1");
+    expect(d("(- x y)")).toBe("1");
+    expect(d("(- y x)")).toBe("-1");
+    expect(d("(- (sin x) (cos x))")).toBe("(- (cos x) (* -1 (sin x)))");
+});
+
+test("products", function () {
+    expect(d("(* 3 x)")).toBe("3");
+    expect(d("(* a x)")).toBe("a");
+    expect(d("(* x y)")).toBe("y");
+    expect(d("(* x (sin x))")).toBe("(+ (sin x) (* x (cos x)))");
+});
+
+test("quotients", function () {
+    expect(d("(/ x 2)")).toBe("1/2");
+    expect(d("(/ (sin x) y)")).toBe("(/ (cos x) y)");
+    expect(d("(/ 1 x)")).toBe("(/ -1 (power x 2))");
+    expect(d("(/ x (+ x 1))")).toBe("(/ (- (+ x 1) x) (power (+ x 1) 2))");
+});
+
+test("powers", function () {
+    expect(d("(power x 3)")).toBe("(* 3 (power x 2))");
+    expect(d("(power x 2)")).toBe("(* 2 x)");
+    expect(d("(power x n)")).toBe("(* n (power x (+ n -1)))");
+    expect(d("(power 2 x)")).toBe("(* (power 2 x) (log 2))");
+    expect(d("(power x x)")).toBe("(* (power x x) (+ (log x) (/ x x)))");
+});
+
+test("the chain rule", function () {
+    expect(d("(sin (* 2 x))")).toBe("(* 2 (cos (* 2 x)))");
+    expect(d("(exp (power x 2))")).toBe("(* 2 (exp (power x 2)) x)");
+    expect(d("(cos x)")).toBe("(* -1 (sin x))");
+    expect(d("(log (sin x))")).toBe("(* (/ 1 (sin x)) (cos x))");
+    expect(d("(tan x)")).toBe("(power (cos x) -2)");
+    expect(d("(sqrt x)")).toBe("(/ 1/2 (sqrt x))");
+});
+
+test("functions without a rule are returned unevaluated", function () {
+    expect(d("(f x)")).toBe("(derivative (f x) x)");
+    expect(d("(* 2 (f x y))")).toBe("(* 2 (derivative (f x y) x))");
+    expect(d("(f y)")).toBe("0");
+});
+
+test("user functions", function () {
+    const functions = default_derivatives().add("sinh", (u, expr) => items_to_cons(create_sym("cosh", expr.pos, expr.end), u));
+    const X = parse("(sinh (power x 2))");
+    expect(print_sexpr(derivative(X, create_sym("x"), { functions }))).toBe("(* 2 (cosh (power x 2)) x)");
+    expect(default_derivatives().find("sinh")).toBeUndefined();
+});
+
+test("the derivative keeps the pos and end of the source", function () {
+    const X = parse("(+ 1 (sin x))");
+    const Y = derivative(X, create_sym("x"));
+    expect(print_sexpr(Y)).toBe("(cos x)");
+    expect(Y.pos).toBe(5);
+    expect(Y.end).toBe(12);
+    const Z = derivative(parse("(* x (sin x))"), create_sym("x"));
+    expect(Z.pos).toBe(0);
+    expect(Z.end).toBe(13);
+});
+
+test("derivative shares subexpressions of the source", function () {
+    const X = parse("(exp (sin x))");
+    const Y = derivative(X, create_sym("x"));
+    expect(is_cons(Y) && Y.item(1)).toBe(X);
+});
+
+test("derivative releases what it creates", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(+ (* x (sin x)) (/ x (+ x 1)) (power x x) (f x))");
+        const checkpoint = detector.checkpoint();
+        const Y = derivative(X, create_sym("x"));
+        Y.release();
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
@@ -0,0 +1,133 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { diff, Edit, patch, PatchError, release_edits } from "../src/diff";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function describe_edits(edits: Edit[]): string[] {
+    return edits.map(function (edit) {
+        switch (edit.op) {
+            case 'insert':
+            case 'replace': {
+                return `${edit.op} [${edit.path}] ${print_sexpr(edit.value)}`;
+            }
+            case 'delete': {
+                return `delete [${edit.path}]`;
+            }
+            case 'move': {
+                return `move [${edit.from}] [${edit.path}]`;
+            }
+        }
+    });
+}
+
+function edits(a: string, b: string): string[] {
+    return describe_edits(diff(parse(a), parse(b)));
+}
+
+function round_trip(a: string, b: string): void {
+    const A = parse(a);
+    const B = parse(b);
+    const C = patch(A, diff(A, B));
+    expect(print_sexpr(C)).toBe(print_sexpr(B));
+    expect(C.equals(B)).toBe(true);
+}
+
+test("equal expressions have no edits", function () {
+    expect(edits("(+ a (* b c))", "(+ a (* b c))")).toEqual([]);
+    expect(edits("x", "x")).toEqual([]);
+});
+
+test("replace", function () {
+    expect(edits("x", "y")).toEqual(["replace [] y"]);
+    expect(edits("(+ a b)", "(* a b)")).toEqual(["replace [] (* a b)"]);
+    expect(edits("(+ a (* b c))", "(+ a (* b d))")).toEqual(["replace [2,2] d"]);
+    expect(edits("(+ a (* b c))", "(+ a (- b c))")).toEqual(["replace [2] (- b c)"]);
+});
+
+test("insert and delete", function () {
+    expect(edits("(+ a b)", "(+ a x b)")).toEqual(["insert [2] x"]);
+    expect(edits("(+ a x b)", "(+ a b)")).toEqual(["delete [2]"]);
+    expect(edits("(f a b c d)", "(f b d e)")).toEqual(["delete [3]", "delete [1]", "insert [3] e"]);
+    expect(edits("(f)", "(f (g x))")).toEqual(["insert [1] (g x)"]);
+});
+
+test("move", function () {
+    expect(edits("(+ a b c)", "(+ c a b)")).toEqual(["move [3] [1]"]);
+    expect(edits("(f (g x) y z)", "(f y z (g x))")).toEqual(["move [2] [1]", "move [3] [2]"]);
+});
+
+test("patch applies the edits of diff", function () {
+    round_trip("(+ a (* b c) (sin x))", "(+ (sin x) a (* b d) e)");
+    round_trip("(f a b c d e)", "(f e d c b a)");
+    round_trip("(f (g (h 1 2) 3) 4)", "(f (g (h 2 1)) 4 5)");
+    round_trip("(f 1)", "x");
+    round_trip("(f 1 2 3)", "(f)");
+    round_trip("(f)", "(f 1 2 3)");
+    round_trip("(= (+ 1 2) (* 3 4))", "(= (* 3 4) (+ 1 2))");
+});
+
+test("patch shares unchanged subexpressions and keeps spans", function () {
+    const A = parse("(+ (* a b) (sin (+ x 1)) (cos y))");
+    const B = parse("(+ (* a b) (sin (+ x 2)) (cos y))");
+    const C = patch(A, diff(A, B));
+    expect(print_sexpr(C)).toBe("(+ (* a b) (sin (+ x 2)) (cos y))");
+    if (is_cons(A) && is_cons(C)) {
+        expect(C.item(1)).toBe(A.item(1));
+        expect(C.item(3)).toBe(A.item(3));
+        expect(C.item(2)).not.toBe(A.item(2));
+        expect(C.pos).toBe(A.pos);
+        expect(C.end).toBe(A.end);
+        expect(C.item(2).pos).toBe(11);
+        expect(C.item(2).end).toBe(24);
+    }
+    else {
+        throw new Error();
+    }
+});
+
+test("patch with explicit edits", function () {
+    const A = parse("(f a b)");
+    expect(print_sexpr(patch(A, [{ op: 'insert', path: [0], value: create_sym("g") }]))).toBe("(g f a b)");
+    expect(print_sexpr(patch(A, [{ op: 'insert', path: [3], value: create_sym("c") }]))).toBe("(f a b c)");
+    expect(print_sexpr(patch(A, [{ op: 'move', from: [1], path: [2] }]))).toBe("(f b a)");
+    expect(print_sexpr(patch(A, [{ op: 'delete', path: [0] }, { op: 'replace', path: [0], value: create_sym("x") }]))).toBe("(x b)");
+    expect(patch(A, [])).toBe(A);
+});
+
+test("patch errors", function () {
+    const A = parse("(f a (g b))");
+    expect(() => patch(A, [{ op: 'delete', path: [3] }])).toThrow(PatchError);
+    expect(() => patch(A, [{ op: 'delete', path: [3] }])).toThrow("Index 3 is out of range for a list of length 3 at [3]");
+    expect(() => patch(A, [{ op: 'insert', path: [1, 0], value: create_sym("x") }])).toThrow("Expecting a non-empty list at [1]");
+    expect(() => patch(A, [{ op: 'replace', path: [5, 0], value: create_sym("x") }])).toThrow("Index 5 is out of range at [5]");
+    expect(() => patch(A, [{ op: 'move', from: [2, 1], path: [1] }])).toThrow("A move must be within the same list at [2, 1]");
+    expect(() => patch(A, [{ op: 'delete', path: [] }])).toThrow("Unable to delete the root at []");
+});
+
+test("diff and patch release what they create", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const A = parse("(+ a (* b c) (sin x) (f 1 2 3))");
+        const B = parse("(+ (sin x) a (* b d) (f 3 2) e)");
+        const checkpoint = detector.checkpoint();
+        const edits = diff(A, B);
+        const C = patch(A, edits);
+        expect(C.equals(B)).toBe(true);
+        C.release();
+        release_edits(edits);
+        expect(() => patch(A, [{ op: 'delete', path: [2, 7] }])).toThrow(PatchError);
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(A) && A.refCount).toBe(1);
+        A.release();
+        B.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
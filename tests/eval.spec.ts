@@ -0,0 +1,130 @@
+import { is_rat, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { ArityError, Environment, EvalOptions, evaluate, EvaluationError, number_constant, number_operations, OperationTable, UnboundSymbolError } from "../src/eval";
+import { read } from "../src/reader";
+import { is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+const numbers: EvalOptions<number> = { operations: number_operations(), constant: number_constant };
+
+function calc(sourceText: string, env: Environment<number> = new Environment<number>()): number {
+    return evaluate(parse(sourceText), env, numbers);
+}
+
+test("arithmetic on numbers", function () {
+    expect(calc("(+ 1 2 3)")).toBe(6);
+    expect(calc("(* 2 (+ 3 4))")).toBe(14);
+    expect(calc("(- 5)")).toBe(-5);
+    expect(calc("(- 5 2)")).toBe(3);
+    expect(calc("(/ 1 4)")).toBe(0.25);
+    expect(calc("(^ 2 10)")).toBe(1024);
+    expect(calc("(power 3 2)")).toBe(9);
+    expect(calc("(sqrt 2.25)")).toBe(1.5);
+    expect(calc("(max 1 5 3)")).toBe(5);
+    expect(calc("(+)")).toBe(0);
+    expect(calc("7.5")).toBe(7.5);
+});
+
+test("symbols are looked up in the environment", function () {
+    const env = new Environment<number>().define("x", 3).define("pi", Math.PI);
+    expect(calc("(* 2 x)", env)).toBe(6);
+    expect(calc("(cos pi)", env)).toBe(-1);
+    const inner = env.extend().define("x", 10);
+    expect(calc("(+ x 1)", inner)).toBe(11);
+    expect(calc("(+ x 1)", env)).toBe(4);
+    expect(inner.has("pi")).toBe(true);
+    expect(inner.lookup("y")).toBeUndefined();
+});
+
+test("unbound symbols", function () {
+    const X = parse("(+ 1 (* 2 y))");
+    let error: UnboundSymbolError | undefined;
+    try {
+        evaluate(X, new Environment<number>(), numbers);
+    }
+    catch (e) {
+        error = e as UnboundSymbolError;
+    }
+    expect(error).toBeInstanceOf(UnboundSymbolError);
+    expect(error).toBeInstanceOf(EvaluationError);
+    if (error) {
+        expect(error.key).toBe("y");
+        expect(error.pos).toBe(10);
+        expect(error.end).toBe(11);
+        expect(error.message).toBe('Unbound symbol "y" at 10');
+    }
+});
+
+test("arity mismatches", function () {
+    expect(() => calc("(/ 1 2 3)")).toThrow(new ArityError("/", 2, 2, 3, 0, 9));
+    expect(() => calc("(/ 1 2 3)")).toThrow('"/" expects 2 arguments but was given 3 at 0');
+    expect(() => calc("(- 1 2 3)")).toThrow('"-" expects 1 to 2 arguments but was given 3 at 0');
+    expect(() => calc("(max)")).toThrow('"max" expects at least 1 argument but was given 0 at 0');
+    expect(() => calc("(sin)")).toThrow('"sin" expects 1 argument but was given 0 at 0');
+});
+
+test("unknown operators and values", function () {
+    expect(() => calc("(+ 1 (foo 2))")).toThrow('Unknown operator "foo" at 6');
+    expect(() => calc("((f) 2)")).toThrow(EvaluationError);
+    expect(() => calc('(+ 1 "a")')).toThrow('Unable to evaluate "a" at 5');
+    expect(() => calc("()")).toThrow("Unable to evaluate ()");
+});
+
+test("operations may be replaced or added", function () {
+    const operations = number_operations().add({ key: "hypot", minArgs: 2, maxArgs: 2, apply: args => Math.hypot(args[0], args[1]) });
+    const options: EvalOptions<number> = { operations, constant: number_constant };
+    expect(evaluate(parse("(hypot 3 4)"), new Environment<number>(), options)).toBe(5);
+    expect(number_operations().find("hypot")).toBeUndefined();
+    expect(operations.clone().find("hypot")).toBe(operations.find("hypot"));
+});
+
+test("bigint values", function () {
+    const options: EvalOptions<bigint> = {
+        operations: new OperationTable<bigint>()
+            .add({ key: "+", apply: args => args.reduce((sum, x) => sum + x, BigInt(0)) })
+            .add({ key: "*", apply: args => args.reduce((product, x) => product * x, BigInt(1)) }),
+        constant: atom => is_rat(atom) && atom.denom === BigInt(1) ? atom.numer : void 0
+    };
+    const env = new Environment<bigint>().define("n", BigInt("12345678901234567890"));
+    expect(evaluate(parse("(* n n)"), env, options)).toBe(BigInt("152415787532388367501905199875019052100"));
+});
+
+type Interval = [lo: number, hi: number];
+
+test("interval values", function () {
+    const options: EvalOptions<Interval> = {
+        operations: new OperationTable<Interval>()
+            .add({ key: "+", minArgs: 2, maxArgs: 2, apply: ([a, b]) => [a[0] + b[0], a[1] + b[1]] })
+            .add({
+                key: "*", minArgs: 2, maxArgs: 2, apply: function ([a, b]) {
+                    const products = [a[0] * b[0], a[0] * b[1], a[1] * b[0], a[1] * b[1]];
+                    return [Math.min(...products), Math.max(...products)];
+                }
+            }),
+        constant: function (atom) {
+            const x = number_constant(atom);
+            return typeof x === 'number' ? [x, x] : void 0;
+        }
+    };
+    const env = new Environment<Interval>().define("x", [-1, 2]);
+    expect(evaluate(parse("(+ (* x x) 1)"), env, options)).toEqual([-1, 5]);
+});
+
+test("evaluate releases what it creates", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(+ (* 2 x) (sin (- x x)))");
+        const checkpoint = detector.checkpoint();
+        expect(evaluate(X, new Environment<number>().define("x", 4), numbers)).toBe(8);
+        expect(() => evaluate(X, new Environment<number>(), numbers)).toThrow(UnboundSymbolError);
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
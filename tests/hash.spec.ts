@@ -0,0 +1,114 @@
+import { create_flt, create_rat, create_str, create_sym, standard_atom_factory } from "../src/atoms";
+import { ExprMap, HashConsFactory } from "../src/hash";
+import { read } from "../src/reader";
+import { Atom, Cons, cons, hash_of, items_to_cons, nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+/**
+ * This is just a test atom, so it does not provide a hash.
+ */
+class MyAtom implements Atom {
+    readonly name = "MyAtom";
+    readonly type = "myatom";
+    constructor(readonly value: string) {
+    }
+    addRef(): void {
+    }
+    release(): void {
+    }
+    contains(needle: U): boolean {
+        return this.equals(needle);
+    }
+    equals(other: U): boolean {
+        return other instanceof MyAtom && other.value === this.value;
+    }
+    get iscons(): boolean {
+        return false;
+    }
+    get isnil(): boolean {
+        return false;
+    }
+}
+
+test("hash_of atoms", function () {
+    expect(hash_of(create_sym("x"))).toBe(hash_of(create_sym("x", 5, 6)));
+    expect(hash_of(create_sym("x"))).not.toBe(hash_of(create_sym("y")));
+    expect(hash_of(create_rat(1, 2))).toBe(hash_of(create_rat(2, 4)));
+    expect(hash_of(create_rat(1))).not.toBe(hash_of(create_flt(1)));
+    expect(hash_of(create_str("x"))).not.toBe(hash_of(create_sym("x")));
+    expect(hash_of(create_flt(0))).toBe(hash_of(create_flt(-0)));
+    expect(hash_of(new MyAtom("a"))).toBe(hash_of(new MyAtom("b")));
+});
+test("Cons.hash", function () {
+    const a = parse("(+ (* a b) c)") as Cons;
+    const b = parse("  (+ (* a b)   c)") as Cons;
+    expect(a.hash).toBe(b.hash);
+    expect(a.hash).not.toBe((parse("(+ c (* a b))") as Cons).hash);
+    expect(a.hash).not.toBe((parse("(+ (* a b))") as Cons).hash);
+    expect(nil.hash).toBe(new Cons(void 0, void 0, 1, 2).hash);
+    expect(hash_of(a)).toBe(a.hash);
+    // Hashing is stable across calls.
+    expect(a.hash).toBe(a.hash);
+});
+test("Cons.hash of long lists", function () {
+    const items: U[] = [];
+    for (let i = 0; i < 10000; i++) {
+        items.push(create_rat(i));
+    }
+    const X = items_to_cons(...items);
+    const Y = items_to_cons(...items);
+    expect(X.hash).toBe(Y.hash);
+    expect(X.equals(Y)).toBe(true);
+});
+test("equals short-circuits on hash mismatch", function () {
+    const a = parse("(f x y)") as Cons;
+    const b = parse("(f x z)") as Cons;
+    expect(a.equals(b)).toBe(false);
+    expect(a.equals(parse("(f x y)"))).toBe(true);
+});
+test("ExprMap", function () {
+    const map = new ExprMap<number>();
+    map.set(parse("(+ a b)"), 1);
+    map.set(create_sym("x"), 2);
+    map.set(parse("(+ a b)"), 3);
+    expect(map.size).toBe(2);
+    expect(map.get(parse("(+ a b)"))).toBe(3);
+    expect(map.get(create_sym("x"))).toBe(2);
+    expect(map.has(parse("(+ b a)"))).toBe(false);
+    expect(map.get(parse("(+ b a)"))).toBeUndefined();
+    expect([...map.values()].sort()).toStrictEqual([2, 3]);
+    expect(map.delete(parse("(+ a b)"))).toBe(true);
+    expect(map.delete(parse("(+ a b)"))).toBe(false);
+    expect(map.size).toBe(1);
+    map.clear();
+    expect(map.size).toBe(0);
+    expect([...map]).toStrictEqual([]);
+});
+test("HashConsFactory", function () {
+    const factory = new HashConsFactory();
+    const x = create_sym("x");
+    const a = factory.items_to_cons(create_sym("f"), x);
+    const b = factory.items_to_cons(create_sym("f"), x);
+    expect(a).toBe(b);
+    expect(a.hash).toBe((parse("(f x)") as Cons).hash);
+    const c = factory.cons(create_sym("g"), a);
+    const d = factory.cons(create_sym("g"), b);
+    expect(c).toBe(d);
+    expect(factory.cons(create_sym("f"), nil)).not.toBe(a);
+    expect(factory.size).toBe(4);
+    factory.clear();
+    expect(factory.size).toBe(0);
+    expect(cons(x, nil).equals(cons(x, nil))).toBe(true);
+});
+test("HashConsFactory.intern", function () {
+    const factory = new HashConsFactory();
+    const a = factory.intern(parse("(+ (* a b) (* a b))")) as Cons;
+    const b = factory.intern(parse("(- (* a b))")) as Cons;
+    expect(a.lhs).toBe(a.rhs);
+    expect(a.lhs).toBe(b.arg);
+    expect(a.equals(parse("(+ (* a b) (* a b))"))).toBe(true);
+    expect(factory.intern(create_sym("a"))).toBe(create_sym("a"));
+});
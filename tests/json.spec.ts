@@ -0,0 +1,152 @@
+import { AbstractAtom, create_flt, create_rat, create_sym, is_rat, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { decode_json, encode_json, JSON_SCHEMA_VERSION, JsonDecodeError, parse_json, standard_atom_codecs, stringify_json } from "../src/json";
+import { read } from "../src/reader";
+import { Cons, cons, is_cons, items_to_cons, nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+class Color extends AbstractAtom {
+    readonly name = "Color";
+    readonly type = "color";
+    constructor(readonly rgb: [number, number, number], pos?: number, end?: number) {
+        super(pos, end);
+    }
+    equals(other: U): boolean {
+        return other instanceof Color && other.rgb.every((c, i) => c === this.rgb[i]);
+    }
+    toString(): string {
+        return `#${this.rgb.map(c => c.toString(16).padStart(2, "0")).join("")}`;
+    }
+}
+
+function decode_error(f: () => unknown): JsonDecodeError {
+    try {
+        f();
+    }
+    catch (e) {
+        if (e instanceof JsonDecodeError) {
+            return e;
+        }
+        throw e;
+    }
+    throw new Error("Expecting a JsonDecodeError");
+}
+
+test("round trip", function () {
+    const X = items_to_cons(parse('(f x (g "s" 2.5 true) () 12345678901234567890)'), create_rat(-3, 4));
+    const Y = parse_json(stringify_json(X));
+    expect(Y.equals(X)).toBe(true);
+    expect(`${Y}`).toBe(`${X}`);
+});
+test("encoding", function () {
+    const doc = encode_json(parse("(+ x 1)"));
+    expect(doc).toStrictEqual({
+        version: JSON_SCHEMA_VERSION,
+        expr: {
+            kind: "list",
+            pos: 0,
+            end: 7,
+            items: [
+                { kind: "atom", type: "sym", value: "+", pos: 1, end: 2 },
+                { kind: "atom", type: "sym", value: "x", pos: 3, end: 4 },
+                { kind: "atom", type: "rat", value: { numer: "1", denom: "1" }, pos: 5, end: 6 }
+            ]
+        }
+    });
+    expect(encode_json(nil)).toStrictEqual({ version: JSON_SCHEMA_VERSION, expr: { kind: "nil" } });
+});
+test("source positions are preserved", function () {
+    const sourceText = "(a (b c))";
+    const Y = decode_json(JSON.parse(stringify_json(parse(sourceText)))) as Cons;
+    expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+    const a = Y.head;
+    const inner = Y.arg as Cons;
+    expect([a.pos, a.end]).toStrictEqual([1, 2]);
+    expect([inner.pos, inner.end]).toStrictEqual([3, 8]);
+    // Spans on tail cells and on the terminating empty list are also preserved.
+    const Z = cons(create_sym("p"), new Cons(create_sym("q"), new Cons(void 0, void 0, 7, 8), 4, 6), 0, 9);
+    const doc = encode_json(Z);
+    expect(doc.expr).toMatchObject({ spans: [[1, 4, 6], [2, 7, 8]] });
+    const W = decode_json(doc) as Cons;
+    const rest = W.cdr;
+    expect([rest.pos, rest.end]).toStrictEqual([4, 6]);
+    const last = rest.cdr;
+    expect(last.isnil).toBe(true);
+    expect([last.pos, last.end]).toStrictEqual([7, 8]);
+});
+test("standard atoms", function () {
+    for (const value of [NaN, Infinity, -Infinity, -0, 0.5]) {
+        const Y = parse_json(stringify_json(create_flt(value)));
+        expect(Y.equals(create_flt(value))).toBe(true);
+    }
+    const big = parse_json(stringify_json(create_rat(BigInt("-98765432109876543210"), 11)));
+    expect(is_rat(big) && big.numer).toBe(BigInt("-98765432109876543210"));
+    // Symbols without positions are interned.
+    expect(decode_json(encode_json(create_sym("x")))).toBe(create_sym("x"));
+});
+test("custom atom codecs", function () {
+    const X = items_to_cons(create_sym("fill"), new Color([255, 0, 128], 1, 8));
+    expect(() => encode_json(X)).toThrow(/No codec is registered for atom type "color"/);
+    const codecs = standard_atom_codecs().add({
+        type: "color",
+        encode: atom => (atom as Color).rgb,
+        decode: function (value, pos, end) {
+            if (Array.isArray(value) && value.length === 3 && value.every(c => typeof c === "number")) {
+                return new Color(value as [number, number, number], pos, end);
+            }
+            throw new Error("Expecting [r, g, b]");
+        }
+    });
+    const Y = parse_json(stringify_json(X, codecs), codecs) as Cons;
+    expect(Y.equals(X)).toBe(true);
+    const color = Y.arg;
+    expect(color).toBeInstanceOf(Color);
+    expect([color.pos, color.end]).toStrictEqual([1, 8]);
+    const e = decode_error(() => decode_json({ version: 1, expr: { kind: "list", items: [{ kind: "atom", type: "color", value: [1, 2] }] } }, codecs));
+    expect(e.path).toBe("$.expr.items[0].value");
+    expect(e.message).toBe("Expecting [r, g, b] at $.expr.items[0].value");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "atom", type: "color", value: [1, 2, 3] } })).path).toBe("$.expr.type");
+});
+test("validation", function () {
+    expect(decode_error(() => decode_json(null)).path).toBe("$");
+    expect(decode_error(() => decode_json({ version: 2, expr: { kind: "nil" } })).path).toBe("$.version");
+    expect(decode_error(() => decode_json({ version: 1 })).path).toBe("$.expr");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "cons" } })).path).toBe("$.expr.kind");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "list", items: {} } })).path).toBe("$.expr.items");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "nil", pos: -1 } })).path).toBe("$.expr.pos");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "atom", type: "sym", value: 1 } })).path).toBe("$.expr.value");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "atom", type: "sym" } })).path).toBe("$.expr");
+    const items = [{ kind: "atom", type: "sym", value: "a" }];
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "list", items, spans: [[2, 0, 1]] } })).path).toBe("$.expr.spans[0][0]");
+    expect(decode_error(() => decode_json({ version: 1, expr: { kind: "list", items, spans: [[1, "0", 1]] } })).path).toBe("$.expr.spans[0][1]");
+    expect(decode_error(() => parse_json("{")).path).toBe("$");
+});
+describe("reference counting", function () {
+    let detector: LeakDetector;
+    beforeEach(function () {
+        detector = new LeakDetector().enable();
+    });
+    afterEach(function () {
+        detector.disable();
+    });
+    test("decoded trees are released completely", function () {
+        const X = parse("(f (g x 1) (h (k y)) z)");
+        const text = stringify_json(X);
+        const checkpoint = detector.checkpoint();
+        const Y = parse_json(text);
+        expect(is_cons(Y) && Y.refCount).toBe(1);
+        Y.release();
+        detector.assertNoLeaks(checkpoint);
+        X.release();
+    });
+    test("partially decoded trees are released when validation fails", function () {
+        const doc = encode_json(parse("(f (g x) (h y))"));
+        (doc.expr as { items: unknown[] }).items.push({ kind: "bogus" });
+        const checkpoint = detector.checkpoint();
+        expect(() => decode_json(doc)).toThrow(JsonDecodeError);
+        detector.assertNoLeaks(checkpoint);
+    });
+});
@@ -0,0 +1,93 @@
+import { AbstractAtom, standard_atom_factory } from "../src/atoms";
+import { LatexRenderer, render_latex } from "../src/latex";
+import { read } from "../src/reader";
+import { nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function latex(sourceText: string): string {
+    return render_latex(parse(sourceText));
+}
+
+class Vec extends AbstractAtom {
+    readonly name = "Vec";
+    readonly type = "vec";
+    constructor(readonly label: string) {
+        super();
+    }
+    equals(other: U): boolean {
+        return other instanceof Vec && other.label === this.label;
+    }
+    toString(): string {
+        return this.label;
+    }
+}
+
+test("atoms", function () {
+    expect(latex("x")).toBe("x");
+    expect(latex("alpha")).toBe("\\alpha");
+    expect(latex("x_1")).toBe("x_{1}");
+    expect(latex("speed")).toBe("\\mathrm{speed}");
+    expect(latex("42")).toBe("42");
+    expect(latex("2.5")).toBe("2.5");
+    expect(latex('"a&b"')).toBe("\\text{a\\&b}");
+    expect(latex("true")).toBe("\\mathrm{true}");
+    expect(render_latex(nil)).toBe("()");
+});
+test("sums and products", function () {
+    expect(latex("(+ a b c)")).toBe("a + b + c");
+    expect(latex("(+ a (- b))")).toBe("a - b");
+    expect(latex("(+ a (- (+ b c)))")).toBe("a - \\left(b + c\\right)");
+    expect(latex("(- a b)")).toBe("a - b");
+    expect(latex("(- a (- b c))")).toBe("a - \\left(b - c\\right)");
+    expect(latex("(- x)")).toBe("-x");
+    expect(latex("(* 2 x)")).toBe("2 \\cdot x");
+    expect(latex("(* (+ a b) c)")).toBe("\\left(a + b\\right) \\cdot c");
+    expect(latex("(* a (- b))")).toBe("a \\cdot -b");
+});
+test("division and powers", function () {
+    expect(latex("(/ (+ a b) 2)")).toBe("\\frac{a + b}{2}");
+    expect(latex("(* 2 (/ a b))")).toBe("2 \\cdot \\frac{a}{b}");
+    expect(latex("(power x 2)")).toBe("{x}^{2}");
+    expect(latex("(power (+ x 1) (+ n 1))")).toBe("{\\left(x + 1\\right)}^{n + 1}");
+    expect(latex("(power (/ a b) 2)")).toBe("{\\left(\\frac{a}{b}\\right)}^{2}");
+    expect(latex("(power -2 n)")).toBe("{\\left(-2\\right)}^{n}");
+    expect(latex("(^ e x)")).toBe("{e}^{x}");
+    expect(render_latex(standard_atom_factory.num("3", 0, 1))).toBe("3");
+    expect(latex("(sqrt x)")).toBe("\\sqrt{x}");
+    expect(latex("(abs x)")).toBe("\\left|x\\right|");
+});
+test("operators with the wrong number of arguments are rendered as applications", function () {
+    expect(latex("(/ a)")).toBe("/\\left(a\\right)");
+    expect(latex("(/ a b c)")).toBe("/\\left(a, b, c\\right)");
+    expect(latex("(sqrt)")).toBe("\\mathrm{sqrt}\\left(\\right)");
+    expect(latex("(abs x y)")).toBe("\\mathrm{abs}\\left(x, y\\right)");
+    expect(latex("(* 2 (/ a))")).toBe("2 \\cdot /\\left(a\\right)");
+    expect(latex("(power x)")).toBe("\\mathrm{power}\\left(x\\right)");
+    expect(latex("(^ x 2 3)")).toBe("\\textasciicircum{}\\left(x, 2, 3\\right)");
+    expect(latex("(* 2 (power x))")).toBe("2 \\cdot \\mathrm{power}\\left(x\\right)");
+});
+test("function application", function () {
+    expect(latex("(sin x)")).toBe("\\sin\\left(x\\right)");
+    expect(latex("(f x y)")).toBe("f\\left(x, y\\right)");
+    expect(latex("(erf x)")).toBe("\\mathrm{erf}\\left(x\\right)");
+    expect(latex("(power (sin x) 2)")).toBe("{\\sin\\left(x\\right)}^{2}");
+});
+test("registered handlers", function () {
+    const renderer = new LatexRenderer();
+    renderer.registerOperator("dot", (expr, r) => `${r.renderOperand(expr.lhs, 30)} \\bullet ${r.renderOperand(expr.rhs, 31)}`, 30);
+    renderer.registerAtom("vec", atom => `\\vec{${atom}}`);
+    renderer.registerOperator("sin", (expr, r) => `\\operatorname{Sin}(${r.render(expr.arg)})`);
+    expect(renderer.render(new Vec("u"))).toBe("\\vec{u}");
+    const expr = read("(dot u (+ v w))", {
+        sym: (name, pos, end) => ["u", "v", "w"].includes(name) ? new Vec(name) : standard_atom_factory.sym(name, pos, end),
+        num: standard_atom_factory.num,
+        str: standard_atom_factory.str
+    });
+    expect(renderer.render(expr)).toBe("\\vec{u} \\bullet \\left(\\vec{v} + \\vec{w}\\right)");
+    expect(renderer.render(parse("(sin x)"))).toBe("\\operatorname{Sin}(x)");
+    // Other renderers are unaffected.
+    expect(render_latex(parse("(sin x)"))).toBe("\\sin\\left(x\\right)");
+});
@@ -0,0 +1,142 @@
+import { AbstractAtom, create_sym, standard_atom_factory, Sym } from "../src/atoms";
+import { Cons2 } from "../src/helpers";
+import { Bindings, create_rest, create_wild, instantiate, is_match2, is_wild, match, matches, release_bindings, unify } from "../src/match";
+import { read } from "../src/reader";
+import { Atom, is_atom, items_to_cons, nil, U } from "../src/tree";
+
+/**
+ * Reads an S-expression in which symbols starting with ? are item wildcards and symbols ending in ... are rest wildcards.
+ */
+function parse(sourceText: string): U {
+    return read(sourceText, {
+        sym(name: string, pos: number, end: number): U {
+            if (name.startsWith('?')) {
+                return name.endsWith('...') ? create_rest(name.substring(1, name.length - 3)) : create_wild(name.substring(1));
+            }
+            else {
+                return standard_atom_factory.sym(name, pos, end);
+            }
+        },
+        num: standard_atom_factory.num,
+        str: standard_atom_factory.str
+    });
+}
+
+/**
+ * This is just a test atom, so we expose the reference count.
+ */
+class Counted extends AbstractAtom {
+    readonly name = "Counted";
+    readonly type = "counted";
+    refCount = 1;
+    addRef(): void {
+        this.refCount++;
+        super.addRef();
+    }
+    release(): void {
+        this.refCount--;
+        super.release();
+    }
+    equals(other: U): boolean {
+        return other === this;
+    }
+}
+
+function show(bindings: Bindings | undefined): { [key: string]: string } | undefined {
+    if (bindings) {
+        const result: { [key: string]: string } = {};
+        for (const [key, value] of bindings) {
+            result[key] = `${value}`;
+        }
+        return result;
+    }
+    else {
+        return void 0;
+    }
+}
+
+test("Wild", function () {
+    const x = create_wild("x");
+    expect(is_atom(x)).toBe(true);
+    expect(is_wild(x)).toBe(true);
+    expect(x.toString()).toBe("?x");
+    expect(create_rest("xs").toString()).toBe("?xs...");
+    expect(x.equals(create_wild("x"))).toBe(true);
+    expect(x.equals(create_rest("x"))).toBe(false);
+});
+test("match atoms", function () {
+    expect(show(match(create_sym("a"), create_sym("a")))).toStrictEqual({});
+    expect(match(create_sym("a"), create_sym("b"))).toBeUndefined();
+    expect(show(match(create_wild("x"), parse("(f a)")))).toStrictEqual({ x: "(f (a ()))" });
+    expect(show(match(nil, nil))).toStrictEqual({});
+});
+test("match lists", function () {
+    expect(show(match(parse("(+ ?a ?b)"), parse("(+ x 2)")))).toStrictEqual({ a: "x", b: "2" });
+    expect(match(parse("(+ ?a ?b)"), parse("(* x 2)"))).toBeUndefined();
+    expect(match(parse("(+ ?a ?b)"), parse("(+ x 2 3)"))).toBeUndefined();
+    expect(match(parse("(+ ?a ?b)"), parse("(+ x)"))).toBeUndefined();
+    expect(match(parse("(+ ?a ?b)"), create_sym("x"))).toBeUndefined();
+    expect(show(match(parse("(+ (* ?a ?b) ?c)"), parse("(+ (* x y) z)")))).toStrictEqual({ a: "x", b: "y", c: "z" });
+});
+test("match repeated wildcards", function () {
+    expect(show(match(parse("(+ ?a ?a)"), parse("(+ (f x) (f x))")))).toStrictEqual({ a: "(f (x ()))" });
+    expect(match(parse("(+ ?a ?a)"), parse("(+ x y)"))).toBeUndefined();
+});
+test("match rest wildcards", function () {
+    expect(show(match(parse("(+ ?xs...)"), parse("(+ a b c)")))).toStrictEqual({ xs: "(a (b (c ())))" });
+    expect(show(match(parse("(+ ?xs...)"), parse("(+)")))).toStrictEqual({ xs: "()" });
+    expect(show(match(parse("(+ ?xs... 0 ?ys...)"), parse("(+ a 0 b c)")))).toStrictEqual({ xs: "(a ())", ys: "(b (c ()))" });
+    expect(match(parse("(+ ?xs... 0 ?ys...)"), parse("(+ a b c)"))).toBeUndefined();
+    expect(show(match(parse("(f ?xs... ?xs...)"), parse("(f a b a b)")))).toStrictEqual({ xs: "(a (b ()))" });
+    expect(match(parse("(f ?xs... ?xs...)"), parse("(f a b a)"))).toBeUndefined();
+    expect(() => match(create_rest("xs"), parse("(f)"))).toThrow();
+});
+test("match with existing bindings", function () {
+    const bindings: Bindings = new Map([["a", create_sym("x") as U]]);
+    expect(show(match(parse("(+ ?a ?b)"), parse("(+ x 2)"), bindings))).toStrictEqual({ a: "x", b: "2" });
+    expect(match(parse("(+ ?a ?b)"), parse("(+ y 2)"), bindings)).toBeUndefined();
+    const rest: Bindings = new Map([["xs", parse("(a b)")]]);
+    expect(show(match(parse("(f ?xs... c)"), parse("(f a b c)"), rest))).toStrictEqual({ xs: "(a (b ()))" });
+    expect(match(parse("(f ?xs... c)"), parse("(f a c)"), rest)).toBeUndefined();
+});
+test("match reference counting", function () {
+    const x = new Counted();
+    const expr = items_to_cons(create_sym("f"), x);
+    const before = x.refCount;
+    const bindings = match(parse("(f ?a)"), expr) as Bindings;
+    expect(bindings.get("a")).toBe(x);
+    expect(x.refCount).toBe(before + 1);
+    release_bindings(bindings);
+    expect(x.refCount).toBe(before);
+});
+test("matches and is_match2", function () {
+    const pattern = parse("(+ ?a ?b)");
+    const expr: U = parse("(+ x 2)");
+    expect(matches(pattern, expr)).toBe(true);
+    expect(matches(pattern, parse("(- x 2)"))).toBe(false);
+    if (is_match2<Sym, Sym, Atom>(pattern, expr)) {
+        const narrowed: Cons2<Sym, Sym, Atom> = expr;
+        expect(narrowed.opr.key).toBe("+");
+        expect(narrowed.lhs.key).toBe("x");
+        expect(narrowed.rhs.type).toBe("rat");
+    }
+    else {
+        throw new Error("Expecting a match");
+    }
+});
+test("instantiate", function () {
+    const bindings = match(parse("(+ ?a ?xs...)"), parse("(+ x y z)")) as Bindings;
+    expect(instantiate(parse("(* ?a (+ ?xs...) ?b)"), bindings).toString()).toBe("(* (x ((+ (y (z ()))) (?b ()))))");
+    expect(instantiate(create_wild("a"), bindings).toString()).toBe("x");
+    release_bindings(bindings);
+});
+test("unify", function () {
+    expect(show(unify(parse("(f ?x b)"), parse("(f a ?y)")))).toStrictEqual({ x: "a", y: "b" });
+    expect(show(unify(parse("(f ?x ?x)"), parse("(f ?y (g a))")))).toStrictEqual({ x: "(g (a ()))", y: "(g (a ()))" });
+    expect(show(unify(parse("(f ?x)"), parse("(f ?x)")))).toStrictEqual({});
+    expect(unify(parse("(f ?x)"), parse("(g ?x)"))).toBeUndefined();
+    expect(unify(parse("(f a)"), parse("(f a b)"))).toBeUndefined();
+    // occurs check
+    expect(unify(parse("?x"), parse("(f ?x)"))).toBeUndefined();
+    expect(() => unify(parse("(f ?xs...)"), parse("(f a)"))).toThrow();
+});
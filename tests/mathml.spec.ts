@@ -0,0 +1,56 @@
+import { standard_atom_factory } from "../src/atoms";
+import { MathMLRenderer, render_mathml } from "../src/mathml";
+import { read } from "../src/reader";
+import { U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function mathml(sourceText: string): string {
+    return new MathMLRenderer().render(parse(sourceText));
+}
+
+test("render_mathml", function () {
+    expect(render_mathml(parse("x"))).toBe('<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>');
+    expect(render_mathml(parse("x"), { display: true })).toBe('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block"><mi>x</mi></math>');
+});
+test("atoms", function () {
+    expect(mathml("theta")).toBe("<mi>θ</mi>");
+    expect(mathml("x_1")).toBe("<msub><mi>x</mi><mi>1</mi></msub>");
+    expect(mathml("42")).toBe("<mn>42</mn>");
+    expect(mathml("-42")).toBe("<mrow><mo>-</mo><mn>42</mn></mrow>");
+    expect(mathml("-2.5")).toBe("<mrow><mo>-</mo><mn>2.5</mn></mrow>");
+    expect(mathml('"a<b"')).toBe("<mtext>a&lt;b</mtext>");
+    expect(mathml("()")).toBe("<mrow><mo>(</mo><mo>)</mo></mrow>");
+});
+test("sums and products", function () {
+    expect(mathml("(+ a b)")).toBe("<mrow><mi>a</mi><mo>+</mo><mi>b</mi></mrow>");
+    expect(mathml("(+ a (- b))")).toBe("<mrow><mi>a</mi><mo>-</mo><mi>b</mi></mrow>");
+    expect(mathml("(- x)")).toBe("<mrow><mo>-</mo><mi>x</mi></mrow>");
+    expect(mathml("(* a (+ b c))")).toBe("<mrow><mi>a</mi><mo>⋅</mo><mrow><mo>(</mo><mrow><mi>b</mi><mo>+</mo><mi>c</mi></mrow><mo>)</mo></mrow></mrow>");
+});
+test("division and powers", function () {
+    expect(mathml("(/ 1 x)")).toBe("<mfrac><mn>1</mn><mi>x</mi></mfrac>");
+    expect(mathml("(power x 2)")).toBe("<msup><mi>x</mi><mn>2</mn></msup>");
+    expect(mathml("(power (+ x 1) 2)")).toBe("<msup><mrow><mo>(</mo><mrow><mi>x</mi><mo>+</mo><mn>1</mn></mrow><mo>)</mo></mrow><mn>2</mn></msup>");
+    expect(mathml("(sqrt x)")).toBe("<msqrt><mi>x</mi></msqrt>");
+});
+test("operators with the wrong number of arguments are rendered as applications", function () {
+    expect(mathml("(/ a)")).toBe("<mrow><mi>/</mi><mo>⁡</mo><mrow><mo>(</mo><mi>a</mi><mo>)</mo></mrow></mrow>");
+    expect(mathml("(sqrt)")).toBe("<mrow><mi>sqrt</mi><mo>⁡</mo><mrow><mo>(</mo><mo>)</mo></mrow></mrow>");
+    expect(mathml("(abs x y)")).toBe("<mrow><mi>abs</mi><mo>⁡</mo><mrow><mo>(</mo><mi>x</mi><mo>,</mo><mi>y</mi><mo>)</mo></mrow></mrow>");
+    expect(mathml("(power x)")).toBe("<mrow><mi>power</mi><mo>⁡</mo><mrow><mo>(</mo><mi>x</mi><mo>)</mo></mrow></mrow>");
+    expect(mathml("(power x 2 3)")).toBe("<mrow><mi>power</mi><mo>⁡</mo><mrow><mo>(</mo><mi>x</mi><mo>,</mo><mn>2</mn><mo>,</mo><mn>3</mn><mo>)</mo></mrow></mrow>");
+});
+test("function application", function () {
+    expect(mathml("(f x y)")).toBe("<mrow><mi>f</mi><mo>⁡</mo><mrow><mo>(</mo><mi>x</mi><mo>,</mo><mi>y</mi><mo>)</mo></mrow></mrow>");
+});
+test("registered handlers", function () {
+    const renderer = new MathMLRenderer();
+    renderer.registerOperator("factorial", (expr, r) => `<mrow>${r.renderOperand(expr.arg, Number.POSITIVE_INFINITY)}<mo>!</mo></mrow>`, 60);
+    renderer.registerAtom("boo", atom => `<mi mathvariant="bold">${atom}</mi>`);
+    expect(renderer.render(parse("(factorial n)"))).toBe("<mrow><mi>n</mi><mo>!</mo></mrow>");
+    expect(renderer.render(parse("(factorial (+ n 1))"))).toBe("<mrow><mrow><mo>(</mo><mrow><mi>n</mi><mo>+</mo><mn>1</mn></mrow><mo>)</mo></mrow><mo>!</mo></mrow>");
+    expect(renderer.render(parse("true"))).toBe('<mi mathvariant="bold">true</mi>');
+});
@@ -0,0 +1,173 @@
+import { create_rat, is_rat, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { ExprCache, memoize } from "../src/memo";
+import { read } from "../src/reader";
+import { is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+/**
+ * A value that counts its references.
+ */
+class Counted {
+    refCount = 1;
+    addRef(): void {
+        this.refCount++;
+    }
+    release(): void {
+        this.refCount--;
+    }
+}
+
+test("keys are compared by structure", function () {
+    const cache = new ExprCache<string>();
+    cache.set(parse("(+ a (* b c))"), "first");
+    expect(cache.get(parse("(+ a (* b c))"))).toBe("first");
+    expect(cache.get(parse("(+ a (* b d))"))).toBeUndefined();
+    expect(cache.has(parse("(+ a (* b c))"))).toBe(true);
+    cache.set(parse("(+ a (* b c))"), "second");
+    expect(cache.size).toBe(1);
+    expect(cache.get(parse("(+ a (* b c))"))).toBe("second");
+    expect(cache.stats).toEqual({ hits: 2, misses: 1, evictions: 0 });
+    expect(cache.hitRate).toBeCloseTo(2 / 3);
+    cache.clear();
+    expect(cache.size).toBe(0);
+});
+
+test("keys are compared by identity", function () {
+    const cache = new ExprCache<number>({ identity: true });
+    const X = parse("(f x)");
+    cache.set(X, 1);
+    expect(cache.get(X)).toBe(1);
+    expect(cache.get(parse("(f x)"))).toBeUndefined();
+    expect(cache.delete(X)).toBe(true);
+    expect(cache.delete(X)).toBe(false);
+    expect(cache.size).toBe(0);
+});
+
+test("the least recently used entry is evicted", function () {
+    const cache = new ExprCache<number>({ capacity: 2 });
+    const a = parse("(a)");
+    const b = parse("(b)");
+    const c = parse("(c)");
+    cache.set(a, 1).set(b, 2);
+    expect(cache.get(a)).toBe(1);
+    cache.set(c, 3);
+    expect(cache.size).toBe(2);
+    expect(cache.has(b)).toBe(false);
+    expect(cache.has(a)).toBe(true);
+    expect(cache.has(c)).toBe(true);
+    expect(cache.stats.evictions).toBe(1);
+    cache.resetStats();
+    expect(cache.stats).toEqual({ hits: 0, misses: 0, evictions: 0 });
+    expect(cache.hitRate).toBe(0);
+    const none = new ExprCache<number>({ capacity: 0 });
+    none.set(a, 1);
+    expect(none.size).toBe(0);
+    expect(() => new ExprCache({ capacity: -1 })).toThrow("capacity must be a non-negative number but was -1");
+    cache.clear();
+});
+
+test("the cache holds references to keys and Shareable values", function () {
+    const cache = new ExprCache<Counted>({ capacity: 1 });
+    const X = parse("(f x)");
+    const Y = parse("(g y)");
+    const v = new Counted();
+    const w = new Counted();
+    if (is_cons(X) && is_cons(Y)) {
+        cache.set(X, v);
+        expect(X.refCount).toBe(2);
+        expect(v.refCount).toBe(2);
+        const got = cache.get(X) as Counted;
+        expect(got).toBe(v);
+        expect(v.refCount).toBe(3);
+        got.release();
+        cache.set(X, w);
+        expect(v.refCount).toBe(1);
+        expect(w.refCount).toBe(2);
+        cache.set(Y, v);
+        expect(X.refCount).toBe(1);
+        expect(w.refCount).toBe(1);
+        expect(Y.refCount).toBe(2);
+        cache.clear();
+        expect(Y.refCount).toBe(1);
+        expect(v.refCount).toBe(1);
+    }
+    else {
+        throw new Error();
+    }
+});
+
+test("memoize computes each distinct subterm once", function () {
+    let calls = 0;
+    const cache = new ExprCache<number>();
+    const size: (expr: U) => number = memoize(function (expr: U): number {
+        calls++;
+        if (is_cons(expr)) {
+            let total = 1;
+            for (const item of expr) {
+                try {
+                    total += size(item);
+                }
+                finally {
+                    item.release();
+                }
+            }
+            return total;
+        }
+        return 1;
+    }, cache);
+    expect(size(parse("(+ (* a b) (* a b) (* a b))"))).toBe(14);
+    // The distinct subterms are the whole expression, (* a b), +, *, a and b.
+    expect(calls).toBe(6);
+    expect(cache.stats).toEqual({ hits: 2, misses: 6, evictions: 0 });
+    cache.clear();
+});
+
+test("memoized expressions are released on eviction", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(+ (* 2 3) (* 2 3) (* 4 5))");
+        const checkpoint = detector.checkpoint();
+        const cache = new ExprCache<U>({ capacity: 2 });
+        const evaluate: (expr: U) => U = memoize(function (expr: U): U {
+            if (is_cons(expr)) {
+                const head = expr.head;
+                const args = expr.tail().map(function (arg) {
+                    try {
+                        return evaluate(arg);
+                    }
+                    finally {
+                        arg.release();
+                    }
+                });
+                try {
+                    const values = args.map(arg => is_rat(arg) ? arg.toNumber() : NaN);
+                    const op = head.toString() === "+" ? (a: number, b: number) => a + b : (a: number, b: number) => a * b;
+                    return create_rat(values.reduce(op));
+                }
+                finally {
+                    head.release();
+                    for (const arg of args) {
+                        arg.release();
+                    }
+                }
+            }
+            expr.addRef();
+            return expr;
+        }, cache);
+        const value = evaluate(X);
+        expect(value.toString()).toBe("32");
+        value.release();
+        expect(cache.stats.evictions).toBeGreaterThan(0);
+        cache.clear();
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
@@ -0,0 +1,117 @@
+import { create_flt, create_rat, create_str, create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { canonicalize, compare, OperatorProperties } from "../src/order";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { Cons, is_cons, items_to_cons, nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+const operators: { [key: string]: OperatorProperties } = {
+    "+": { commutative: true, associative: true, identity: create_rat(0) },
+    "*": { commutative: true, associative: true, identity: create_rat(1) },
+    "and": { commutative: true }
+};
+
+function canonical(sourceText: string): string {
+    return print_sexpr(canonicalize(parse(sourceText), operators));
+}
+
+test("atoms are ordered by type and then by value", function () {
+    expect(compare(create_sym("a"), create_sym("b"))).toBe(-1);
+    expect(compare(create_sym("b"), create_sym("a"))).toBe(1);
+    expect(compare(create_sym("a", 0, 1), create_sym("a"))).toBe(0);
+    expect(compare(create_rat(-1, 2), create_rat(1, 3))).toBe(-1);
+    expect(compare(create_rat(10), create_rat(9))).toBe(1);
+    expect(compare(create_flt(2.5), create_flt(NaN))).toBe(-1);
+    expect(compare(create_flt(NaN), create_flt(NaN))).toBe(0);
+    expect(compare(create_str("B"), create_str("a"))).toBe(-1);
+    // The type takes precedence over the value: boo < flt < rat < str < sym.
+    expect(compare(create_rat(100), create_sym("a"))).toBe(-1);
+    expect(compare(create_flt(100), create_rat(1))).toBe(-1);
+    expect(compare(parse("false"), parse("true"))).toBe(-1);
+});
+test("lists are ordered lexicographically after atoms", function () {
+    expect(compare(nil, create_sym("a"))).toBe(-1);
+    expect(compare(create_sym("z"), parse("(a)"))).toBe(-1);
+    expect(compare(parse("(f a)"), parse("(f b)"))).toBe(-1);
+    expect(compare(parse("(f a)"), parse("(f a b)"))).toBe(-1);
+    expect(compare(parse("(f (g b))"), parse("(f (g a) c)"))).toBe(1);
+    expect(compare(parse("(f (g a) c)"), parse("(f (g a) c)"))).toBe(0);
+    expect(compare(parse("(f ())"), parse("(f x)"))).toBe(-1);
+});
+test("the order is a total order", function () {
+    const exprs = ["x", "y", "1", "2", "1.5", '"s"', "true", "()", "(f x)", "(f y)", "(f x y)", "(g)", "(f (g x))"].map(parse);
+    for (const a of exprs) {
+        expect(compare(a, a)).toBe(0);
+        for (const b of exprs) {
+            expect(compare(a, b)).toBe(-compare(b, a) || 0);
+            for (const c of exprs) {
+                if (compare(a, b) <= 0 && compare(b, c) <= 0) {
+                    expect(compare(a, c)).toBeLessThanOrEqual(0);
+                }
+            }
+        }
+    }
+});
+test("custom atom comparators", function () {
+    const byLength = { sym: (a: U, b: U) => `${a}`.length - `${b}`.length };
+    expect(compare(create_sym("bb"), create_sym("a"))).toBe(1);
+    expect(compare(create_sym("bb"), create_sym("a"), { atoms: byLength })).toBe(1);
+    expect(compare(create_sym("b"), create_sym("aa"), { atoms: byLength })).toBe(-1);
+});
+test("deeply nested lists", function () {
+    let a: U = create_sym("a");
+    let b: U = create_sym("b");
+    for (let i = 0; i < 20000; i++) {
+        a = items_to_cons(a);
+        b = items_to_cons(b);
+    }
+    expect(compare(a, b)).toBe(-1);
+});
+test("canonicalize", function () {
+    expect(canonical("(+ b a)")).toBe("(+ a b)");
+    expect(canonical("(+ a (+ c b))")).toBe("(+ a b c)");
+    expect(canonical("(* (+ y x) (+ x y))")).toBe("(* (+ x y) (+ x y))");
+    expect(canonical("(+ x 0)")).toBe("x");
+    expect(canonical("(* 1 1)")).toBe("1");
+    expect(canonical("(+ (* 1 b) (* a 2) 0)")).toBe("(+ b (* 2 a))");
+    expect(canonical("(and q p)")).toBe("(and p q)");
+    // Operators without properties are left unchanged.
+    expect(canonical("(- b a)")).toBe("(- b a)");
+    expect(canonical("(f (+ b a))")).toBe("(f (+ a b))");
+});
+test("canonicalized expressions can be compared for equality", function () {
+    const X = canonicalize(parse("(+ (* b a) c)"), operators);
+    const Y = canonicalize(parse("(+ c (* a b))"), operators);
+    expect(X.equals(Y)).toBe(true);
+});
+test("unchanged expressions are shared and positions are preserved", function () {
+    const X = parse("(f (+ a b) (+ d c))") as Cons;
+    const Y = canonicalize(X, operators) as Cons;
+    expect(print_sexpr(Y)).toBe("(f (+ a b) (+ c d))");
+    expect(Y.item(1)).toBe(X.item(1));
+    const rebuilt = Y.item(2);
+    expect([rebuilt.pos, rebuilt.end]).toStrictEqual([11, 18]);
+    const Z = parse("(g (+ a b))");
+    expect(canonicalize(Z, operators)).toBe(Z);
+});
+test("reference counting", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(+ (+ b (* 1 a)) (+ 0 c) (h (+ y x)))");
+        const checkpoint = detector.checkpoint();
+        expect(compare(X, X)).toBe(0);
+        const Y = canonicalize(X, operators);
+        expect(print_sexpr(Y)).toBe("(+ a b c (h (+ x y)))");
+        Y.release();
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
@@ -0,0 +1,168 @@
+import { create_rat, create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { collect, expand, from_polynomial, Polynomial, to_polynomial } from "../src/polynomial";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { Cons, is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+const x = create_sym("x");
+const y = create_sym("y");
+
+function poly(sourceText: string, variables: U[] = [x]): Polynomial {
+    const p = to_polynomial(parse(sourceText), variables);
+    if (!p) {
+        throw new Error(`${sourceText} is not a polynomial.`);
+    }
+    return p;
+}
+
+function show(p: Polynomial): string {
+    return print_sexpr(from_polynomial(p));
+}
+
+test("to_polynomial recognizes polynomials", function () {
+    expect(show(poly("(+ (* 3 (power x 2)) (* 2 x) 1)"))).toBe("(+ (* 3 (power x 2)) (* 2 x) 1)");
+    expect(show(poly("(* (+ x 1) (- x 1))"))).toBe("(+ (power x 2) -1)");
+    expect(show(poly("(/ (^ x 2) 2)"))).toBe("(* 1/2 (power x 2))");
+    expect(show(poly("(- (* a x) b)"))).toBe("(+ (* a x) (* -1 b))");
+    expect(show(poly("(sin y)"))).toBe("(sin y)");
+    expect(show(poly("(- x x)"))).toBe("0");
+});
+
+test("to_polynomial rejects expressions that are not polynomials", function () {
+    expect(to_polynomial(parse("(sin x)"), [x])).toBeUndefined();
+    expect(to_polynomial(parse("(power x -1)"), [x])).toBeUndefined();
+    expect(to_polynomial(parse("(power x 1/2)"), [x])).toBeUndefined();
+    expect(to_polynomial(parse("(power x n)"), [x])).toBeUndefined();
+    expect(to_polynomial(parse("(/ 1 x)"), [x])).toBeUndefined();
+    expect(to_polynomial(parse("(+ 1 (f x))"), [x])).toBeUndefined();
+});
+
+test("the sparse representation", function () {
+    const p = poly("(+ (* 5 (power x 3) y) (* 2 x (power y 2)) 7)", [x, y]);
+    const terms = p.terms();
+    expect(terms.map(([exponents, coefficient]) => [exponents, print_sexpr(coefficient)])).toEqual([[[3, 1], "5"], [[1, 2], "2"], [[0, 0], "7"]]);
+    expect(print_sexpr(p.coefficient([1, 2]))).toBe("2");
+    expect(print_sexpr(p.coefficient([2, 2]))).toBe("0");
+    const variables = p.variables;
+    expect(variables.map(v => print_sexpr(v))).toEqual(["x", "y"]);
+    const q = new Polynomial([x, y], [[[1, 0], create_rat(2)], [[1, 0], create_rat(3)], [[0, 1], create_rat(0)]]);
+    expect(show(q)).toBe("(* 5 x)");
+});
+
+test("degree and leading coefficient", function () {
+    const p = poly("(+ (* 5 (power x 3) y) (* 2 x (power y 2)) (* a (power x 3)) 7)", [x, y]);
+    expect(p.degree()).toBe(4);
+    expect(p.degree(x)).toBe(3);
+    expect(p.degree(y)).toBe(2);
+    expect(print_sexpr(p.leadingCoefficient())).toBe("5");
+    expect(print_sexpr(p.leadingCoefficient(x))).toBe("(+ (* 5 y) a)");
+    expect(print_sexpr(p.leadingCoefficient(y))).toBe("(* 2 x)");
+    expect(poly("0").degree()).toBe(-Infinity);
+    expect(print_sexpr(poly("0").leadingCoefficient())).toBe("0");
+    expect(() => p.degree(create_sym("z"))).toThrow("z is not a variable of the polynomial.");
+});
+
+test("arithmetic", function () {
+    const p = poly("(+ x 1)");
+    const q = poly("(- x 1)");
+    expect(show(p.add(q))).toBe("(* 2 x)");
+    expect(show(p.sub(q))).toBe("2");
+    expect(show(p.mul(q))).toBe("(+ (power x 2) -1)");
+    expect(show(p.neg())).toBe("(+ (* -1 x) -1)");
+    expect(show(p.pow(3))).toBe("(+ (power x 3) (* 3 (power x 2)) (* 3 x) 1)");
+    expect(show(p.pow(0))).toBe("1");
+    expect(show(p.pow(1))).toBe("(+ x 1)");
+    expect(show(p.pow(6))).toBe(show(p.pow(3).mul(p.pow(3))));
+    expect(show(p.pow(5))).toBe("(+ (power x 5) (* 5 (power x 4)) (* 10 (power x 3)) (* 10 (power x 2)) (* 5 x) 1)");
+    expect(() => p.pow(-1)).toThrow("The exponent must be a non-negative integer but was -1.");
+    expect(() => p.pow(1.5)).toThrow("The exponent must be a non-negative integer but was 1.5.");
+    expect(() => p.add(poly("y", [y]))).toThrow("The polynomials must have the same variables.");
+});
+
+test("univariate division", function () {
+    const [q, r] = poly("(+ (power x 3) (* -2 (power x 2)) -4)").divide(poly("(- x 3)"));
+    expect(show(q)).toBe("(+ (power x 2) x 3)");
+    expect(show(r)).toBe("5");
+    const [q2, r2] = poly("(+ (power x 2) -1)").divide(poly("(+ x 1)"));
+    expect(show(q2)).toBe("(+ x -1)");
+    expect(r2.isZero).toBe(true);
+    const [q3, r3] = poly("(+ (power x 2) 1)").divide(poly("(* 2 x)"));
+    expect(show(q3)).toBe("(* 1/2 x)");
+    expect(show(r3)).toBe("1");
+    const [q4, r4] = poly("x").divide(poly("(+ (power x 2) 1)"));
+    expect(q4.isZero).toBe(true);
+    expect(show(r4)).toBe("x");
+    expect(() => poly("x").divide(poly("0"))).toThrow("Division by the zero polynomial.");
+    expect(() => poly("x", [x, y]).divide(poly("y", [x, y]))).toThrow("Polynomial division requires a polynomial in one variable.");
+});
+
+test("division with symbolic coefficients", function () {
+    const [q, r] = poly("(+ (* a (power x 2)) (* b x))").divide(poly("(* a x)"));
+    expect(show(q)).toBe("(+ (* (/ a a) x) (/ b a))");
+    expect(r.isZero).toBe(true);
+});
+
+test("collect", function () {
+    expect(print_sexpr(collect(parse("(+ (* a x) (* b x) c (* x x))"), [x]))).toBe("(+ (power x 2) (* (+ a b) x) c)");
+    expect(print_sexpr(collect(parse("(sin x)"), [x]))).toBe("(sin x)");
+});
+
+test("expand", function () {
+    expect(print_sexpr(expand(parse("(power (+ a 1) 2)")))).toBe("(+ (power a 2) (* 2 a) 1)");
+    expect(print_sexpr(expand(parse("(* (+ a b) (- a b))")))).toBe("(+ (power a 2) (* -1 (power b 2)))");
+    expect(print_sexpr(expand(parse("(* (+ 1 (sin x)) (+ 1 (sin x)))")))).toBe("(+ (power (sin x) 2) (* 2 (sin x)) 1)");
+    expect(print_sexpr(expand(parse("(/ (+ a (power x 2)) (+ a 1))")))).toBe("(/ (+ a (power x 2)) (+ a 1))");
+});
+
+test("polynomials release what they hold", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(* (+ x (* a y) 1) (- x (power y 2)))");
+        const checkpoint = detector.checkpoint();
+        const p = to_polynomial(X, [x, y]) as Polynomial;
+        const D = parse("(+ x 1)");
+        const px = to_polynomial(X, [x]) as Polynomial;
+        const pd = to_polynomial(D, [x]) as Polynomial;
+        const [q, r] = px.divide(pd);
+        const lc = p.leadingCoefficient(y);
+        lc.release();
+        const E = from_polynomial(p);
+        E.release();
+        p.release();
+        px.release();
+        pd.release();
+        D.release();
+        q.release();
+        r.release();
+        const Y = expand(X);
+        Y.release();
+        expect(p.refCount).toBe(0);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+        detector.assertNoLeaks(checkpoint);
+    }
+    finally {
+        detector.disable();
+    }
+});
+test("a polynomial with malformed terms releases what it took", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const checkpoint = detector.checkpoint();
+        const s = parse("(sin t)") as Cons;
+        const c = parse("(cos t)") as Cons;
+        expect(() => new Polynomial([s], [[[1], c], [[1], c], [[1, 2], c]])).toThrow("A term must have 1 exponents.");
+        expect([s.refCount, c.refCount]).toStrictEqual([1, 1]);
+        s.release();
+        c.release();
+        detector.assertNoLeaks(checkpoint);
+    }
+    finally {
+        detector.disable();
+    }
+});
@@ -0,0 +1,69 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { default_operator_table, OperatorTable, print_infix, print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { items_to_cons, nil, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function infix(sourceText: string): string {
+    return print_infix(parse(sourceText));
+}
+
+test("print_sexpr", function () {
+    expect(print_sexpr(parse("(+ (* a b) c)"))).toBe("(+ (* a b) c)");
+    expect(print_sexpr(parse("(f)"))).toBe("(f)");
+    expect(print_sexpr(parse('(g "s" 2.5 1 true ())'))).toBe('(g "s" 2.5 1 true ())');
+    expect(print_sexpr(nil)).toBe("()");
+    expect(print_sexpr(create_sym("x"))).toBe("x");
+    expect(print_sexpr(items_to_cons(parse("(f x)"), create_sym("y")))).toBe("((f x) y)");
+});
+test("infix operators", function () {
+    expect(infix("(+ a b c)")).toBe("a + b + c");
+    expect(infix("(* a (+ b c))")).toBe("a * (b + c)");
+    expect(infix("(+ a (* b c))")).toBe("a + b * c");
+    expect(infix("(power x 2)")).toBe("x^2");
+    expect(infix("(= (+ x 1) 0)")).toBe("x + 1 = 0");
+    expect(infix("(- x)")).toBe("-x");
+    expect(infix("(- (+ x y))")).toBe("-(x + y)");
+    expect(infix("(- (power x 2))")).toBe("-x^2");
+    expect(infix("(power (- x) 2)")).toBe("(-x)^2");
+    expect(infix("(power -3 2)")).toBe("(-3)^2");
+    expect(infix("(- -3)")).toBe("-(-3)");
+    expect(infix("(- (- x))")).toBe("-(-x)");
+    expect(infix("(- (* -2 x))")).toBe("-(-2 * x)");
+    expect(infix("(- a -3)")).toBe("a - -3");
+    expect(infix("(! n)")).toBe("n!");
+    expect(infix("(! (+ n 1))")).toBe("(n + 1)!");
+});
+test("infix associativity", function () {
+    expect(infix("(- (- a b) c)")).toBe("a - b - c");
+    expect(infix("(- a (- b c))")).toBe("a - (b - c)");
+    expect(infix("(power (power a b) c)")).toBe("(a^b)^c");
+    expect(infix("(power a (power b c))")).toBe("a^b^c");
+    expect(infix("(= (= a b) c)")).toBe("(a = b) = c");
+    expect(infix("(+ a (+ b c))")).toBe("a + (b + c)");
+});
+test("function application", function () {
+    expect(infix("(sin x)")).toBe("sin(x)");
+    expect(infix("(f x (+ y 1))")).toBe("f(x, y + 1)");
+    expect(infix("(f)")).toBe("f()");
+    expect(infix("((f x) y)")).toBe("f(x)(y)");
+    expect(infix("(* 2 (sin x))")).toBe("2 * sin(x)");
+});
+test("custom operator table", function () {
+    const operators = default_operator_table().add({ key: 'wedge', text: '∧', precedence: 35, assoc: 'left', fixity: 'infix' });
+    expect(print_infix(parse("(* a (wedge b c))"), { operators })).toBe("a * b ∧ c");
+    expect(print_infix(parse("(wedge a (* b c))"), { operators })).toBe("a ∧ (b * c)");
+    const empty = new OperatorTable();
+    expect(print_infix(parse("(+ a b)"), { operators: empty })).toBe("+(a, b)");
+    expect(print_infix(parse("(+ a b)"), { keyOf: () => '*' })).toBe("a * b");
+});
+test("line width wrapping", function () {
+    const text = print_infix(parse("(+ alpha beta gamma delta)"), { width: 20 });
+    expect(text).toBe("alpha\n    + beta\n    + gamma\n    + delta");
+    expect(print_infix(parse("(f alpha beta gamma)"), { width: 12, indent: 2 })).toBe("f(\n  alpha,\n  beta,\n  gamma\n)");
+    // Groups that fit remain on one line.
+    expect(print_infix(parse("(+ (* a b) (* c d) (* e f))"), { width: 16 })).toBe("a * b\n    + c * d\n    + e * f");
+});
@@ -0,0 +1,131 @@
+import { create_rat, create_sym, is_sym, standard_atom_factory } from "../src/atoms";
+import { canonicalize } from "../src/order";
+import { print_sexpr } from "../src/printer";
+import { Provenance, span_of } from "../src/provenance";
+import { read } from "../src/reader";
+import { subst } from "../src/subst";
+import { Cons, is_cons, items_to_cons, set_cons_pool_capacity, U } from "../src/tree";
+import { transform } from "../src/visit";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+/**
+ * Replaces (from ...args) by (to ...args), without pos and end.
+ */
+function rename(expr: U, from: string, to: string, provenance: Provenance): U {
+    return transform(expr, {
+        operators: {
+            [from]: (list: Cons) => items_to_cons(create_sym(to), ...list.tail())
+        }
+    }, { provenance });
+}
+
+test("span_of", function () {
+    expect(span_of(parse("(f x)"))).toEqual({ pos: 0, end: 5 });
+    expect(span_of(items_to_cons(create_sym("f")))).toBeUndefined();
+});
+
+test("record and sources", function () {
+    const provenance = new Provenance();
+    const a = parse("(a)");
+    const b = parse("(b)");
+    const derived = items_to_cons(create_sym("c"));
+    provenance.record(derived, a);
+    provenance.record(derived, b, a);
+    expect(provenance.sources(derived)).toEqual([a, b]);
+    expect(provenance.sources(a)).toEqual([]);
+    provenance.record(derived, derived);
+    expect(provenance.sources(derived)).toEqual([a, b]);
+    const x = create_sym("x");
+    provenance.record(x, a);
+    expect(provenance.sources(x)).toEqual([]);
+});
+
+test("the span of a node derived from several nodes covers their spans", function () {
+    const provenance = new Provenance();
+    const X = parse("(+ (f a) (g b))");
+    const derived = items_to_cons(create_sym("h"));
+    if (is_cons(X)) {
+        provenance.record(derived, X.item(1), X.item(2));
+    }
+    expect(provenance.span(derived)).toEqual({ pos: 3, end: 14 });
+    expect(provenance.span(items_to_cons(create_sym("h")))).toBeUndefined();
+});
+
+test("spans are found after several transformations", function () {
+    const provenance = new Provenance();
+    const source = "(+ 1 (f x) y)";
+    const X = parse(source);
+    const Y = rename(X, "f", "g", provenance);
+    const Z = rename(Y, "g", "h", provenance);
+    expect(print_sexpr(Z)).toBe("(+ 1 (h x) y)");
+    const span = provenance.locate(Z, [2]);
+    expect(span).toEqual({ pos: 5, end: 10 });
+    expect(source.substring(span?.pos as number, span?.end as number)).toBe("(f x)");
+    // The symbol h is new, so the nearest span is that of the enclosing list.
+    expect(provenance.locate(Z, [2, 0])).toEqual({ pos: 5, end: 10 });
+    // The symbol x is shared with the source.
+    expect(provenance.locate(Z, [2, 1])).toEqual({ pos: 8, end: 9 });
+    expect(provenance.locate(Z, [])).toEqual({ pos: 0, end: 13 });
+    expect(provenance.locate(Z, [7, 1])).toEqual({ pos: 0, end: 13 });
+});
+
+test("lists built without spans are located through their sources", function () {
+    const provenance = new Provenance();
+    const X = items_to_cons(create_sym("+"), items_to_cons(create_sym("f"), create_sym("x")), create_sym("y"));
+    const Y = transform(X, {
+        atoms: {
+            sym: atom => is_sym(atom) && atom.key === "y" ? create_rat(2) : void 0
+        }
+    }, { provenance });
+    expect(print_sexpr(Y)).toBe("(+ (f x) 2)");
+    expect(provenance.sources(Y)).toEqual([X]);
+    expect(provenance.span(Y)).toBeUndefined();
+});
+
+test("subst and canonicalize record provenance", function () {
+    const provenance = new Provenance();
+    const source = "(* (+ b a) (sin (* 1 x)))";
+    const X = parse(source);
+    const Y = subst(X, create_sym("x"), items_to_cons(create_sym("g"), create_sym("t")), { provenance });
+    const Z = canonicalize(Y, {
+        "*": { commutative: true, associative: true, identity: create_rat(1) },
+        "+": { commutative: true, associative: true, identity: create_rat(0) }
+    }, { provenance });
+    expect(print_sexpr(Z)).toBe("(* (+ a b) (sin (g t)))");
+    const sum = provenance.locate(Z, [1]);
+    expect(source.substring(sum?.pos as number, sum?.end as number)).toBe("(+ b a)");
+    const sin = provenance.locate(Z, [2]);
+    expect(source.substring(sin?.pos as number, sin?.end as number)).toBe("(sin (* 1 x))");
+    // (g t) replaced (* 1 (g t)), which was rebuilt from (* 1 x).
+    const product = provenance.locate(Z, [2, 1]);
+    expect(source.substring(product?.pos as number, product?.end as number)).toBe("(* 1 x)");
+    expect(provenance.locate(Z, [2, 1, 1])).toEqual(product);
+});
+
+test("recorded lists are not recycled by the pool", function () {
+    set_cons_pool_capacity(100);
+    try {
+        const provenance = new Provenance();
+        const source = parse("(f x)");
+        const derived = items_to_cons(create_sym("g"), create_sym("x"));
+        provenance.record(derived, source);
+        derived.release();
+        source.release();
+        const lists = [1, 2, 3, 4].map(() => items_to_cons(create_sym("h")));
+        // Without pinning, these would reuse the cells of the source and derived lists.
+        for (const list of lists) {
+            expect(list).not.toBe(derived);
+            expect(list).not.toBe(source);
+            expect(provenance.sources(list)).toEqual([]);
+        }
+        for (const list of lists) {
+            list.release();
+        }
+    }
+    finally {
+        set_cons_pool_capacity(0);
+    }
+});
@@ -0,0 +1,117 @@
+import { AtomFactory, ParseError, read, read_all } from "../src/reader";
+import { Atom, Cons, is_atom, is_cons, nil, U } from "../src/tree";
+
+/**
+ * This is just a test atom, so we record the kind of token that produced it.
+ */
+class Token implements Atom {
+    readonly name = "Token";
+    readonly type = "token";
+    constructor(readonly kind: 'sym' | 'num' | 'str', readonly value: string, public pos?: number, public end?: number) {
+    }
+    addRef(): void {
+    }
+    release(): void {
+    }
+    contains(needle: U): boolean {
+        return this.equals(needle);
+    }
+    equals(other: U): boolean {
+        if (other instanceof Token) {
+            return this.kind === other.kind && this.value === other.value;
+        }
+        else {
+            return false;
+        }
+    }
+    get iscons(): boolean {
+        return false;
+    }
+    get isnil(): boolean {
+        return false;
+    }
+    toString(): string {
+        return this.kind === 'str' ? JSON.stringify(this.value) : this.value;
+    }
+}
+
+const factory: AtomFactory = {
+    sym(name: string, pos: number, end: number): U {
+        return new Token('sym', name, pos, end);
+    },
+    num(text: string, pos: number, end: number): U {
+        return new Token('num', text, pos, end);
+    },
+    str(value: string, pos: number, end: number): U {
+        return new Token('str', value, pos, end);
+    }
+};
+
+test("read atoms", function () {
+    const x = read("foo", factory) as Token;
+    expect(is_atom(x)).toBe(true);
+    expect(x.kind).toBe('sym');
+    expect(x.value).toBe('foo');
+    expect(x.pos).toBe(0);
+    expect(x.end).toBe(3);
+    expect((read(" -3.5e2 ", factory) as Token).kind).toBe('num');
+    expect((read("+", factory) as Token).kind).toBe('sym');
+    expect((read("1+", factory) as Token).kind).toBe('sym');
+    const s = read('"a\\"b\\n"', factory) as Token;
+    expect(s.kind).toBe('str');
+    expect(s.value).toBe('a"b\n');
+    expect(s.end).toBe(8);
+});
+test("read lists", function () {
+    const sourceText = "(+ (* a b) c)";
+    const expr = read(sourceText, factory) as Cons;
+    expect(is_cons(expr)).toBe(true);
+    expect(expr.pos).toBe(0);
+    expect(expr.end).toBe(sourceText.length);
+    expect(expr.length).toBe(3);
+    expect(`${expr.opr}`).toBe('+');
+    const lhs = expr.lhs as Cons;
+    expect(lhs.pos).toBe(3);
+    expect(lhs.end).toBe(10);
+    expect(sourceText.substring(lhs.pos as number, lhs.end as number)).toBe("(* a b)");
+    const rhs = expr.rhs;
+    expect(rhs.pos).toBe(11);
+    expect(rhs.end).toBe(12);
+});
+test("read empty list", function () {
+    const expr = read(" ( ) ", factory);
+    expect(expr.isnil).toBe(true);
+    expect(expr.equals(nil)).toBe(true);
+    expect(expr.pos).toBe(1);
+    expect(expr.end).toBe(4);
+    expect(read("", factory)).toBe(nil);
+    expect(read("; nothing here", factory)).toBe(nil);
+});
+test("read_all", function () {
+    const exprs = read_all("a ; comment\n(b c) \"d\"", factory);
+    expect(exprs.length).toBe(3);
+    expect(exprs[0].toString()).toBe('a');
+    expect(is_cons(exprs[1])).toBe(true);
+    expect(exprs[2].toString()).toBe('"d"');
+});
+test("syntax errors", function () {
+    const cases: [string, number, number][] = [
+        ["(a b", 0, 4],
+        ["a)", 1, 2],
+        ['"abc', 0, 4],
+        ['"\\q"', 1, 3],
+        ["a b", 2, 3]
+    ];
+    for (const [sourceText, pos, end] of cases) {
+        let error: unknown;
+        try {
+            read(sourceText, factory);
+        }
+        catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).pos).toBe(pos);
+        expect((error as ParseError).end).toBe(end);
+    }
+});
@@ -0,0 +1,92 @@
+import { create_rat, is_rat, standard_atom_factory } from "../src/atoms";
+import { create_rest, create_wild } from "../src/match";
+import { read } from "../src/reader";
+import { rewrite, RewriteError, Rule } from "../src/rewrite";
+import { U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, {
+        sym(name: string, pos: number, end: number): U {
+            if (name.startsWith('?')) {
+                return name.endsWith('...') ? create_rest(name.substring(1, name.length - 3)) : create_wild(name.substring(1));
+            }
+            else {
+                return standard_atom_factory.sym(name, pos, end);
+            }
+        },
+        num: standard_atom_factory.num,
+        str: standard_atom_factory.str
+    });
+}
+
+const rules: Rule[] = [
+    { name: "add-zero", pattern: parse("(+ ?a 0)"), replacement: parse("?a") },
+    { name: "mul-one", pattern: parse("(* ?a 1)"), replacement: parse("?a") },
+    {
+        name: "fold-add", pattern: parse("(+ ?a ?b)"), replacement: function (bindings) {
+            const a = bindings.get("a") as U;
+            const b = bindings.get("b") as U;
+            if (is_rat(a) && is_rat(b)) {
+                return a.add(b);
+            }
+            else {
+                return void 0;
+            }
+        }
+    }
+];
+
+test("rewrite innermost", function () {
+    const result = rewrite(parse("(f (+ (* x 1) 0) (+ 1 2))"), rules);
+    expect(result.expr.toString()).toBe("(f (x (3 ())))");
+    expect(result.iterations).toBe(3);
+    expect(result.trace.map(step => step.rule)).toStrictEqual(["mul-one", "add-zero", "fold-add"]);
+    expect(result.trace.map(step => step.path)).toStrictEqual([[1, 1], [1], [2]]);
+});
+test("rewrite outermost", function () {
+    const result = rewrite(parse("(f (+ (* x 1) 0) (+ 1 2))"), rules, { strategy: 'outermost' });
+    expect(result.expr.toString()).toBe("(f (x (3 ())))");
+    expect(result.trace.map(step => step.rule)).toStrictEqual(["add-zero", "mul-one", "fold-add"]);
+    expect(result.trace.map(step => step.path)).toStrictEqual([[1], [1], [2]]);
+});
+test("rewrite bottomup", function () {
+    const result = rewrite(parse("(+ (+ 1 2) (+ 3 4))"), rules, { strategy: 'bottomup' });
+    expect(result.expr.toString()).toBe("10");
+    // A single pass folds the children and then the root.
+    expect(result.iterations).toBe(1);
+    expect(result.trace.map(step => step.path)).toStrictEqual([[1], [2], []]);
+});
+test("rewrite topdown", function () {
+    const result = rewrite(parse("(+ (+ 1 2) (+ 3 4))"), rules, { strategy: 'topdown' });
+    expect(result.expr.toString()).toBe("10");
+    // The first pass folds the children, the second pass folds the root.
+    expect(result.iterations).toBe(2);
+    expect(result.trace.map(step => step.iteration)).toStrictEqual([0, 0, 1]);
+});
+test("rewrite preserves pos and end", function () {
+    const result = rewrite(parse("(g (+ x 0) y)"), rules);
+    expect(result.expr.pos).toBe(0);
+    expect(result.expr.end).toBe(13);
+});
+test("rewrite with no applicable rules", function () {
+    const expr = parse("(f x)");
+    const result = rewrite(expr, rules);
+    expect(result.expr).toBe(expr);
+    expect(result.iterations).toBe(0);
+    expect(result.trace).toStrictEqual([]);
+});
+test("rewrite detects cycles", function () {
+    const commute: Rule = { name: "commute", pattern: parse("(+ ?a ?b)"), replacement: parse("(+ ?b ?a)") };
+    expect(() => rewrite(parse("(+ x y)"), [commute])).toThrow(RewriteError);
+});
+test("rewrite iteration limit", function () {
+    const grow: Rule = { name: "grow", pattern: parse("(s ?a)"), replacement: parse("(s (s ?a))") };
+    expect(() => rewrite(parse("(s 0)"), [grow], { strategy: 'outermost', maxIterations: 10 })).toThrow(/limit of 10/);
+    const count: Rule = {
+        name: "count", pattern: parse("(n ?a)"), replacement: function (bindings) {
+            const a = bindings.get("a") as U;
+            return is_rat(a) && a.toNumber() > 0 ? a.sub(create_rat(1)) : void 0;
+        }
+    };
+    expect(rewrite(parse("(f (n 1) (n 1))"), [count], { maxIterations: 2 }).expr.toString()).toBe("(f (0 (0 ())))");
+});
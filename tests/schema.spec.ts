@@ -0,0 +1,113 @@
+import { Rat, standard_atom_factory, Sym } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { Cons2 } from "../src/helpers";
+import { read } from "../src/reader";
+import { any, assert_conforms, atom, cons0, cons1, cons2, cons3, conforms, empty, guard, list, one_of, rat, SchemaError, str, sym, validate, variadic } from "../src/schema";
+import { is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+test("atom schemas", function () {
+    expect(conforms(sym(), parse("x"))).toBe(true);
+    expect(conforms(sym("x"), parse("x"))).toBe(true);
+    expect(conforms(sym("x"), parse("y"))).toBe(false);
+    expect(conforms(rat(), parse("42"))).toBe(true);
+    expect(conforms(rat(), parse("x"))).toBe(false);
+    expect(conforms(str(), parse('"a"'))).toBe(true);
+    expect(conforms(atom("flt"), parse("2.5"))).toBe(true);
+    expect(conforms(atom(), parse("(a)"))).toBe(false);
+    expect(conforms(empty(), parse("()"))).toBe(true);
+    expect(conforms(any(), parse("(a (b))"))).toBe(true);
+});
+
+test("the guards narrow to the Cons types", function () {
+    const is_sum = guard(cons2("+", any(), rat()));
+    const X = parse("(+ x 2)");
+    expect(is_sum(X)).toBe(true);
+    if (is_sum(X)) {
+        const sum: Cons2<Sym, U, Rat> = X;
+        const rhs: Rat = sum.rhs;
+        expect(rhs.toNumber()).toBe(2);
+        expect(sum.opr.key).toBe("+");
+    }
+    expect(is_sum(parse("(+ x y)"))).toBe(false);
+    expect(is_sum(parse("(- x 2)"))).toBe(false);
+    expect(is_sum(parse("(+ x 2 3)"))).toBe(false);
+    expect(is_sum(parse("x"))).toBe(false);
+});
+
+test("arity", function () {
+    expect(conforms(cons0("f"), parse("(f)"))).toBe(true);
+    expect(conforms(cons1("f", any()), parse("(f)"))).toBe(false);
+    expect(conforms(cons3("f", any(), any(), any()), parse("(f a b c)"))).toBe(true);
+    expect(conforms(cons1(sym(), any()), parse("(g a)"))).toBe(true);
+});
+
+test("variadic tails", function () {
+    const sum = variadic("+", rat());
+    expect(sum.description).toBe("(+ rat...)");
+    expect(conforms(sum, parse("(+)"))).toBe(true);
+    expect(conforms(sum, parse("(+ 1 2 3)"))).toBe(true);
+    expect(conforms(sum, parse("(+ 1 x 3)"))).toBe(false);
+    const call = list(sym(), [sym()], any());
+    expect(call.description).toBe("(sym sym any...)");
+    expect(conforms(call, parse("(f x)"))).toBe(true);
+    expect(conforms(call, parse("(f x 1 2)"))).toBe(true);
+    expect(conforms(call, parse("(f)"))).toBe(false);
+});
+
+test("one_of", function () {
+    const number = one_of(rat(), atom("flt"));
+    expect(number.description).toBe("rat | flt");
+    expect(conforms(number, parse("1"))).toBe(true);
+    expect(conforms(number, parse("1.5"))).toBe(true);
+    expect(validate(number, parse("x")).map(e => e.message)).toEqual(["Expected rat | flt but found x at 0"]);
+});
+
+test("errors point at the offending subterm", function () {
+    const schema = cons2("=", sym(), variadic("+", cons2("*", rat(), sym())));
+    expect(schema.description).toBe("(= sym (+ (* rat sym)...))");
+    const X = parse("(= y (+ (* 2 x) (* a b) (* 3)))");
+    const errors = validate(schema, X);
+    expect(errors.map(e => e.message)).toEqual([
+        "Expected rat but found a at 19",
+        "Expected 2 arguments for (* rat sym) but found 1 in (* 3) at 24"
+    ]);
+    expect(errors[0]).toBeInstanceOf(SchemaError);
+    expect(errors[0].path).toEqual([2, 2, 1]);
+    expect(errors[0].pos).toBe(19);
+    expect(errors[0].end).toBe(20);
+    expect(errors[1].path).toEqual([2, 3]);
+    expect(errors[1].pos).toBe(24);
+    expect(errors[1].end).toBe(29);
+});
+
+test("arity errors report the expected count", function () {
+    expect(validate(cons1("f", any()), parse("(f a b)")).map(e => e.message)).toEqual(["Expected 1 argument for (f any) but found 2 in (f a b) at 0"]);
+    expect(validate(list("f", [any(), any()], any()), parse("(f a)")).map(e => e.message)).toEqual(["Expected at least 2 arguments for (f any any any...) but found 1 in (f a) at 0"]);
+    expect(validate(cons1("f", any()), parse("x")).map(e => e.message)).toEqual(["Expected (f any) but found x at 0"]);
+});
+
+test("assert_conforms", function () {
+    const X = parse("(+ x 1)");
+    assert_conforms(cons2("+", sym(), rat()), X);
+    expect(X.lhs.key).toBe("x");
+    expect(() => assert_conforms(cons2("+", rat(), rat()), X)).toThrow("Expected rat but found x at 3");
+});
+
+test("validation releases what it creates", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(= y (+ (* 2 x) (* a b) (* 3)))");
+        const checkpoint = detector.checkpoint();
+        validate(cons2("=", sym(), variadic("+", cons2("*", rat(), sym()))), X);
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
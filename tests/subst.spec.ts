@@ -0,0 +1,126 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { BinderRegistry, default_binders, free_variables, is_free_in, subst, subst_all } from "../src/subst";
+import { is_cons, U } from "../src/tree";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+function substituted(sourceText: string, from: string, to: string): string {
+    return print_sexpr(subst(parse(sourceText), parse(from), parse(to)));
+}
+
+function free(sourceText: string): string[] {
+    return free_variables(parse(sourceText)).map(v => print_sexpr(v));
+}
+
+test("subst replaces every occurrence that is equal to from", function () {
+    expect(substituted("(+ x (* 2 x) y)", "x", "(f a)")).toBe("(+ (f a) (* 2 (f a)) y)");
+    expect(substituted("(+ (* a b) (sin (* a b)))", "(* a b)", "c")).toBe("(+ c (sin c))");
+    expect(substituted("x", "x", "y")).toBe("y");
+});
+
+test("subst shares the expression when nothing is replaced", function () {
+    const X = parse("(+ a (* b c))");
+    const Y = subst(X, create_sym("x"), create_sym("y"));
+    expect(Y).toBe(X);
+    const Z = subst(X, create_sym("a"), create_sym("y"));
+    expect(is_cons(X) && is_cons(Z)).toBe(true);
+    if (is_cons(X) && is_cons(Z)) {
+        expect(Z.item(2)).toBe(X.item(2));
+    }
+});
+
+test("subst keeps the pos and end of rebuilt lists", function () {
+    const X = parse("(+ x 1)");
+    const Y = subst(X, create_sym("x"), create_sym("y"));
+    expect(Y.pos).toBe(X.pos);
+    expect(Y.end).toBe(X.end);
+});
+
+test("subst_all substitutes simultaneously", function () {
+    const X = parse("(f x y)");
+    const Y = subst_all(X, [[create_sym("x"), create_sym("y")], [create_sym("y"), create_sym("x")]]);
+    expect(print_sexpr(Y)).toBe("(f y x)");
+});
+
+test("substitution does not apply to bound variables", function () {
+    expect(substituted("(+ x (lambda x (* x 2)))", "x", "a")).toBe("(+ a (lambda x (* x 2)))");
+    expect(substituted("(forall (x y) (= x y z))", "y", "a")).toBe("(forall (x y) (= x y z))");
+    expect(substituted("(forall (x y) (= x y z))", "z", "a")).toBe("(forall (x y) (= x y a))");
+});
+
+test("bound variables are renamed to avoid capture", function () {
+    expect(substituted("(lambda y (+ x y))", "x", "y")).toBe("(lambda y_1 (+ y y_1))");
+    expect(substituted("(lambda y (+ x y y_1))", "x", "(* 2 y)")).toBe("(lambda y_2 (+ (* 2 y) y_2 y_1))");
+    expect(substituted("(lambda y (* y 2))", "x", "y")).toBe("(lambda y (* y 2))");
+});
+
+test("renamed variables avoid the keys of the substitutions and are not substituted", function () {
+    const X = parse("(lambda x (+ x y))");
+    const Y = subst_all(X, [[create_sym("y"), create_sym("x")], [create_sym("x_1"), create_sym("z")]]);
+    expect(print_sexpr(Y)).toBe("(lambda x_2 (+ x_2 x))");
+});
+
+test("renaming respects nested binders", function () {
+    expect(substituted("(lambda y (+ x y (lambda y y)))", "x", "y")).toBe("(lambda y_1 (+ y y_1 (lambda y y)))");
+});
+
+test("the limits of integrals and sums are not in scope", function () {
+    expect(substituted("(integral (* x t) x 0 x)", "x", "b")).toBe("(integral (* x t) x 0 b)");
+    expect(substituted("(integral (* x t) x 0 t)", "t", "x")).toBe("(integral (* x_1 x) x_1 0 x)");
+    expect(substituted("(sum (^ k n) k 1 n)", "n", "m")).toBe("(sum (^ k m) k 1 m)");
+});
+
+test("free_variables returns the free variables in order of first occurrence", function () {
+    expect(free("(+ x (* 2 y) x)")).toEqual(["x", "y"]);
+    expect(free("(lambda x (+ x y))")).toEqual(["y"]);
+    expect(free("(integral (* x t) x a x)")).toEqual(["t", "a", "x"]);
+    expect(free("(forall (x y) (= (f x) y z))")).toEqual(["z"]);
+    expect(free("(+ 1 2)")).toEqual([]);
+});
+
+test("free_variables includes operators when requested", function () {
+    const X = parse("(f x)");
+    expect(free_variables(X).map(v => print_sexpr(v))).toEqual(["x"]);
+    expect(free_variables(X, { operators: true }).map(v => print_sexpr(v))).toEqual(["f", "x"]);
+});
+
+test("is_free_in", function () {
+    const X = parse("(+ y (lambda x (* x y)))");
+    expect(is_free_in(create_sym("y"), X)).toBe(true);
+    expect(is_free_in(create_sym("x"), X)).toBe(false);
+});
+
+test("custom binders", function () {
+    const binders = default_binders().add('let', { variables: 1, scope: [3] });
+    const X = parse("(let x (+ x 1) (* x y))");
+    expect(print_sexpr(subst(X, create_sym("x"), create_sym("a"), { binders }))).toBe("(let x (+ a 1) (* x y))");
+    expect(free_variables(X, { binders }).map(v => print_sexpr(v))).toEqual(["x", "y"]);
+    expect(print_sexpr(subst(X, create_sym("x"), create_sym("a"), { binders: new BinderRegistry() }))).toBe("(let a (+ a 1) (* a y))");
+});
+
+test("subst and free_variables release what they create", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const X = parse("(+ x (lambda y (+ x y)) (integral (* x t) t 0 x))");
+        const checkpoint = detector.checkpoint();
+        const Y = subst(X, create_sym("x"), create_sym("y"));
+        expect(print_sexpr(Y)).toBe("(+ y (lambda y_1 (+ y y_1)) (integral (* y t) t 0 y))");
+        Y.release();
+        const variables = free_variables(X);
+        expect(variables.map(v => print_sexpr(v))).toEqual(["x"]);
+        for (const v of variables) {
+            v.release();
+        }
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    }
+    finally {
+        detector.disable();
+    }
+});
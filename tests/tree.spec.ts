@@ -1,5 +1,6 @@
 import { Cons0, Cons1, Cons2, Cons3, Cons4 } from '../src/helpers';
-import { Atom, car, cdr, Cons, cons, is_atom, is_cons, is_nil, is_singleton, items_to_cons, nil, U } from "../src/tree";
+import { LeakDetector } from "../src/debug";
+import { Atom, car, cdr, Cons, cons, cons_pool_stats, ConsFactory, counted_cons_factory, is_atom, is_cons, is_nil, is_singleton, items_to_cons, managed_cons_factory, nil, pin_cons, pos_end_items_to_cons, set_cons_pool_capacity, to_managed, U, with_cons_arena } from "../src/tree";
 
 /**
  * This is just a test atom, so we expose the reference count.
@@ -303,3 +304,436 @@ test("empty", function () {
     expect(is_nil(empty)).toBe(true);
     expect(cdr(empty)).toBe(nil);
 });
+describe("long lists", function () {
+    const N = 100000;
+    function long_list(n: number, atoms: MyAtom[]): Cons {
+        let X: Cons = nil;
+        for (let i = n - 1; i >= 0; i--) {
+            const next = cons(atoms[i % atoms.length], X);
+            X.release();
+            X = next;
+        }
+        return X;
+    }
+    test("length, item, map, contains and toString do not exhaust the stack", function () {
+        const atoms = [new MyAtom("a"), new MyAtom("b"), new MyAtom("c")];
+        const X = long_list(N, atoms);
+        expect(X.length).toBe(N);
+        expect(X.item(N - 1)).toBe(atoms[(N - 1) % 3]);
+        expect(X.item(N)).toBe(nil);
+        expect(X.contains(atoms[2])).toBe(true);
+        expect(X.contains(new MyAtom("z"))).toBe(false);
+        const Y = X.map(atom => atom === atoms[0] ? atoms[1] : atom);
+        expect(Y.length).toBe(N);
+        expect(Y.contains(atoms[0])).toBe(false);
+        expect(X.toString().length).toBeGreaterThan(N * 4);
+        expect(X.equals(Y)).toBe(false);
+        X.release();
+        Y.release();
+    });
+    test("release does not exhaust the stack", function () {
+        const a = new MyAtom("a");
+        const X = long_list(N, [a]);
+        expect(a.refCount).toBe(N + 1);
+        X.release();
+        expect(a.refCount).toBe(1);
+    });
+    test("deeply nested lists", function () {
+        const a = new MyAtom("a");
+        let X: Cons = items_to_cons(a);
+        for (let i = 0; i < N; i++) {
+            const next = items_to_cons(X);
+            X.release();
+            X = next;
+        }
+        expect(X.contains(a)).toBe(true);
+        expect(X.toString().startsWith("((((")).toBe(true);
+        X.release();
+        expect(a.refCount).toBe(1);
+    });
+    test("map preserves positions and applies the function in order", function () {
+        const atoms = [new MyAtom("a"), new MyAtom("b")];
+        const X = cons(atoms[0], cons(atoms[1], nil, 3, 4), 0, 5);
+        const seen: string[] = [];
+        const Y = X.map(function (atom) {
+            seen.push(`${atom}`);
+            atom.addRef();
+            return atom;
+        });
+        expect(seen).toStrictEqual(["Atom('a')", "Atom('b')"]);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 5]);
+        const rest = Y.rest;
+        expect([rest.pos, rest.end]).toStrictEqual([3, 4]);
+    });
+});
+describe("persistent list operations", function () {
+    const [a, b, c, d, e] = ["a", "b", "c", "d", "e"].map(value => new MyAtom(value));
+    function values(X: Cons): string[] {
+        return [...X].map(item => (item as MyAtom).value);
+    }
+    /**
+     * Returns the tail of the list starting at the specified index, which is reference counted.
+     */
+    function tail_at(X: Cons, index: number): Cons {
+        let tail = X;
+        tail.addRef();
+        for (let i = 0; i < index; i++) {
+            const next = tail.cdr;
+            tail.release();
+            tail = next;
+        }
+        return tail;
+    }
+    let detector: LeakDetector;
+    let checkpoint: number;
+    beforeEach(function () {
+        detector = new LeakDetector().enable();
+        checkpoint = detector.checkpoint();
+    });
+    afterEach(function () {
+        detector.disable();
+    });
+    test("append", function () {
+        const X = cons(a, items_to_cons(b, c), 0, 9);
+        const Y = X.append(d, e);
+        expect(values(Y)).toStrictEqual(["a", "b", "c", "d", "e"]);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+        expect(values(X)).toStrictEqual(["a", "b", "c"]);
+        expect(X.append()).toBe(X);
+        expect(values(nil.append(a))).toStrictEqual(["a"]);
+    });
+    test("concat", function () {
+        const X = items_to_cons(a, b);
+        const Y = items_to_cons(c, d);
+        const Z = X.concat(Y, nil);
+        expect(values(Z)).toStrictEqual(["a", "b", "c", "d"]);
+        const rest = tail_at(Z, 2);
+        expect(rest).toBe(Y);
+        expect(values(X.concat(Y, items_to_cons(e)))).toStrictEqual(["a", "b", "c", "d", "e"]);
+        expect(nil.concat(Y)).toBe(Y);
+        expect(X.concat()).toBe(X);
+        expect(nil.concat(nil)).toBe(nil);
+    });
+    test("reverse", function () {
+        const X = cons(a, items_to_cons(b, c), 0, 9);
+        const Y = X.reverse();
+        expect(values(Y)).toStrictEqual(["c", "b", "a"]);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+        const single = items_to_cons(a);
+        expect(single.reverse()).toBe(single);
+        expect(nil.reverse()).toBe(nil);
+    });
+    test("slice", function () {
+        const X = items_to_cons(a, b, c, d);
+        expect(values(X.slice(1, 3))).toStrictEqual(["b", "c"]);
+        expect(values(X.slice(-2))).toStrictEqual(["c", "d"]);
+        expect(values(X.slice(1, -1))).toStrictEqual(["b", "c"]);
+        expect(X.slice(3, 1)).toBe(nil);
+        expect(X.slice()).toBe(X);
+        const rest = tail_at(X, 2);
+        expect(X.slice(2)).toBe(rest);
+    });
+    test("splice", function () {
+        const X = cons(a, items_to_cons(b, c, d), 0, 9);
+        const Y = X.splice(1, 2, e);
+        expect(values(Y)).toStrictEqual(["a", "e", "d"]);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+        const shared = tail_at(X, 3);
+        const after = tail_at(Y, 2);
+        expect(after).toBe(shared);
+        expect(values(X.splice(-1))).toStrictEqual(["a", "b", "c"]);
+        expect(values(X.splice(0, 0, e))).toStrictEqual(["e", "a", "b", "c", "d"]);
+        expect(values(X.splice(10, 5, e))).toStrictEqual(["a", "b", "c", "d", "e"]);
+        expect(X.splice(1, 0)).toBe(X);
+        expect(values(X)).toStrictEqual(["a", "b", "c", "d"]);
+    });
+    test("filter", function () {
+        const X = items_to_cons(a, b, c, d, e);
+        const Y = X.filter(item => item !== b);
+        expect(values(Y)).toStrictEqual(["a", "c", "d", "e"]);
+        const shared = tail_at(X, 2);
+        const after = tail_at(Y, 1);
+        expect(after).toBe(shared);
+        expect(X.filter(() => true)).toBe(X);
+        expect(X.filter(() => false)).toBe(nil);
+        expect(values(X.filter((item, i) => i % 2 === 0))).toStrictEqual(["a", "c", "e"]);
+    });
+    test("find, indexOf, every and some", function () {
+        const X = items_to_cons(a, b, c, new MyAtom("b"));
+        const found = X.find(item => (item as MyAtom).value > "a");
+        expect(found).toBe(b);
+        expect(X.find(item => item === d)).toBeUndefined();
+        expect(X.indexOf(new MyAtom("b"))).toBe(1);
+        expect(X.indexOf(b, 2)).toBe(3);
+        expect(X.indexOf(b, -1)).toBe(3);
+        expect(X.indexOf(d)).toBe(-1);
+        expect(X.every(item => item instanceof MyAtom)).toBe(true);
+        expect(X.every(item => item !== c)).toBe(false);
+        expect(X.some(item => item === c)).toBe(true);
+        expect(nil.some(() => true)).toBe(false);
+        expect(nil.every(() => false)).toBe(true);
+    });
+    test("sort", function () {
+        const b2 = new MyAtom("b");
+        const X = cons(c, items_to_cons(b, a, b2, d, e), 0, 9);
+        const Y = X.sort((p, q) => (p as MyAtom).value.localeCompare((q as MyAtom).value));
+        expect(values(Y)).toStrictEqual(["a", "b", "b", "c", "d", "e"]);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+        // The sort is stable.
+        expect(Y.item(1)).toBe(b);
+        expect(Y.item(2)).toBe(b2);
+        // The tail (d e) is already in place and is shared.
+        const shared = tail_at(X, 4);
+        const after = tail_at(Y, 4);
+        expect(after).toBe(shared);
+        expect(Y.sort((p, q) => (p as MyAtom).value.localeCompare((q as MyAtom).value))).toBe(Y);
+    });
+    test("reference counting", function () {
+        const X = items_to_cons(a, b, c, d);
+        const before = a.refCount;
+        const results = [X.append(e), X.concat(X), X.reverse(), X.slice(1, 2), X.slice(1), X.splice(1, 1, e), X.filter(item => item !== c), X.sort(() => -1)];
+        const found = X.find(() => true) as U;
+        for (const result of results) {
+            result.release();
+        }
+        found.release();
+        X.release();
+        expect(a.refCount).toBe(before - 1);
+        detector.assertNoLeaks(checkpoint);
+    });
+});
+describe("pooled allocation", function () {
+    const [a, b, c] = ["a", "b", "c"].map(value => new MyAtom(value));
+    afterEach(function () {
+        set_cons_pool_capacity(0);
+    });
+    test("released cells are reused", function () {
+        set_cons_pool_capacity(10);
+        const before = cons_pool_stats();
+        const X = pos_end_items_to_cons(0, 7, a, b, c);
+        const hashX = X.hash;
+        const rest = X.rest;
+        const cells = [X, rest, rest.rest];
+        for (const cell of cells.slice(1)) {
+            cell.release();
+        }
+        X.release();
+        expect(cons_pool_stats().recycled - before.recycled).toBe(3);
+        expect(cons_pool_stats().size).toBe(before.size + 3);
+        expect(a.refCount).toBe(1);
+        const Y = items_to_cons(c, b);
+        expect(cons_pool_stats().reused - before.reused).toBe(2);
+        expect(cells).toContain(Y);
+        // A reused cell has the state of a new cell.
+        expect([Y.pos, Y.end]).toStrictEqual([void 0, void 0]);
+        expect(Y.refCount).toBe(1);
+        expect(`${Y}`).toBe("(Atom('c') (Atom('b') ()))");
+        expect(Y.hash).not.toBe(hashX);
+        set_cons_pool_capacity(0);
+        const Z = items_to_cons(c, b);
+        expect(Y.hash).toBe(Z.hash);
+        Y.release();
+        Z.release();
+        expect(cons_pool_stats().size).toBe(0);
+    });
+    test("pinned cells are not recycled", function () {
+        set_cons_pool_capacity(10);
+        const before = cons_pool_stats();
+        const X = items_to_cons(a, b);
+        pin_cons(X);
+        pin_cons(nil);
+        X.release();
+        // Only the cell of the rest is recycled.
+        expect(cons_pool_stats().recycled - before.recycled).toBe(1);
+        const Y = items_to_cons(c, c);
+        expect(Y).not.toBe(X);
+        Y.release();
+    });
+    test("capacity", function () {
+        expect(set_cons_pool_capacity(2)).toBe(0);
+        items_to_cons(a, b, c).release();
+        expect(cons_pool_stats().size).toBe(2);
+        expect(set_cons_pool_capacity(1)).toBe(2);
+        expect(cons_pool_stats().size).toBe(1);
+        expect(() => set_cons_pool_capacity(-1)).toThrow("capacity must be a non-negative number but was -1");
+    });
+    test("cells are not recycled while a tracker is installed", function () {
+        set_cons_pool_capacity(10);
+        const detector = new LeakDetector().enable();
+        try {
+            const X = items_to_cons(a, b);
+            X.release();
+            expect(cons_pool_stats().size).toBe(0);
+            expect(() => X.release()).toThrow("release() called on a destroyed Cons");
+        }
+        finally {
+            detector.disable();
+        }
+    });
+});
+describe("arenas", function () {
+    const [a, b, c] = ["a", "b", "c"].map(value => new MyAtom(value));
+    test("lists that are not part of the result are destroyed", function () {
+        const external = items_to_cons(c);
+        const temps: Cons[] = [];
+        const result = with_cons_arena(function () {
+            // None of these are released.
+            temps.push(items_to_cons(a, b), items_to_cons(b, external));
+            return items_to_cons(a, items_to_cons(b, c), external);
+        });
+        expect(`${result}`).toBe("(Atom('a') ((Atom('b') (Atom('c') ())) ((Atom('c') ()) ())))");
+        expect(result.refCount).toBe(1);
+        expect(temps.map(temp => temp.refCount)).toStrictEqual([0, 0]);
+        // The inner list was not released, but its only reference is now from the result.
+        const inner = result.item(1) as Cons;
+        expect(inner.refCount).toBe(2);
+        inner.release();
+        expect(external.refCount).toBe(2);
+        result.release();
+        expect(external.refCount).toBe(1);
+        external.release();
+        expect([a.refCount, b.refCount, c.refCount]).toStrictEqual([1, 1, 1]);
+    });
+    test("an exception destroys everything allocated in the scope", function () {
+        const temps: Cons[] = [];
+        expect(() => with_cons_arena(function (): Cons {
+            temps.push(items_to_cons(a, b));
+            throw new Error("oops");
+        })).toThrow("oops");
+        expect(temps[0].refCount).toBe(0);
+        expect(a.refCount).toBe(1);
+    });
+    test("nested arenas and pooling", function () {
+        set_cons_pool_capacity(100);
+        try {
+            const before = cons_pool_stats();
+            const result = with_cons_arena(function () {
+                const inner = with_cons_arena(function () {
+                    items_to_cons(c, c);
+                    return items_to_cons(a);
+                });
+                items_to_cons(b, b);
+                return items_to_cons(inner, inner);
+            });
+            expect(`${result}`).toBe("((Atom('a') ()) ((Atom('a') ()) ()))");
+            expect(cons_pool_stats().recycled - before.recycled).toBe(4);
+            expect(result.refCount).toBe(1);
+            result.release();
+            expect([a.refCount, b.refCount, c.refCount]).toStrictEqual([1, 1, 1]);
+        }
+        finally {
+            set_cons_pool_capacity(0);
+        }
+    });
+});
+describe("managed lists", function () {
+    const [a, b, c] = ["a", "b", "c"].map(value => new MyAtom(value));
+    test("addRef and release are no-ops", function () {
+        const X = managed_cons_factory.items_to_cons(a, b);
+        expect(X.managed).toBe(true);
+        X.addRef();
+        X.release();
+        X.release();
+        X.release();
+        expect(X.refCount).toBe(1);
+        expect(X.length).toBe(2);
+        expect(X.head).toBe(a);
+        expect(items_to_cons(a).managed).toBe(false);
+        expect(new Cons(a, nil, void 0, void 0, true).managed).toBe(true);
+        a.release();
+    });
+    test("the lists derived by the methods of a managed list are managed", function () {
+        const X = managed_cons_factory.pos_end_items_to_cons(0, 5, a, b, c);
+        const derived = [X.map(item => item), X.slice(1), X.append(a), X.reverse(), X.splice(1, 1), X.filter(item => item !== b), X.concat(X), X.sort(() => -1)];
+        for (const Y of derived) {
+            expect(Y.managed).toBe(true);
+        }
+        expect(X.rest.managed).toBe(true);
+        expect(counted_cons_factory.items_to_cons(a).map(item => item).managed).toBe(false);
+    });
+    test("both styles share algorithms", function () {
+        /**
+         * Written for reference counting.
+         */
+        function swap(factory: ConsFactory, X: Cons): Cons {
+            const head = X.head;
+            const rest = X.rest;
+            const second = rest.head;
+            const tail = factory.items_to_cons(head);
+            try {
+                return factory.cons(second, tail);
+            }
+            finally {
+                head.release();
+                rest.release();
+                second.release();
+                tail.release();
+            }
+        }
+        const detector = new LeakDetector().enable();
+        try {
+            const checkpoint = detector.checkpoint();
+            const X = managed_cons_factory.items_to_cons(a, b);
+            const Y = swap(managed_cons_factory, X);
+            expect(Y.managed).toBe(true);
+            expect(Y.head).toBe(b);
+            const Z = swap(counted_cons_factory, Y);
+            expect(Z.equals(X)).toBe(true);
+            expect(Z.managed).toBe(false);
+            Z.release();
+            // Managed lists are not tracked, so they are never reported as leaks.
+            detector.assertNoLeaks(checkpoint);
+        }
+        finally {
+            detector.disable();
+        }
+    });
+    test("to_managed", function () {
+        const X = pos_end_items_to_cons(0, 9, a, pos_end_items_to_cons(2, 7, b, c), c);
+        const Y = to_managed(X) as Cons;
+        expect(Y.equals(X)).toBe(true);
+        expect(Y.managed).toBe(true);
+        expect([Y.pos, Y.end]).toStrictEqual([0, 9]);
+        const inner = Y.item(1) as Cons;
+        expect(inner.managed).toBe(true);
+        expect([inner.pos, inner.end]).toStrictEqual([2, 7]);
+        expect(to_managed(Y)).toBe(Y);
+        expect(to_managed(a)).toBe(a);
+        // A managed tail is shared.
+        const Z = cons(b, Y);
+        expect((to_managed(Z) as Cons).rest).toBe(Y);
+        X.release();
+        Z.release();
+    });
+    test("lists in an arena that are held by a managed result are kept", function () {
+        const result = with_cons_arena(() => managed_cons_factory.items_to_cons(items_to_cons(a, b), c));
+        const inner = result.head as Cons;
+        expect(inner.managed).toBe(false);
+        expect(inner.refCount).toBe(2);
+        expect(`${inner}`).toBe("(Atom('a') (Atom('b') ()))");
+        inner.release();
+    });
+    test("a managed result that reuses a cell released in the arena", function () {
+        set_cons_pool_capacity(10);
+        try {
+            const result = with_cons_arena(function () {
+                const temp = cons(a, nil);
+                temp.release();
+                return managed_cons_factory.cons(a, nil);
+            });
+            expect(result.managed).toBe(true);
+            expect(`${result}`).toBe("(Atom('a') ())");
+            const kept = with_cons_arena(function () {
+                const temp = cons(b, nil);
+                temp.release();
+                return cons(c, nil);
+            });
+            expect(kept.refCount).toBe(1);
+            expect(`${kept}`).toBe("(Atom('c') ())");
+            kept.release();
+        }
+        finally {
+            set_cons_pool_capacity(0);
+        }
+    });
+});
@@ -0,0 +1,193 @@
+import { create_rat, create_sym, is_rat, Rat, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { print_sexpr } from "../src/printer";
+import { read } from "../src/reader";
+import { Cons, cons, is_cons, items_to_cons, nil, U } from "../src/tree";
+import { fold, Path, reduce, transform, visit, visit_postorder, visit_preorder } from "../src/visit";
+
+function parse(sourceText: string): U {
+    return read(sourceText, standard_atom_factory);
+}
+
+test("pre-order and post-order", function () {
+    const X = parse("(f (g x) y)");
+    const pre: string[] = [];
+    const post: string[] = [];
+    expect(visit(X, {
+        enter: { node: (node: U) => void pre.push(print_sexpr(node)) },
+        leave: { node: (node: U) => void post.push(print_sexpr(node)) }
+    })).toBe(true);
+    expect(pre).toStrictEqual(["(f (g x) y)", "f", "(g x)", "g", "x", "y"]);
+    expect(post).toStrictEqual(["f", "g", "x", "(g x)", "y", "(f (g x) y)"]);
+});
+test("paths", function () {
+    const paths: Path[] = [];
+    visit_preorder(parse("(f (g x) y)"), { atom: (atom, path) => void paths.push([...path]) });
+    expect(paths).toStrictEqual([[0], [1, 0], [1, 1], [2]]);
+});
+test("dispatch by operator and atom type", function () {
+    const X = parse('(+ (* 2 x) (sin y) "s" () 2.5)');
+    const seen: string[] = [];
+    visit_preorder(X, {
+        operators: {
+            "*": expr => void seen.push(`product ${print_sexpr(expr)}`),
+            "sin": () => void seen.push("sin")
+        },
+        list: () => void seen.push("list"),
+        atoms: {
+            rat: atom => void seen.push(`rat ${atom}`),
+            flt: atom => void seen.push(`flt ${atom}`)
+        },
+        nil: () => void seen.push("nil"),
+        node: node => void seen.push(`other ${node}`)
+    });
+    expect(seen).toStrictEqual(["list", "other +", "product (* 2 x)", "other *", "rat 2", "other x", "sin", "other sin", "other y", 'other "s"', "nil", "flt 2.5"]);
+    // Properties inherited from Object.prototype are not operators.
+    const keys: string[] = [];
+    visit_preorder(parse("(toString x)"), { operators: {}, list: () => void keys.push("list") });
+    expect(keys).toStrictEqual(["list"]);
+    // A custom keyOf selects the operator.
+    const custom: string[] = [];
+    visit_preorder(parse("(f x)"), { operators: { apply: () => void custom.push("apply") } }, { keyOf: () => "apply" });
+    expect(custom).toStrictEqual(["apply"]);
+});
+test("skip and stop", function () {
+    const X = parse("(f (quote (a b)) (g c) d)");
+    const symbols: string[] = [];
+    visit_preorder(X, {
+        operators: { quote: () => "skip" },
+        atoms: { sym: atom => void symbols.push(`${atom}`) }
+    });
+    expect(symbols).toStrictEqual(["f", "g", "c", "d"]);
+    const before: string[] = [];
+    expect(visit_preorder(X, {
+        atoms: {
+            sym: function (atom) {
+                before.push(`${atom}`);
+                return `${atom}` === "a" ? "stop" : void 0;
+            }
+        }
+    })).toBe(false);
+    expect(before).toStrictEqual(["f", "quote", "a"]);
+    const left: string[] = [];
+    expect(visit_postorder(X, {
+        list: function (expr) {
+            left.push(print_sexpr(expr));
+            return "stop";
+        }
+    })).toBe(false);
+    expect(left).toStrictEqual(["(a b)"]);
+});
+test("reduce", function () {
+    const X = parse("(+ (* 2 x) (* 3 y))");
+    expect(reduce(X, n => n + 1, 0)).toBe(10);
+    expect(reduce(X, (keys: string[], node) => [...keys, print_sexpr(node)], [], "post").slice(0, 4)).toStrictEqual(["+", "*", "2", "x"]);
+});
+test("fold", function () {
+    const X = parse("(+ (* 2 x) (* 3 (+ y 1)))");
+    const depth = fold<number>(X, {
+        list: (expr, values) => 1 + Math.max(...values),
+        atom: () => 0,
+        nil: () => 0
+    });
+    expect(depth).toBe(3);
+    const evaluate = fold<number>(X, {
+        operators: {
+            "+": (expr, values) => values.slice(1).reduce((a, b) => a + b, 0),
+            "*": (expr, values) => values.slice(1).reduce((a, b) => a * b, 1)
+        },
+        atoms: {
+            rat: atom => (atom as Rat).toNumber(),
+            sym: atom => ({ x: 5, y: 7 } as { [name: string]: number })[`${atom}`] || NaN
+        }
+    });
+    expect(evaluate).toBe(2 * 5 + 3 * (7 + 1));
+    expect(() => fold<number>(X, { atom: () => 0 })).toThrow(/No fold handler/);
+});
+test("transform", function () {
+    const X = parse("(f (+ 1 2) (g x) (h y))");
+    const Y = transform(X, {
+        operators: {
+            "+": function (expr) {
+                const [, ...args] = [...expr];
+                const sum = args.reduce((a, b) => is_rat(a) && is_rat(b) ? a.add(b) : a);
+                return sum;
+            }
+        }
+    }) as Cons;
+    expect(print_sexpr(Y)).toBe("(f 3 (g x) (h y))");
+    // The unchanged items and the tail after the last change are shared.
+    expect(Y.item(2)).toBe((X as Cons).item(2));
+    expect(Y.cdr.cdr).toBe((X as Cons).cdr.cdr);
+    // Positions of rebuilt cells are preserved.
+    expect([Y.pos, Y.end]).toStrictEqual([0, 23]);
+    // Nothing is rebuilt when nothing changes.
+    expect(transform(X, { atoms: { str: () => create_sym("never") } })).toBe(X);
+});
+test("transform is bottom up", function () {
+    // Replace symbols by numbers, then fold products of numbers.
+    const X = parse("(* a (* b c))");
+    const values: { [name: string]: number } = { a: 2, b: 3, c: 4 };
+    const Y = transform(X, {
+        atoms: { sym: atom => `${atom}` in values ? create_rat(values[`${atom}`]) : void 0 },
+        operators: {
+            "*": function (expr) {
+                const args = expr.tail();
+                if (args.every(is_rat)) {
+                    return (args as Rat[]).reduce((a, b) => a.mul(b));
+                }
+                return void 0;
+            }
+        }
+    });
+    expect(print_sexpr(Y)).toBe("24");
+});
+test("deep expressions", function () {
+    let X: Cons = nil;
+    for (let i = 0; i < 20000; i++) {
+        X = items_to_cons(create_sym("f"), X);
+    }
+    expect(reduce(X, n => n + 1, 0)).toBe(40001);
+    expect(fold<number>(X, { list: (expr, values) => 1 + Math.max(...values), atom: () => 0, nil: () => 0 })).toBe(20000);
+    const Y = transform(X, { nil: () => create_sym("z") });
+    const depths: number[] = [];
+    visit_preorder(Y, { atoms: { sym: (atom, path) => void (`${atom}` === "z" && depths.push(path.length)) } });
+    expect(depths).toStrictEqual([20000]);
+});
+describe("reference counting", function () {
+    let detector: LeakDetector;
+    beforeEach(function () {
+        detector = new LeakDetector().enable();
+    });
+    afterEach(function () {
+        detector.disable();
+    });
+    test("traversals release what they take", function () {
+        const X = parse("(f (g x (h y)) (k z))");
+        const checkpoint = detector.checkpoint();
+        visit(X, { enter: { node: () => void 0 }, leave: { node: () => void 0 } });
+        visit_preorder(X, { operators: { h: () => "stop" } });
+        fold<number>(X, { node: () => 1 } as never);
+        detector.assertNoLeaks(checkpoint);
+        const Y = transform(X, { atoms: { sym: atom => `${atom}` === "y" ? create_sym("w") : void 0 } });
+        expect(print_sexpr(Y)).toBe("(f (g x (h w)) (k z))");
+        Y.release();
+        detector.assertNoLeaks(checkpoint);
+        X.release();
+    });
+    test("partial results are released when a handler throws", function () {
+        const X = parse("(f (g x) (h y))");
+        const checkpoint = detector.checkpoint();
+        expect(() => transform(X, {
+            atoms: { sym: atom => ["x", "y"].includes(`${atom}`) ? cons(atom, nil) : void 0 },
+            operators: {
+                h: function () {
+                    throw new Error("boom");
+                }
+            }
+        })).toThrow("boom");
+        detector.assertNoLeaks(checkpoint);
+        expect(is_cons(X) && X.refCount).toBe(1);
+        X.release();
+    });
+});
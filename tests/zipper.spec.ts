@@ -0,0 +1,107 @@
+import { create_sym, standard_atom_factory } from "../src/atoms";
+import { LeakDetector } from "../src/debug";
+import { read } from "../src/reader";
+import { Cons, U } from "../src/tree";
+import { create_zipper, Zipper } from "../src/zipper";
+
+function parse(sourceText: string): Cons {
+    return read(sourceText, standard_atom_factory) as Cons;
+}
+
+/**
+ * Applies a zipper operation, releasing the zipper that it was applied to.
+ */
+function step(z: Zipper, f: (z: Zipper) => Zipper): Zipper {
+    try {
+        return f(z);
+    }
+    finally {
+        z.release();
+    }
+}
+
+test("navigation", function () {
+    const tree = parse("(+ (* a b) (f c d))");
+    let z = create_zipper(tree);
+    expect(z.isTop).toBe(true);
+    expect(z.index).toBe(-1);
+    expect(z.path).toStrictEqual([]);
+    z = step(z, z => z.down(1));
+    expect(z.focus.toString()).toBe("(* (a (b ())))");
+    expect(z.path).toStrictEqual([1]);
+    z = step(z, z => z.down(2));
+    expect(z.focus.toString()).toBe("b");
+    expect(z.path).toStrictEqual([1, 2]);
+    z = step(z, z => z.left());
+    expect(z.focus.toString()).toBe("a");
+    z = step(z, z => z.up());
+    z = step(z, z => z.right());
+    expect(z.focus.toString()).toBe("(f (c (d ())))");
+    expect(z.path).toStrictEqual([2]);
+    z = step(z, z => z.up());
+    expect(z.focus).toBe(tree);
+    z.release();
+});
+test("at", function () {
+    const tree = parse("(+ (* a b) (f c d))");
+    const z = create_zipper(tree).at([2, 1]);
+    expect(z.focus.toString()).toBe("c");
+    expect(z.path).toStrictEqual([2, 1]);
+    expect(() => z.at([0])).toThrow();
+});
+test("invalid moves", function () {
+    const z = create_zipper(parse("(f a)"));
+    expect(() => z.up()).toThrow();
+    expect(() => z.down(2)).toThrow();
+    expect(() => z.down(-1)).toThrow();
+    expect(() => z.down(1).down(0)).toThrow();
+    expect(() => z.down(0).left()).toThrow();
+    expect(() => z.down(1).right()).toThrow();
+});
+test("root without changes returns the same tree", function () {
+    const tree = parse("(+ (* a b) (f c d))");
+    const z = create_zipper(tree).at([1, 2]).up().right().down(1);
+    expect(z.root()).toBe(tree);
+});
+test("replace shares untouched siblings", function () {
+    const tree = parse("(+ (* a b) (f c d) e)");
+    const z = create_zipper(tree).at([1, 1]).replace(create_sym("x"));
+    const root = z.root() as Cons;
+    expect(root.toString()).toBe("(+ ((* (x (b ()))) ((f (c (d ()))) (e ()))))");
+    expect(tree.toString()).toBe("(+ ((* (a (b ()))) ((f (c (d ()))) (e ()))))");
+    expect(root).not.toBe(tree);
+    expect(root.pos).toBe(tree.pos);
+    expect(root.end).toBe(tree.end);
+    // The sibling subtree and the tail after the changed item are shared.
+    expect(root.item(2)).toBe(tree.item(2));
+    const lhs = root.lhs as Cons;
+    const original = tree.lhs as Cons;
+    expect(lhs.rest.rest).toBe(original.rest.rest);
+});
+test("changes survive moving down a modified parent", function () {
+    const tree = parse("(+ (* a b) (f c d))");
+    const z = create_zipper(tree).at([1, 1]).replace(create_sym("x")).right().replace(create_sym("y")).up().up().down(2).down(0).replace(create_sym("g"));
+    expect(z.path).toStrictEqual([2, 0]);
+    expect(z.root().toString()).toBe("(+ ((* (x (y ()))) ((g (c (d ()))) ())))");
+});
+test("no leaks", function () {
+    const detector = new LeakDetector().enable();
+    try {
+        const tree = parse("(+ (* a b) (f c d))");
+        const checkpoint = detector.checkpoint();
+        let z = create_zipper(tree);
+        z = step(z, z => z.at([1, 1]));
+        z = step(z, z => z.replace(create_sym("x")));
+        z = step(z, z => z.right());
+        z = step(z, z => z.up());
+        const root: U = z.root();
+        z.release();
+        expect(root.toString()).toBe("(+ ((* (x (b ()))) ((f (c (d ()))) ())))");
+        root.release();
+        detector.assertNoLeaks(checkpoint);
+        tree.release();
+    }
+    finally {
+        detector.disable();
+    }
+});